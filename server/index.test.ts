@@ -0,0 +1,86 @@
+import { spawn } from 'node:child_process'
+import type { ChildProcessWithoutNullStreams } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+import { afterEach, describe, expect, it } from 'vitest'
+import { WebSocket } from 'ws'
+import { createPublishTagMessage } from '../src/graph'
+import { createWalletMnemonic } from '../src/hdWallet'
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url))
+const TSX = fileURLToPath(new URL('../node_modules/.bin/tsx', import.meta.url))
+
+const processes: ChildProcessWithoutNullStreams[] = []
+
+// Runs the script the way `npm run mock-server` does, as native ESM under tsx.
+const startScript = () =>
+  new Promise<{ url: string; child: ChildProcessWithoutNullStreams }>((resolve, reject) => {
+    const child = spawn(TSX, ['server/index.ts', '--port', '0'], { cwd: ROOT })
+    processes.push(child)
+
+    let output = ''
+    child.stdout.on('data', (chunk) => {
+      output += String(chunk)
+      const url = output.match(/listening on (ws:\/\/\S+)/)?.[1]
+      if (url) {
+        resolve({ url, child })
+      }
+    })
+    child.stderr.on('data', (chunk) => {
+      output += String(chunk)
+    })
+    child.on('exit', (code) => reject(new Error(`The mock server exited with ${code}:\n${output}`)))
+  })
+
+const open = (url: string) =>
+  new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(url, ['consequence.1'])
+    socket.once('open', () => resolve(socket))
+    socket.once('error', reject)
+  })
+
+const nextMessage = (socket: WebSocket, type: string) =>
+  new Promise<Record<string, unknown>>((resolve) => {
+    const handleMessage = (data: unknown) => {
+      const message = JSON.parse(String(data))
+      if (message.type === type) {
+        socket.off('message', handleMessage)
+        resolve(message)
+      }
+    }
+    socket.on('message', handleMessage)
+  })
+
+afterEach(async () => {
+  await Promise.all(
+    processes.splice(0).map(
+      (child) =>
+        new Promise<void>((resolve) => {
+          if (child.exitCode !== null || child.signalCode !== null) {
+            resolve()
+            return
+          }
+          child.once('exit', () => resolve())
+          child.kill('SIGTERM')
+        }),
+    ),
+  )
+})
+
+describe('mock-server script', () => {
+  it('accepts a signed tag and survives malformed messages', async () => {
+    const { url, child } = await startScript()
+    const socket = await open(url)
+
+    socket.send('null')
+    socket.send(JSON.stringify({ type: 'publish_tag', body: { request_id: 'bad', signer: 1 } }))
+    await expect(nextMessage(socket, 'publish_rejected')).resolves.toMatchObject({ body: { request_id: 'bad' } })
+
+    const wallet = { mnemonic: createWalletMnemonic(), passphrase: '' }
+    const point = { id: 'local', time: 3, row: 2, column: 2, xPercent: 15, yPercent: 10, note: 'from the script' }
+    socket.send(JSON.stringify(createPublishTagMessage('req-1', wallet, 'demo', { account: 0, address: 0 }, point)))
+
+    await expect(nextMessage(socket, 'publish_ack')).resolves.toMatchObject({ body: { request_id: 'req-1' } })
+    expect(child.exitCode).toBeNull()
+    socket.close()
+  }, 20000)
+})
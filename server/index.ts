@@ -0,0 +1,41 @@
+import { watch } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { DotSyntaxError } from '../src/dot'
+import { DEFAULT_FIXTURE_PATH, startMockGraphServer } from './mockGraphServer'
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.PORT ?? '8787' },
+    host: { type: 'string', default: '127.0.0.1' },
+    fixture: { type: 'string' },
+  },
+})
+
+const fixturePath = values.fixture ?? fileURLToPath(DEFAULT_FIXTURE_PATH)
+const server = await startMockGraphServer({
+  port: Number(values.port),
+  host: values.host,
+  fixturePath,
+})
+
+console.log(`Mock graph server listening on ${server.url} (${fixturePath})`)
+console.log(`Run the app with VITE_GRAPH_SOCKET_URL=${server.url} npm run dev`)
+
+// Edits to the fixture are pushed to connected clients as a fresh graph.
+watch(fixturePath, async () => {
+  try {
+    server.setGraph(await readFile(fixturePath, 'utf8'))
+    console.log('Fixture changed, pushed the new graph')
+  } catch (error) {
+    console.error(error instanceof DotSyntaxError ? `Fixture not reloaded: ${error.message}` : error)
+  }
+})
+
+const shutdown = () => {
+  server.close().finally(() => process.exit(0))
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { WebSocket } from 'ws'
+import { createGraphClient } from '../src/graphClient'
+import type { GraphClient, GraphClientMessage, GraphClientOptions, GraphConnectionStatus } from '../src/graphClient'
+import {
+  applyGraphDelta,
+  createPublishReplyMessage,
+  createPublishTagMessage,
+  parseGraph,
+  parseGraphDelta,
+  parseTagPointsForNamespace,
+} from '../src/graph'
+import type { Graph } from '../src/graph'
+import { startMockGraphServer } from './mockGraphServer'
+import type { MockGraphServer } from './mockGraphServer'
+
+const WALLET = {
+  mnemonic:
+    'desert maximum repair joke occur sustain joy private leg plug empty total blood detail meadow force news walnut anchor build habit joke upon soda',
+  passphrase: '',
+}
+const PATH = { account: 0, address: 0 }
+
+const FIXTURE = `digraph {
+  "clip" [namespace="demo", memo="https://example.com/clip.mp4"]
+  "demo/T+1s/1x1/" [pubkey="demo/T+1s/1x1/", memo="root"]
+  "demo/T+1s/1x1/re/a/" [pubkey="demo/T+1s/1x1/re/a/", memo="reply"]
+  "demo/T+1s/1x1/" -> "demo/T+1s/1x1/re/a/"
+}`
+
+type Connection = {
+  client: GraphClient
+  statuses: GraphConnectionStatus[]
+  next: (type: string) => Promise<GraphClientMessage>
+}
+
+const servers: MockGraphServer[] = []
+const clients: GraphClient[] = []
+
+const startServer = async (port = 0) => {
+  const server = await startMockGraphServer({ port, graph: FIXTURE })
+  servers.push(server)
+  return server
+}
+
+const connect = (url: string, options: Partial<GraphClientOptions> = {}): Connection => {
+  const received: GraphClientMessage[] = []
+  const waiters: Array<{ type: string; resolve: (message: GraphClientMessage) => void }> = []
+  const statuses: GraphConnectionStatus[] = []
+
+  const client = createGraphClient({
+    url,
+    protocols: ['consequence.1'],
+    createSocket: (socketUrl, protocols) => new WebSocket(socketUrl, protocols) as unknown as globalThis.WebSocket,
+    initialRetryDelayMs: 20,
+    maxRetryDelayMs: 50,
+    onStateChange: (state) => statuses.push(state.status),
+    onMessage: (message) => {
+      const index = waiters.findIndex((waiter) => waiter.type === message.type)
+      if (index === -1) {
+        received.push(message)
+      } else {
+        waiters.splice(index, 1)[0].resolve(message)
+      }
+    },
+    ...options,
+  })
+  clients.push(client)
+
+  const next = (type: string) => {
+    const index = received.findIndex((message) => message.type === type)
+    if (index !== -1) {
+      return Promise.resolve(received.splice(index, 1)[0])
+    }
+    return new Promise<GraphClientMessage>((resolve) => waiters.push({ type, resolve }))
+  }
+
+  return { client, statuses, next }
+}
+
+const readGraph = (message: GraphClientMessage): Graph => parseGraph(String(message.body?.graph))
+
+afterEach(async () => {
+  clients.splice(0).forEach((client) => client.close())
+  await Promise.all(servers.splice(0).map((server) => server.close()))
+})
+
+describe('mock graph server', () => {
+  it('answers get_graph with the fixture graph', async () => {
+    const server = await startServer()
+    const { client, next } = connect(server.url)
+    client.setSubscriptions(['any-key'])
+
+    const message = await next('graph')
+    const { nodes, edges } = readGraph(message)
+
+    expect(message.body?.public_key).toBe('any-key')
+    expect(parseTagPointsForNamespace(nodes, 'demo', edges)).toEqual([
+      expect.objectContaining({
+        note: 'root',
+        replies: [expect.objectContaining({ note: 'reply', depth: 1 })],
+      }),
+    ])
+  })
+
+  it('acknowledges signed tags and pushes them to subscribers as deltas', async () => {
+    const server = await startServer()
+    const publisher = connect(server.url)
+    const watcher = connect(server.url)
+    publisher.client.setSubscriptions(['key'])
+    watcher.client.setSubscriptions(['key'])
+    const snapshot = readGraph(await watcher.next('graph'))
+    await publisher.next('graph')
+
+    const point = { id: 'local', time: 4, row: 2, column: 2, xPercent: 15, yPercent: 10, note: 'new tag' }
+    const message = createPublishTagMessage('req-1', WALLET, 'demo', PATH, point)
+    publisher.client.request(message)
+
+    expect(await publisher.next('publish_ack')).toEqual({ type: 'publish_ack', body: { request_id: 'req-1' } })
+
+    const changes = parseGraphDelta((await watcher.next('graph_delta')).body?.changes)
+    expect(changes).not.toBeNull()
+
+    const { graph } = applyGraphDelta(snapshot, changes ?? [])
+    expect(parseTagPointsForNamespace(graph.nodes, 'demo', graph.edges)).toEqual([
+      expect.objectContaining({ note: 'root' }),
+      expect.objectContaining({ id: message.body.public_key, note: 'new tag', signatureStatus: 'signed' }),
+    ])
+  })
+
+  it('accepts region tags and keeps their shape', async () => {
+    const server = await startServer()
+    const { client, next } = connect(server.url)
+
+    const shape = { type: 'rectangle' as const, xPercent: 10, yPercent: 20, widthPercent: 30, heightPercent: 20 }
+    const region = { id: 'local', time: 6, row: 5, column: 3, xPercent: 25, yPercent: 30, note: 'box', shape }
+    client.request(createPublishTagMessage('req-3', WALLET, 'demo', PATH, region))
+    await next('publish_ack')
+
+    const { nodes, edges } = server.getGraph()
+    expect(parseTagPointsForNamespace(nodes, 'demo', edges)).toContainEqual(
+      expect.objectContaining({ note: 'box', shape, signatureStatus: 'signed' }),
+    )
+  })
+
+  it('keeps serving parseable graphs after tags with backslashes', async () => {
+    const server = await startServer()
+    const publisher = connect(server.url)
+
+    const point = { id: 'local', time: 5, row: 3, column: 3, xPercent: 15, yPercent: 10, note: 'path\\\nends \\' }
+    publisher.client.request(createPublishTagMessage('req-4', WALLET, 'demo', PATH, point))
+    await publisher.next('publish_ack')
+
+    const watcher = connect(server.url)
+    watcher.client.setSubscriptions(['key'])
+    const { nodes, edges } = readGraph(await watcher.next('graph'))
+    expect(parseTagPointsForNamespace(nodes, 'demo', edges)).toContainEqual(
+      expect.objectContaining({ note: point.note }),
+    )
+  })
+
+  it('threads published replies under their parent', async () => {
+    const server = await startServer()
+    const { client, next } = connect(server.url)
+    client.setSubscriptions(['key'])
+    await next('graph')
+
+    const reply = { id: 'b', parentId: 'demo/T+1s/1x1/', depth: 1, note: 'second reply' }
+    client.request(createPublishReplyMessage('req-2', WALLET, 'demo', PATH, 'demo/T+1s/1x1/', reply))
+    await next('publish_ack')
+
+    const { nodes, edges } = server.getGraph()
+    const [root] = parseTagPointsForNamespace(nodes, 'demo', edges)
+    expect(root.replies?.map((entry) => entry.note)).toEqual(['reply', 'second reply'])
+  })
+
+  it('rejects tampered, duplicate and orphaned tags', async () => {
+    const server = await startServer()
+    const { client, next } = connect(server.url)
+
+    const point = { id: 'local', time: 1, row: 1, column: 1, xPercent: 1, yPercent: 1, note: 'root' }
+    const original = createPublishTagMessage('original', WALLET, 'demo', PATH, point)
+    const duplicate = createPublishTagMessage('duplicate', WALLET, 'demo', PATH, point)
+    const tampered = createPublishTagMessage('tampered', WALLET, 'demo', PATH, { ...point, time: 9 })
+    tampered.body.memo = 'changed'
+    const reply = { id: 'x', parentId: 'missing', depth: 1, note: 'orphan' }
+    const orphan = createPublishReplyMessage('orphan', WALLET, 'demo', PATH, 'demo/T+5s/1x1/', reply)
+
+    client.request(original)
+    client.request(duplicate)
+    client.request(tampered)
+    client.request(orphan)
+
+    await next('publish_ack')
+    const reasons = await Promise.all([next('publish_rejected'), next('publish_rejected'), next('publish_rejected')])
+    expect(reasons.map((message) => [message.body?.request_id, message.body?.reason])).toEqual([
+      ['duplicate', 'A tag with this pubkey already exists.'],
+      ['tampered', 'The signature does not verify.'],
+      ['orphan', 'The parent tag does not exist.'],
+    ])
+  })
+
+  it('pushes replaced graphs to subscribers', async () => {
+    const server = await startServer()
+    const { client, next } = connect(server.url)
+    client.setSubscriptions(['key'])
+    await next('graph')
+
+    server.setGraph('digraph { "demo/T+2s/1x1/" [pubkey="demo/T+2s/1x1/", memo="replaced"] }')
+    const { nodes } = readGraph(await next('graph'))
+
+    expect(nodes.map((node) => node.attributes.memo)).toEqual(['replaced'])
+  })
+
+  it('answers heartbeat pings so idle connections stay open', async () => {
+    const server = await startServer()
+    const { client, statuses } = connect(server.url, { heartbeatIntervalMs: 10, heartbeatTimeoutMs: 100 })
+
+    await new Promise((resolve) => setTimeout(resolve, 200))
+
+    expect(statuses).toEqual(['connecting', 'open'])
+    expect(client.getState().status).toBe('open')
+  })
+
+  it('lets the client reconnect and re-subscribe after a restart', async () => {
+    const first = await startServer()
+    const { client, statuses, next } = connect(first.url)
+    client.setSubscriptions(['key'])
+    await next('graph')
+
+    await first.close()
+    servers.splice(servers.indexOf(first), 1)
+    const second = await startServer(first.port)
+    second.setGraph('digraph { "demo/T+7s/1x1/" [pubkey="demo/T+7s/1x1/", memo="after restart"] }')
+
+    const { nodes } = readGraph(await next('graph'))
+
+    expect(nodes.map((node) => node.attributes.memo)).toEqual(['after restart'])
+    expect(statuses).toContain('reconnecting')
+    expect(client.getState().status).toBe('open')
+  })
+})
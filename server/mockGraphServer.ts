@@ -0,0 +1,213 @@
+import { readFile } from 'node:fs/promises'
+import { WebSocketServer } from 'ws'
+import type { WebSocket } from 'ws'
+import { parseDot, stringifyDot } from '../src/dot'
+import type { DotGraph } from '../src/dot'
+import { applyGraphDelta } from '../src/graph'
+import type { GraphDeltaChange } from '../src/graph'
+import { createTagSignaturePayload, verifyMessage } from '../src/hdWallet'
+
+export const GRAPH_SOCKET_PROTOCOL = 'consequence.1'
+export const DEFAULT_FIXTURE_PATH = new URL('./fixtures/feed.dot', import.meta.url)
+
+const TAG_PUBKEY_PATTERN = /^.+?\/T\+\d+s\/\d+x\d+(?:@\d+x\d+)?\//
+
+export type MockGraphServerOptions = {
+  /** Port to listen on; 0 picks a free one. */
+  port?: number
+  host?: string
+  /** DOT source to serve. Defaults to the contents of `fixturePath`. */
+  graph?: string
+  fixturePath?: string | URL
+}
+
+export type MockGraphServer = {
+  url: string
+  port: number
+  getGraph: () => DotGraph
+  /** Replaces the graph and sends it to every subscribed client. */
+  setGraph: (dot: string) => void
+  /** Applies changes and pushes them to every subscribed client as a delta. */
+  pushDelta: (changes: GraphDeltaChange[]) => void
+  close: () => Promise<void>
+}
+
+type Message = {
+  type?: unknown
+  body?: Record<string, unknown>
+}
+
+const send = (client: WebSocket, type: string, body?: Record<string, unknown>) => {
+  if (client.readyState === client.OPEN) {
+    client.send(JSON.stringify(body ? { type, body } : { type }))
+  }
+}
+
+/**
+ * Checks a `publish_tag` body and returns the delta that adds it to the graph,
+ * or the reason it was rejected.
+ */
+const validatePublish = (
+  graph: DotGraph,
+  body: Record<string, unknown>,
+): { changes: GraphDeltaChange[] } | { reason: string } => {
+  const { public_key: pubkey, memo, path, signer, signature, parent } = body
+
+  if (
+    typeof pubkey !== 'string' ||
+    typeof memo !== 'string' ||
+    typeof signer !== 'string' ||
+    typeof signature !== 'string' ||
+    (path !== undefined && typeof path !== 'string') ||
+    (parent !== undefined && typeof parent !== 'string')
+  ) {
+    return { reason: 'Malformed publish_tag message.' }
+  }
+
+  if (!TAG_PUBKEY_PATTERN.test(pubkey)) {
+    return { reason: 'Tag pubkeys must look like <namespace>/T+<seconds>s/<column>x<row>[@<columns>x<rows>]/.' }
+  }
+
+  if (!memo.trim()) {
+    return { reason: 'Tags need a memo.' }
+  }
+
+  if (!verifyMessage(createTagSignaturePayload(pubkey, memo), signature, signer)) {
+    return { reason: 'The signature does not verify.' }
+  }
+
+  if (graph.nodes.some((node) => node.id === pubkey)) {
+    return { reason: 'A tag with this pubkey already exists.' }
+  }
+
+  if (parent !== undefined && !graph.nodes.some((node) => node.id === parent)) {
+    return { reason: 'The parent tag does not exist.' }
+  }
+
+  const attributes: Record<string, string> = { pubkey, memo, signer, signature }
+  if (path) {
+    attributes.path = path
+  }
+
+  return {
+    changes: [
+      { op: 'node_added', id: pubkey, attributes },
+      ...(parent ? [{ op: 'edge_added' as const, from: parent, to: pubkey, attributes: {} }] : []),
+    ],
+  }
+}
+
+/**
+ * A stand-in for the graph server. Every `get_graph` is answered with the
+ * whole fixture graph regardless of the public key; accepted tags are added
+ * to it and pushed to subscribed clients as `graph_delta` messages.
+ */
+export const startMockGraphServer = async ({
+  port = 8787,
+  host = '127.0.0.1',
+  graph: source,
+  fixturePath = DEFAULT_FIXTURE_PATH,
+}: MockGraphServerOptions = {}): Promise<MockGraphServer> => {
+  let graph = parseDot(source ?? (await readFile(fixturePath, 'utf8')))
+  const subscribers = new Set<WebSocket>()
+
+  const server = new WebSocketServer({
+    port,
+    host,
+    handleProtocols: (protocols) => (protocols.has(GRAPH_SOCKET_PROTOCOL) ? GRAPH_SOCKET_PROTOCOL : false),
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('listening', resolve)
+    server.once('error', reject)
+  })
+
+  const broadcast = (type: string, body: Record<string, unknown>) => {
+    subscribers.forEach((client) => send(client, type, body))
+  }
+
+  const pushDelta = (changes: GraphDeltaChange[]) => {
+    graph = applyGraphDelta(graph, changes).graph
+    broadcast('graph_delta', { changes })
+  }
+
+  server.on('connection', (client) => {
+    if (client.protocol !== GRAPH_SOCKET_PROTOCOL) {
+      client.close(1002, `Expected the ${GRAPH_SOCKET_PROTOCOL} subprotocol.`)
+      return
+    }
+
+    client.on('close', () => subscribers.delete(client))
+
+    const handleMessage = (message: Message) => {
+      const body = message.body ?? {}
+
+      if (message.type === 'ping') {
+        send(client, 'pong')
+      } else if (message.type === 'get_graph') {
+        subscribers.add(client)
+        send(client, 'graph', { public_key: body.public_key, graph: stringifyDot(graph) })
+      } else if (message.type === 'publish_tag') {
+        const requestId = body.request_id
+        if (typeof requestId !== 'string') {
+          return
+        }
+
+        let result: ReturnType<typeof validatePublish>
+        try {
+          result = validatePublish(graph, body)
+        } catch (error) {
+          console.error('Could not validate a published tag', error)
+          result = { reason: 'The server could not check this tag.' }
+        }
+
+        if ('reason' in result) {
+          send(client, 'publish_rejected', { request_id: requestId, reason: result.reason })
+          return
+        }
+
+        send(client, 'publish_ack', { request_id: requestId })
+        pushDelta(result.changes)
+      }
+    }
+
+    client.on('message', (data) => {
+      let message: unknown
+      try {
+        message = JSON.parse(data.toString())
+      } catch {
+        return
+      }
+
+      if (typeof message !== 'object' || message === null) {
+        return
+      }
+
+      // A message the server cannot handle must not take down every other connection.
+      try {
+        handleMessage(message as Message)
+      } catch (error) {
+        console.error('Could not handle a graph message', error)
+      }
+    })
+  })
+
+  const address = server.address()
+  const boundPort = typeof address === 'object' && address ? address.port : port
+
+  return {
+    url: `ws://${host}:${boundPort}`,
+    port: boundPort,
+    getGraph: () => graph,
+    setGraph: (dot) => {
+      graph = parseDot(dot)
+      broadcast('graph', { graph: stringifyDot(graph) })
+    },
+    pushDelta,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.clients.forEach((client) => client.terminate())
+        server.close((error) => (error ? reject(error) : resolve()))
+      }),
+  }
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import {
+  EMPTY_ANNOTATION_FILTERS,
+  filterAnnotations,
+  getAnnotationSource,
+  getFilterInputErrors,
+} from './annotationFilters'
+import type { AnnotationFilters, AnnotationSource } from './annotationFilters'
+import { formatTrackPosition, isAnnotationInView } from './documentScroll'
+import type { DocumentViewport } from './documentScroll'
+import type { MediaTrack } from './types'
+
+type AnnotationListProps = {
+  track: MediaTrack | undefined
+  currentTime: number
+  documentViewport: DocumentViewport | undefined
+  isOpen: boolean
+  onClose: () => void
+  onSelect: (pointId: string) => void
+}
+
+const SOURCE_LABELS: Record<AnnotationSource, string> = {
+  local: 'Local',
+  graph: 'Graph tag',
+}
+
+function AnnotationList({ track, currentTime, documentViewport, isOpen, onClose, onSelect }: AnnotationListProps) {
+  const [filtersByTrack, setFiltersByTrack] = useState<Record<string, AnnotationFilters>>({})
+
+  if (!isOpen) {
+    return null
+  }
+
+  const filters = (track && filtersByTrack[track.key]) || EMPTY_ANNOTATION_FILTERS
+  const inputErrors = getFilterInputErrors(filters)
+  const points = track ? filterAnnotations(track.points, filters) : []
+
+  const updateFilter = (name: keyof AnnotationFilters, value: string) => {
+    if (!track) {
+      return
+    }
+
+    setFiltersByTrack((previous) => ({
+      ...previous,
+      [track.key]: { ...(previous[track.key] ?? EMPTY_ANNOTATION_FILTERS), [name]: value },
+    }))
+  }
+
+  const inputClassName = (hasError: boolean | undefined) =>
+    hasError ? 'field__input field__input--error' : 'field__input'
+
+  return (
+    <aside className="annotation-list" aria-label="Annotations">
+      <header className="annotation-list__header">
+        <h2>Annotations</h2>
+        <button type="button" className="drawer__close" onClick={onClose}>
+          Close
+        </button>
+      </header>
+
+      {track ? (
+        <>
+          <p className="annotation-list__track">{track.source}</p>
+          <div className="annotation-list__filters">
+            <label className="field">
+              <span className="field__label">Search</span>
+              <input
+                type="search"
+                value={filters.query}
+                onChange={(event) => updateFilter('query', event.target.value)}
+                placeholder="Notes and replies"
+                className="field__input"
+              />
+            </label>
+            <div className="annotation-list__row">
+              <label className="field">
+                <span className="field__label">From</span>
+                <input
+                  value={filters.from}
+                  onChange={(event) => updateFilter('from', event.target.value)}
+                  placeholder="0:00"
+                  className={inputClassName(inputErrors.from)}
+                  aria-invalid={inputErrors.from ? 'true' : 'false'}
+                />
+              </label>
+              <label className="field">
+                <span className="field__label">To</span>
+                <input
+                  value={filters.to}
+                  onChange={(event) => updateFilter('to', event.target.value)}
+                  placeholder="1:30"
+                  className={inputClassName(inputErrors.to)}
+                  aria-invalid={inputErrors.to ? 'true' : 'false'}
+                />
+              </label>
+            </div>
+            <div className="annotation-list__row">
+              <label className="field">
+                <span className="field__label">Cells</span>
+                <input
+                  value={filters.cells}
+                  onChange={(event) => updateFilter('cells', event.target.value)}
+                  placeholder="2x3-5x8"
+                  className={inputClassName(inputErrors.cells)}
+                  aria-invalid={inputErrors.cells ? 'true' : 'false'}
+                />
+              </label>
+              <label className="field">
+                <span className="field__label">Source</span>
+                <select
+                  value={filters.source}
+                  onChange={(event) => updateFilter('source', event.target.value)}
+                  className="field__input"
+                >
+                  <option value="all">All</option>
+                  {(Object.keys(SOURCE_LABELS) as AnnotationSource[]).map((source) => (
+                    <option key={source} value={source}>
+                      {SOURCE_LABELS[source]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="annotation-list__hint">
+              Times are <code>m:ss</code> or seconds; cells are <code>columnxrow</code>, or two corners of a block.
+            </p>
+          </div>
+
+          <div className="annotation-list__summary">
+            <span>
+              {points.length} of {track.points.length} annotation{track.points.length === 1 ? '' : 's'}
+            </span>
+            <button
+              type="button"
+              className="drawer__close"
+              onClick={() => setFiltersByTrack((previous) => ({ ...previous, [track.key]: EMPTY_ANNOTATION_FILTERS }))}
+              disabled={filters === EMPTY_ANNOTATION_FILTERS}
+            >
+              Clear filters
+            </button>
+          </div>
+
+          {points.length ? (
+            <ol className="annotation-list__items">
+              {points.map((point) => {
+                const source = getAnnotationSource(point)
+                return (
+                  <li key={point.id}>
+                    <button
+                      type="button"
+                      className={
+                        isAnnotationInView(point, currentTime, documentViewport)
+                          ? 'annotation-list__item annotation-list__item--current'
+                          : 'annotation-list__item'
+                      }
+                      onClick={() => onSelect(point.id)}
+                    >
+                      <span className="annotation-list__meta">
+                        <span className="annotation-list__time">{formatTrackPosition(point, track.kind)}</span>
+                        <span>
+                          {point.column}x{point.row}
+                        </span>
+                        <span className={`annotation-list__source annotation-list__source--${source}`}>
+                          {SOURCE_LABELS[source]}
+                        </span>
+                      </span>
+                      <span className="annotation-list__note">{point.note.trim() || 'No note yet'}</span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ol>
+          ) : (
+            <p className="drawer__empty">
+              {track.points.length ? 'No annotations match the filters.' : 'This track has no annotations yet.'}
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="drawer__empty">Scroll to a track to list its annotations.</p>
+      )}
+    </aside>
+  )
+}
+
+export default AnnotationList
@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react'
+import {
+  ANNOTATION_EXPORT_TYPES,
+  exportAnnotations,
+  mergeImportedPoints,
+  parseAnnotationFile,
+} from './annotationTransfer'
+import type { AnnotationExportFormat, ImportedPoint } from './annotationTransfer'
+import type { GridDimensions, MediaTrack } from './types'
+
+type AnnotationTransferProps = {
+  track: MediaTrack
+  grid: GridDimensions
+  onImport: (points: ImportedPoint[]) => void
+}
+
+type ImportSummary = {
+  fileName: string
+  added: number
+  duplicates: number
+  errors: string[]
+}
+
+const EXPORT_LABELS: Record<AnnotationExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  vtt: 'WebVTT',
+}
+
+const MAX_LISTED_ERRORS = 5
+
+const getExportBaseName = (track: MediaTrack): string => {
+  const fallback = track.url.split(/[?#]/)[0].split('/').filter(Boolean).pop()?.replace(/\.[^.]+$/, '')
+  return (track.namespace || fallback || 'annotations').replace(/[^\w.-]+/g, '-')
+}
+
+function AnnotationTransfer({ track, grid, onImport }: AnnotationTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDownload = (format: AnnotationExportFormat) => {
+    const { extension, mimeType } = ANNOTATION_EXPORT_TYPES[format]
+    const blob = new Blob([exportAnnotations(track, format)], { type: mimeType })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${getExportBaseName(track)}.${extension}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleCopy = () => {
+    setError(null)
+    navigator.clipboard?.writeText(exportAnnotations(track, 'json')).catch(() => {
+      setError('Unable to copy the annotations. Download the JSON file instead.')
+    })
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    setError(null)
+    setSummary(null)
+
+    let text: string
+    try {
+      text = await file.text()
+    } catch {
+      setError(`Unable to read ${file.name}.`)
+      return
+    }
+
+    const result = parseAnnotationFile(file.name, text)
+    const { added, duplicates } = mergeImportedPoints(track.points, result.points, grid, () => '')
+    if (added) {
+      onImport(result.points)
+    }
+
+    setSummary({ fileName: file.name, added, duplicates, errors: result.errors })
+  }
+
+  return (
+    <details className="transfer">
+      <summary className="transfer__summary">Export / import annotations</summary>
+      <div className="transfer__actions">
+        {(Object.keys(EXPORT_LABELS) as AnnotationExportFormat[]).map((format) => (
+          <button
+            key={format}
+            type="button"
+            className="button"
+            onClick={() => handleDownload(format)}
+            disabled={!track.points.length}
+          >
+            {EXPORT_LABELS[format]}
+          </button>
+        ))}
+        <button type="button" className="button" onClick={handleCopy} disabled={!track.points.length}>
+          Copy JSON
+        </button>
+        <button type="button" className="button" onClick={() => fileInputRef.current?.click()}>
+          Import…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,.vtt,application/json,text/csv,text/vtt"
+          onChange={handleFileChange}
+          hidden
+        />
+      </div>
+      {summary ? (
+        <div className="transfer__result" role="status">
+          <p className="transfer__hint">
+            {summary.fileName}: {summary.added} added
+            {summary.duplicates
+              ? `, ${summary.duplicates} duplicate${summary.duplicates === 1 ? '' : 's'} skipped`
+              : ''}
+            {summary.errors.length ? `, ${summary.errors.length} invalid` : ''}.
+          </p>
+          {summary.errors.length ? (
+            <ul className="transfer__errors">
+              {summary.errors.slice(0, MAX_LISTED_ERRORS).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+              {summary.errors.length > MAX_LISTED_ERRORS ? (
+                <li>…and {summary.errors.length - MAX_LISTED_ERRORS} more.</li>
+              ) : null}
+            </ul>
+          ) : null}
+        </div>
+      ) : (
+        <p className="transfer__hint">
+          Imported points are added as local drafts. Points at the same time and cell as an existing one are skipped.
+        </p>
+      )}
+      {error ? (
+        <p className="field__error" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </details>
+  )
+}
+
+export default AnnotationTransfer
@@ -1,275 +1,286 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { SyntheticEvent } from 'react'
+import YouTube from 'react-youtube'
 import './App.css'
-import { deriveNamespacePublicKey } from './hdWallet'
-
-type PointOfInterest = {
-  id: string
-  time: number
-  row: number
-  column: number
-  xPercent: number
-  yPercent: number
-  note: string
-  isReadOnly?: boolean
+import {
+  DEFAULT_DERIVATION_PATH,
+  deriveNamespacePublicKey,
+  deriveWalletNamespacePublicKey,
+  enumerateNamespacePublicKeys,
+  enumerateWalletNamespacePublicKeys,
+  formatDerivationPath,
+  parseDerivationPath,
+} from './hdWallet'
+import type { DerivationPath, Wallet } from './hdWallet'
+import { DotSyntaxError } from './dot'
+import { createGraphClient } from './graphClient'
+import type { GraphClient, GraphClientMessage, GraphConnectionState, GraphConnectionStatus } from './graphClient'
+import { formatMemoHtml, formatPublicKey, formatTimecode, normalizeLinkHref, normalizeSocketUrl } from './format'
+import {
+  applyGraphDeltaToSnapshots,
+  createPublishReplyMessage,
+  createPublishTagMessage,
+  getAnnotationPubkey,
+  mergeGraphs,
+  parseGraph,
+  parseGraphDelta,
+  reconcileGraphTracks,
+} from './graph'
+import type { Graph, PublishTagMessage } from './graph'
+import {
+  DEFAULT_GRID,
+  MAX_GRID_DIMENSION,
+  MIN_GRID_DIMENSION,
+  clampGridDimension,
+  detectAspectRatio,
+  getCellAt,
+  getCellCenter,
+  getFramePadding,
+  getTrackGrid,
+} from './grid'
+import {
+  AUTO_QUALITY_LEVEL,
+  DEFAULT_FRAME_DURATION,
+  DEFAULT_PLAYBACK_RATE,
+  PLAYBACK_RATES,
+  formatPlaybackRate,
+  getQualityOptions,
+  isAtLiveEdge,
+  recordPresentedFrame,
+  stepFrame,
+} from './playback'
+import type { FrameDirection, PresentedFrame, QualityLevel } from './playback'
+import { attachHlsPlayer, needsHlsPlayer } from './hlsPlayback'
+import {
+  LOCAL_FILE_ACCEPT,
+  createLocalFileUrl,
+  describeLocalFile,
+  findLocalFileTrack,
+  getLocalFileKind,
+  hashFile,
+} from './localFiles'
+import type { HlsSession } from './hlsPlayback'
+import {
+  DOCUMENT_DURATION,
+  createDocumentAnchor,
+  formatPagePosition,
+  formatTrackPosition,
+  getDocumentPlayback,
+  getPagePercent,
+  getScrollTopFor,
+  getViewportPercent,
+  isAnnotationInView,
+  resolveDocumentAnchor,
+} from './documentScroll'
+import type { DocumentViewport } from './documentScroll'
+import { cycleAnnotation, getInitialCursor, isCursorKey, moveGridCursor } from './gridCursor'
+import type { GridCell } from './gridCursor'
+import { applyKeyframes, getAnnotationKeyframes, getAnnotationPosition, insertKeyframe } from './keyframes'
+import {
+  applyDetectedMedia,
+  createMediaTrack,
+  detectMedia,
+  expandMediaInput,
+  getMediaProvider,
+  inferMediaKind,
+  isHlsTrack,
+  parseVimeoId,
+  parseYouTubeId,
+} from './media'
+import {
+  EMBED_ASPECT_RATIO,
+  VIMEO_ORIGIN,
+  YOUTUBE_PLAYER_OPTIONS,
+  createVideoElementPlayer,
+  createVimeoPlayer,
+  createYouTubePlayer,
+  getVimeoEmbedUrl,
+} from './mediaPlayers'
+import type { MediaPlayer, YouTubeTarget } from './mediaPlayers'
+import {
+  MAX_POLYGON_VERTICES,
+  MIN_POLYGON_VERTICES,
+  clampPercent,
+  createCellRectangle,
+  getShapeCenter,
+  getShapeVertices,
+  moveShapeVertex,
+  normalizeShape,
+} from './shapes'
+import { createDefaultRange, dragRange } from './timeRange'
+import { SEEK_STEP, clampPlaybackTime, getAdjacentAnnotation, getTimelineTime } from './timeline'
+import type { AnnotationDirection } from './timeline'
+import type { RangeDragPart, TimeRange } from './timeRange'
+import type {
+  AnnotationPublishState,
+  AnnotationReply,
+  AnnotationShape,
+  DetectedMedia,
+  GridDimensions,
+  MediaKind,
+  MediaTrack,
+  PointOfInterest,
+  PublishStatus,
+  RegionVertex,
+} from './types'
+import AnnotationList from './AnnotationList'
+import AnnotationTransfer from './AnnotationTransfer'
+import { mergeImportedPoints } from './annotationTransfer'
+import type { ImportedPoint } from './annotationTransfer'
+import WalletSettings from './WalletSettings'
+import {
+  createWorkspace,
+  deleteWorkspace,
+  getActiveWorkspaceId,
+  listWorkspaces,
+  loadWorkspace,
+  saveWorkspace,
+  setActiveWorkspaceId,
+} from './workspaceStorage'
+import type { Workspace, WorkspaceSummary } from './workspaceStorage'
+import WorkspaceSettings from './WorkspaceSettings'
+
+type PlaybackState = {
+  currentTime: number
+  duration: number
+  isLive?: boolean
 }
 
-type MediaKind = 'video' | 'document'
+type ActiveWorkspace = Pick<Workspace, 'id' | 'name' | 'createdAt'>
 
-type MediaTrack = {
-  key: string
-  url: string
-  kind: MediaKind
-  source: string
-  namespace?: string
-  points: PointOfInterest[]
+type PublishTarget = {
+  videoKey: string
+  pointId: string
+  replyId?: string
 }
 
-type PlaybackState = {
-  currentTime: number
+type AnnotationTool = 'point' | 'rectangle' | 'polygon'
+
+type RegionDraft =
+  | { videoKey: string; tool: 'rectangle'; start: GridCell; end: GridCell }
+  | { videoKey: string; tool: 'polygon'; vertices: RegionVertex[] }
+
+type TimelineDrag = {
+  videoKey: string
+  pointId: string
+  part: RangeDragPart
+  originX: number
+  trackWidth: number
   duration: number
+  range: Required<TimeRange>
+  isEditable: boolean
+  hasMoved: boolean
 }
 
-const GRID_PADDING_PERCENT = '177.78%'
-const GRID_ASPECT_WIDTH = 9
-const GRID_ASPECT_HEIGHT = 16
-const MIN_GRID_SCALE = 1
-const MAX_GRID_SCALE = 4
-const VISIBLE_POINT_WINDOW = 1.5
-
 const DEFAULT_TRACKS: Array<{ url: string; kind: MediaKind }> = [
   { url: 'https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4', kind: 'video' },
   { url: 'https://r.jina.ai/http://example.com/', kind: 'document' },
 ]
-const DEFAULT_GRAPH_SOCKET_URL =
+const DEFAULT_GRAPH_SOCKET_URL: string =
+  import.meta.env.VITE_GRAPH_SOCKET_URL ||
   'wss://ungallant-unimpeding-kade.ngrok-free.dev/00000000ef1ee3facd6972bcaf3e5859b7662ecb2ca208875df0106189eb740b'
 const GRAPH_SOCKET_PROTOCOLS = ['consequence.1']
 const DEFAULT_GRAPH_REQUEST_PUBLIC_KEY = '0000000000000000000000000000000000000000000='
-
-type GraphNode = Record<string, string>
-
-const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.ogg', '.mov', '.m3u8']
-const DOCUMENT_SCROLL_DURATION = 90
-const DOCUMENT_IFRAME_HEIGHT_MULTIPLIER = 3
-
-const formatTimecode = (seconds: number): string => {
-  const wholeSeconds = Math.floor(seconds)
-  const minutes = Math.floor(wholeSeconds / 60)
-  const remainingSeconds = wholeSeconds % 60
-  const milliseconds = Math.round((seconds - wholeSeconds) * 1000)
-
-  const paddedSeconds = remainingSeconds.toString().padStart(2, '0')
-  const paddedMilliseconds = milliseconds.toString().padStart(3, '0')
-
-  return `${minutes}:${paddedSeconds}.${paddedMilliseconds}`
-}
-
-const inferMediaKind = (urlString: string): MediaKind => {
-  try {
-    const url = new URL(urlString)
-    const pathname = url.pathname.toLowerCase()
-    if (VIDEO_EXTENSIONS.some((extension) => pathname.endsWith(extension))) {
-      return 'video'
-    }
-  } catch (error) {
-    // Ignore parse failures and treat as document fallback.
-  }
-
-  return 'document'
-}
-
-const createMediaTrack = (url: string, source: string, kind?: MediaKind, namespace?: string): MediaTrack => {
-  const keyBase = crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)
-  const resolvedKind = kind ?? inferMediaKind(url)
-
-  return {
-    key: `media-${keyBase}`,
-    url,
-    source,
-    kind: resolvedKind,
-    namespace,
-    points: [],
-  }
+const PUBLISH_ACK_TIMEOUT_MS = 15000
+const IDENTITY_SUGGESTION_COUNT = 5
+
+const CONNECTION_STATUS_LABELS: Record<GraphConnectionStatus, string> = {
+  connecting: 'Connecting…',
+  open: 'Connected',
+  reconnecting: 'Reconnecting',
+  closed: 'Disconnected',
 }
 
-const parseGraphNodes = (dotGraph: string): GraphNode[] =>
-  Array.from(dotGraph.matchAll(/"[^"]+"\s*\[(.*?)\];/g)).map((match) => {
-    const attributes = match[1]
-    const parsedAttributes: GraphNode = {}
-
-    for (const attribute of attributes.matchAll(/(\w+)="([^"]*)"/g)) {
-      const [, key, value] = attribute
-      parsedAttributes[key] = value
-    }
-
-    return parsedAttributes
-  })
-
-const parseGraphVideos = (nodes: GraphNode[]): MediaTrack[] => {
-  const tracks: MediaTrack[] = []
-
-  nodes.forEach((node) => {
-    const namespace = node.namespace?.trim()
-    const memo = node.memo?.trim()
-
-    if (!namespace || !memo) {
-      return
-    }
-
-    const normalizedUrl = normalizeLinkHref(memo)
-    if (normalizedUrl) {
-      tracks.push(createMediaTrack(normalizedUrl, memo, inferMediaKind(normalizedUrl), namespace))
-    }
-  })
-
-  return tracks
+const ANNOTATION_TOOL_LABELS: Record<AnnotationTool, string> = {
+  point: 'Point',
+  rectangle: 'Rectangle',
+  polygon: 'Polygon',
 }
 
-const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-
-const parseTagPointsForNamespace = (nodes: GraphNode[], namespace?: string): PointOfInterest[] => {
-  if (!namespace) {
-    return []
-  }
-
-  const pattern = new RegExp(`^${escapeRegExp(namespace)}/T\\+(\\d+)s/(\\d+)x(\\d+)/`)
-
-  return nodes
-    .reduce<PointOfInterest[]>((points, node) => {
-      const memo = node.memo?.trim()
-      const pubkey = node.pubkey?.trim()
-
-      if (!memo || !pubkey) {
-        return points
-      }
-
-      const match = pubkey.match(pattern)
-      if (!match) {
-        return points
-      }
-
-      const [, timeString, columnString, rowString] = match
-      const time = Number.parseInt(timeString, 10)
-      const column = Number.parseInt(columnString, 10)
-      const row = Number.parseInt(rowString, 10)
-
-      if (Number.isNaN(time) || Number.isNaN(column) || Number.isNaN(row)) {
-        return points
-      }
-
-      const xPercent = ((column - 0.5) / GRID_ASPECT_WIDTH) * 100
-      const yPercent = ((row - 0.5) / GRID_ASPECT_HEIGHT) * 100
-
-      points.push({
-        id: pubkey,
-        time,
-        row,
-        column,
-        xPercent,
-        yPercent,
-        note: memo,
-        isReadOnly: true,
-      })
-
-      return points
-    }, [])
-    .sort((a, b) => a.time - b.time)
+const REGION_TOOL_HINTS: Record<Exclude<AnnotationTool, 'point'>, string> = {
+  rectangle: 'Drag across the grid to cover cells with a rectangle.',
+  polygon: 'Click to add vertices, then click the first or last vertex again (or press Enter) to close. Esc cancels.',
 }
 
-const escapeHtml = (value: string): string =>
-  value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;')
-
-const normalizeLinkHref = (href: string): string | null => {
-  const trimmed = href.trim()
-  if (!trimmed) {
-    return null
-  }
-
-  const candidate = trimmed.startsWith('http://') || trimmed.startsWith('https://')
-    ? trimmed
-    : `https://${trimmed}`
+// Clicks this close to the first or last vertex close the polygon.
+const POLYGON_CLOSE_DISTANCE_PERCENT = 2
+/** Pixels a timeline segment must move before a press counts as a drag rather than a click. */
+const TIMELINE_DRAG_THRESHOLD_PX = 3
 
-  try {
-    const url = new URL(candidate)
-    if (!['http:', 'https:'].includes(url.protocol)) {
-      return null
-    }
-
-    return url.toString()
-  } catch (error) {
-    return null
-  }
+const PUBLISH_STATUS_LABELS: Record<PublishStatus, string> = {
+  pending: 'Publishing…',
+  published: 'Published',
+  failed: 'Publish failed',
 }
 
-const formatMemoHtml = (memo: string): string => {
-  const escaped = escapeHtml(memo)
-  const anchorPlaceholders: string[] = []
-
-  const withMarkdownLinks = escaped.replace(/\[([^\]]+)]\(([^)]+)\)/g, (_, label, href) => {
-    const normalized = normalizeLinkHref(href)
-    if (!normalized) {
-      return label
-    }
-
-    const anchor = `<a href="${normalized}" target="_blank" rel="noreferrer">${label}</a>`
-    anchorPlaceholders.push(anchor)
-    return `[[[ANCHOR_${anchorPlaceholders.length - 1}]]]`
-  })
+const DEFAULT_WORKSPACE_NAME = 'Default'
+const WORKSPACE_SAVE_DELAY_MS = 400
 
-  const withBold = withMarkdownLinks.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-  const withItalics = withBold
-    .replace(/(^|\s)_(.+?)_([^\w]|$)/g, '$1<em>$2</em>$3')
-    .replace(/\*(.+?)\*/g, '<em>$1</em>')
-
-  const withLinks = withItalics.replace(
-    /(https?:\/\/[\w\-.~%/?#[\]@!$&'()*+,;=:]+)|(www\.[\w\-.~%/?#[\]@!$&'()*+,;=:]+)/gi,
-    (match) => {
-      const href = normalizeLinkHref(match)
-      if (!href) {
-        return match
-      }
+/** Height of a cross-origin document frame, which cannot be measured, in viewports. */
+const DOCUMENT_IFRAME_HEIGHT_MULTIPLIER = 3
 
-      return `<a href="${href}" target="_blank" rel="noreferrer">${match}</a>`
-    },
+const createDefaultTracks = (): MediaTrack[] =>
+  DEFAULT_TRACKS.map((entry) => createMediaTrack(entry.url, entry.url, entry.kind))
+
+const getGridTemplateStyle = ({ rows, columns }: GridDimensions) => ({
+  gridTemplateRows: `repeat(${rows}, 1fr)`,
+  gridTemplateColumns: `repeat(${columns}, 1fr)`,
+})
+
+const isNearVertex = (a: RegionVertex, b: RegionVertex): boolean =>
+  Math.hypot(a.xPercent - b.xPercent, a.yPercent - b.yPercent) <= POLYGON_CLOSE_DISTANCE_PERCENT
+
+const renderShape = (shape: AnnotationShape, key: string, className: string) =>
+  shape.type === 'rectangle' ? (
+    <rect
+      key={key}
+      className={className}
+      x={shape.xPercent}
+      y={shape.yPercent}
+      width={shape.widthPercent}
+      height={shape.heightPercent}
+    />
+  ) : (
+    <polygon
+      key={key}
+      className={className}
+      points={shape.vertices.map(({ xPercent, yPercent }) => `${xPercent},${yPercent}`).join(' ')}
+    />
   )
 
-  const withBreaks = withLinks.replace(/\n/g, '<br />')
+const TEXT_ENTRY_TAGS = new Set(['INPUT', 'TEXTAREA', 'SELECT'])
 
-  return withBreaks.replace(/\[\[\[ANCHOR_(\d+)]]]/g, (_, index) => {
-    const anchorIndex = Number.parseInt(index, 10)
-    return Number.isNaN(anchorIndex) ? '' : anchorPlaceholders[anchorIndex] ?? ''
-  })
-}
+const isTextEntryTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || TEXT_ENTRY_TAGS.has(target.tagName))
 
-const normalizeSocketUrl = (value: string): string | null => {
-  const trimmed = value.trim()
-  if (!trimmed) {
-    return null
-  }
+// Keys a focused control handles itself, so annotation mode leaves them alone there.
+const CONTROL_KEYS = new Set(['Enter', 'Tab', 'Backspace', 'Delete'])
+const CONTROL_SELECTOR = 'button, a[href], summary, [role="button"], [role="slider"], [role="link"]'
 
-  const hasProtocol = trimmed.startsWith('ws://') || trimmed.startsWith('wss://')
-  const candidate = hasProtocol ? trimmed : `wss://${trimmed}`
+const isControlKey = (event: KeyboardEvent): boolean =>
+  CONTROL_KEYS.has(event.key) && event.target instanceof Element && Boolean(event.target.closest(CONTROL_SELECTOR))
 
-  try {
-    const url = new URL(candidate)
-    if (!url.protocol.startsWith('ws')) {
-      return null
-    }
-    return url.toString()
-  } catch (error) {
-    return null
-  }
-}
+const describeError = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback
+
+const deriveTrackPublicKey = (
+  wallet: Wallet | null,
+  namespace: string,
+  path?: DerivationPath,
+): { path: string; publicKey: string } =>
+  wallet ? deriveWalletNamespacePublicKey(wallet, namespace, path) : deriveNamespacePublicKey(namespace, path)
 
 function App() {
-  const [videos, setVideos] = useState<MediaTrack[]>(
-    DEFAULT_TRACKS.map((entry) => createMediaTrack(entry.url, entry.url, entry.kind)),
-  )
-  const [gridScale, setGridScale] = useState(1)
+  const [videos, setVideos] = useState<MediaTrack[]>([])
+  const [defaultGrid, setDefaultGrid] = useState<GridDimensions>(DEFAULT_GRID)
   const [isDrawerOpen, setIsDrawerOpen] = useState(false)
-  const [isAnnotationSessionActive, setIsAnnotationSessionActive] = useState(false)
+  const [isAnnotationListOpen, setIsAnnotationListOpen] = useState(false)
+  const [isAnnotationModeOn, setIsAnnotationModeOn] = useState(false)
+  const [gridCursor, setGridCursor] = useState<(GridCell & { videoKey: string }) | null>(null)
+  const [selectedPoint, setSelectedPoint] = useState<{ videoKey: string; pointId: string } | null>(null)
   const [videoInput, setVideoInput] = useState('')
   const [videoError, setVideoError] = useState<string | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
   const [activeVideoKey, setActiveVideoKey] = useState<string | null>(null)
   const [editingPoint, setEditingPoint] = useState<{
     videoKey: string
@@ -280,61 +291,114 @@ function App() {
   const [socketUrlInput, setSocketUrlInput] = useState(DEFAULT_GRAPH_SOCKET_URL)
   const [socketVersion, setSocketVersion] = useState(0)
   const [socketError, setSocketError] = useState<string | null>(null)
+  const [connectionState, setConnectionState] = useState<GraphConnectionState | null>(null)
+  const [keyPathDrafts, setKeyPathDrafts] = useState<Record<string, string>>({})
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [openThread, setOpenThread] = useState<{ videoKey: string; pointId: string } | null>(null)
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({})
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [activeWorkspace, setActiveWorkspace] = useState<ActiveWorkspace | null>(null)
+  const [isWorkspaceBusy, setIsWorkspaceBusy] = useState(true)
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null)
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('point')
+  const [regionDraft, setRegionDraft] = useState<RegionDraft | null>(null)
+  const [trackingPoint, setTrackingPoint] = useState<{ videoKey: string; pointId: string } | null>(null)
+  const [playingKeys, setPlayingKeys] = useState<Record<string, boolean>>({})
+  const [playbackRates, setPlaybackRates] = useState<Record<string, number>>({})
+  const [qualityLevels, setQualityLevels] = useState<Record<string, QualityLevel[]>>({})
+  const [selectedQualities, setSelectedQualities] = useState<Record<string, number>>({})
+  const [documentViewports, setDocumentViewports] = useState<Record<string, DocumentViewport>>({})
+  const [documentHeights, setDocumentHeights] = useState<Record<string, number>>({})
 
   const containerRefs = useRef(new Map<string, HTMLDivElement | null>())
   const overlayRefs = useRef(new Map<string, HTMLDivElement | null>())
-  const playerRefs = useRef(new Map<string, HTMLVideoElement | null>())
+  const playerRefs = useRef(new Map<string, MediaPlayer | null>())
+  const hlsSessionsRef = useRef(new Map<string, HlsSession>())
+  // Detections by URL; a URL mapped to undefined is still being checked.
+  const mediaDetectionsRef = useRef(new Map<string, DetectedMedia | undefined>())
+  const objectUrlsRef = useRef(new Map<string, string>())
   const documentRefs = useRef(new Map<string, HTMLIFrameElement | null>())
-  const socketRef = useRef<WebSocket | null>(null)
-  const requestedPublicKeysRef = useRef(new Set<string>())
-  const annotationSessionTimeoutRef = useRef<number | null>(null)
+  const documentShellRefs = useRef(new Map<string, HTMLDivElement | null>())
+  const documentObserversRef = useRef(new Map<string, ResizeObserver>())
+  const graphClientRef = useRef<GraphClient | null>(null)
+  const graphSubscriptionsRef = useRef<string[]>([DEFAULT_GRAPH_REQUEST_PUBLIC_KEY])
+  // The last graph served for each subscribed public key, with later deltas applied.
+  const graphSnapshotsRef = useRef(new Map<string, Graph>())
+  // Publishes waiting for an ack; `timeoutId` is set once the message has left the client's queue.
+  const pendingPublishesRef = useRef(new Map<string, PublishTarget & { timeoutId?: number }>())
   const pausedKeysRef = useRef(new Set<string>())
+  const userPausedKeysRef = useRef(new Set<string>())
+  const presentedFramesRef = useRef(new Map<string, PresentedFrame>())
   const playbackStateRef = useRef<Record<string, PlaybackState>>({})
-  const documentStartRef = useRef<number | null>(null)
+  const activeVideoKeyRef = useRef<string | null>(null)
+  const timelineDragRef = useRef<TimelineDrag | null>(null)
 
   const publicKeysByVideoKey = useMemo(() => {
     const entries: Array<[string, string]> = []
 
     videos.forEach((video) => {
       if (video.namespace) {
-        const { publicKey } = deriveNamespacePublicKey(video.namespace)
+        const { publicKey } = deriveTrackPublicKey(wallet, video.namespace, video.derivationPath)
         entries.push([video.key, publicKey])
       }
     })
 
     return new Map(entries)
-  }, [videos])
+  }, [videos, wallet])
+
+  // The graph is keyed by the shared namespace key at the default path; wallet keys and signing paths only sign.
+  const subscriptionKeys = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          videos.flatMap((video) =>
+            video.namespace ? [deriveNamespacePublicKey(video.namespace, DEFAULT_DERIVATION_PATH).publicKey] : [],
+          ),
+        ),
+      ),
+    [videos],
+  )
+
+  const identityOptionsByVideoKey = useMemo(() => {
+    const entries: Array<[string, Array<{ path: string; publicKey: string }>]> = []
+
+    videos.forEach((video) => {
+      if (video.namespace) {
+        const { account } = video.derivationPath ?? DEFAULT_DERIVATION_PATH
+        entries.push([
+          video.key,
+          wallet
+            ? enumerateWalletNamespacePublicKeys(wallet, video.namespace, account, 0, IDENTITY_SUGGESTION_COUNT)
+            : enumerateNamespacePublicKeys(video.namespace, account, 0, IDENTITY_SUGGESTION_COUNT),
+        ])
+      }
+    })
+
+    return new Map(entries)
+  }, [videos, wallet])
 
   useEffect(() => {
     playbackStateRef.current = playbackStates
   }, [playbackStates])
 
-  const rows = useMemo(() => GRID_ASPECT_HEIGHT * gridScale, [gridScale])
-  const columns = useMemo(() => GRID_ASPECT_WIDTH * gridScale, [gridScale])
-
-  const gridTemplateStyle = useMemo(
-    () => ({
-      gridTemplateRows: `repeat(${rows}, 1fr)`,
-      gridTemplateColumns: `repeat(${columns}, 1fr)`,
-    }),
-    [rows, columns],
-  )
+  useEffect(() => {
+    activeVideoKeyRef.current = activeVideoKey
+  }, [activeVideoKey])
 
   const isAnnotationInteractionEnabled = useMemo(
-    () => isAnnotationSessionActive || Boolean(editingPoint),
-    [isAnnotationSessionActive, editingPoint],
+    () =>
+      isAnnotationModeOn ||
+      Boolean(editingPoint) ||
+      Boolean(openThread) ||
+      Boolean(regionDraft) ||
+      Boolean(trackingPoint),
+    [isAnnotationModeOn, editingPoint, openThread, regionDraft, trackingPoint],
   )
 
-  const startAnnotationSession = useCallback(() => {
-    setIsAnnotationSessionActive(true)
-
-    if (annotationSessionTimeoutRef.current) {
-      clearTimeout(annotationSessionTimeoutRef.current)
-    }
-
-    annotationSessionTimeoutRef.current = window.setTimeout(() => {
-      setIsAnnotationSessionActive(false)
-    }, 5000)
+  const toggleAnnotationMode = useCallback(() => {
+    setIsAnnotationModeOn((previous) => !previous)
+    setGridCursor(null)
+    setSelectedPoint(null)
   }, [])
 
   useEffect(() => {
@@ -347,6 +411,9 @@ function App() {
     documentRefs.current.forEach((_, key) => {
       if (!allKeys.has(key)) {
         documentRefs.current.delete(key)
+        documentShellRefs.current.delete(key)
+        documentObserversRef.current.get(key)?.disconnect()
+        documentObserversRef.current.delete(key)
       }
     })
     overlayRefs.current.forEach((_, key) => {
@@ -354,6 +421,17 @@ function App() {
         overlayRefs.current.delete(key)
       }
     })
+    objectUrlsRef.current.forEach((url, key) => {
+      if (videos.find((video) => video.key === key)?.url !== url) {
+        URL.revokeObjectURL(url)
+        objectUrlsRef.current.delete(key)
+      }
+    })
+    videos.forEach((video) => {
+      if (video.localFile && video.url) {
+        objectUrlsRef.current.set(video.key, video.url)
+      }
+    })
     setPlaybackStates((previous) => {
       const next: Record<string, PlaybackState> = {}
       allKeys.forEach((key) => {
@@ -361,7 +439,7 @@ function App() {
         const previousState = previous[key]
 
         if (track?.kind === 'document') {
-          next[key] = previousState ?? { currentTime: 0, duration: DOCUMENT_SCROLL_DURATION }
+          next[key] = previousState ?? { currentTime: 0, duration: DOCUMENT_DURATION }
         } else if (previousState) {
           next[key] = previousState
         }
@@ -421,6 +499,68 @@ function App() {
     }
   }, [videos, activeVideoKey])
 
+  // The extension is only a first guess; the server's content type settles it.
+  useEffect(() => {
+    const detections = mediaDetectionsRef.current
+
+    videos.forEach((video) => {
+      const { url } = video
+      if (!url || video.localFile || getMediaProvider(url) !== 'file') {
+        return
+      }
+
+      // Graph updates can bring a track back with its guessed kind.
+      const detected = detections.get(url)
+      if (detected) {
+        if (applyDetectedMedia([video], url, detected)[0] !== video) {
+          setVideos((previous) => applyDetectedMedia(previous, url, detected))
+        }
+      } else if (!detections.has(url)) {
+        detections.set(url, undefined)
+        void detectMedia(url).then((result) => {
+          detections.set(url, result)
+          setVideos((previous) => applyDetectedMedia(previous, url, result))
+        })
+      }
+    })
+  }, [videos])
+
+  useEffect(() => {
+    const sessions = hlsSessionsRef.current
+
+    sessions.forEach((session, key) => {
+      if (playerRefs.current.get(key)?.element !== session.element || !videos.some((video) => video.key === key)) {
+        session.destroy()
+        sessions.delete(key)
+      }
+    })
+
+    videos.forEach((video) => {
+      const element = playerRefs.current.get(video.key)?.element
+      if (!(element instanceof HTMLVideoElement) || !isHlsTrack(video) || sessions.has(video.key)) {
+        return
+      }
+
+      if (needsHlsPlayer(element)) {
+        const handleLevels = (levels: QualityLevel[]) => {
+          setQualityLevels((previous) => ({ ...previous, [video.key]: levels }))
+          setSelectedQualities((previous) => ({ ...previous, [video.key]: AUTO_QUALITY_LEVEL }))
+        }
+        sessions.set(video.key, attachHlsPlayer(element, video.url, handleLevels))
+      } else if (!element.getAttribute('src')) {
+        element.src = video.url
+      }
+    })
+  }, [videos])
+
+  useEffect(() => {
+    const sessions = hlsSessionsRef.current
+    return () => {
+      sessions.forEach((session) => session.destroy())
+      sessions.clear()
+    }
+  }, [])
+
   useEffect(() => {
     playerRefs.current.forEach((player, key) => {
       if (!player) {
@@ -433,58 +573,42 @@ function App() {
         player.pause()
       }
     })
-
-    if (!activeVideoKey) {
-      documentStartRef.current = null
-      return
-    }
-
-    const activeTrack = videos.find((video) => video.key === activeVideoKey)
-    if (activeTrack?.kind === 'document' && pausedKeysRef.current.has(activeVideoKey)) {
-      documentStartRef.current = null
-    }
   }, [activeVideoKey, videos])
 
   useEffect(() => {
-    const handlePageHide = () => setIsAnnotationSessionActive(false)
+    const handlePageHide = () => setIsAnnotationModeOn(false)
 
     window.addEventListener('pagehide', handlePageHide)
-
-    return () => {
-      window.removeEventListener('pagehide', handlePageHide)
-
-      if (annotationSessionTimeoutRef.current) {
-        clearTimeout(annotationSessionTimeoutRef.current)
-        annotationSessionTimeoutRef.current = null
-      }
-    }
+    return () => window.removeEventListener('pagehide', handlePageHide)
   }, [])
 
   useEffect(() => {
     let frameId: number
 
-    const update = (timestamp: number) => {
+    const update = () => {
       const activeTrack = videos.find((video) => video.key === activeVideoKey)
 
       if (activeTrack?.kind === 'video') {
-        documentStartRef.current = null
         const player = activeTrack.key ? playerRefs.current.get(activeTrack.key) : null
         if (player) {
-          const currentTime = player.currentTime ?? 0
-          const duration = Number.isFinite(player.duration) ? player.duration : 0
+          const currentTime = player.getCurrentTime()
+          const duration = player.getDuration()
+          const isLive = player.isLive()
 
           setPlaybackStates((previous) => {
             const previousState = previous[activeTrack.key]
             if (
               !previousState ||
               Math.abs(previousState.currentTime - currentTime) > 0.05 ||
-              Math.abs(previousState.duration - duration) > 0.1
+              Math.abs(previousState.duration - duration) > 0.1 ||
+              Boolean(previousState.isLive) !== isLive
             ) {
               return {
                 ...previous,
                 [activeTrack.key]: {
                   currentTime,
                   duration,
+                  isLive,
                 },
               }
             }
@@ -492,28 +616,6 @@ function App() {
             return previous
           })
         }
-      } else if (activeTrack?.kind === 'document') {
-        const duration = playbackStateRef.current[activeTrack.key]?.duration ?? DOCUMENT_SCROLL_DURATION
-
-        if (pausedKeysRef.current.has(activeTrack.key)) {
-          documentStartRef.current = null
-        } else {
-          const previousTime = playbackStateRef.current[activeTrack.key]?.currentTime ?? 0
-          const startTimestamp = documentStartRef.current ?? timestamp - previousTime * 1000
-          let elapsed = (timestamp - startTimestamp) / 1000
-
-          if (elapsed >= duration) {
-            elapsed = 0
-            documentStartRef.current = timestamp
-          } else {
-            documentStartRef.current = startTimestamp
-          }
-
-          setPlaybackStates((previous) => ({
-            ...previous,
-            [activeTrack.key]: { currentTime: elapsed, duration },
-          }))
-        }
       }
 
       frameId = requestAnimationFrame(update)
@@ -545,11 +647,44 @@ function App() {
   const registerVideoRef = useCallback(
     (key: string) =>
       (node: HTMLVideoElement | null) => {
-        playerRefs.current.set(key, node)
+        if (node && playerRefs.current.get(key)?.element !== node) {
+          playerRefs.current.set(key, createVideoElementPlayer(node))
+        }
       },
     [],
   )
 
+  useEffect(() => {
+    const cancellations: Array<() => void> = []
+
+    playerRefs.current.forEach((mediaPlayer, key) => {
+      const player = mediaPlayer?.element
+      if (!(player instanceof HTMLVideoElement) || typeof player.requestVideoFrameCallback !== 'function') {
+        return
+      }
+
+      let handle = 0
+      const handleFrame: VideoFrameRequestCallback = (_, { mediaTime, presentedFrames }) => {
+        presentedFramesRef.current.set(
+          key,
+          recordPresentedFrame(presentedFramesRef.current.get(key), { mediaTime, presentedFrames }),
+        )
+        handle = player.requestVideoFrameCallback(handleFrame)
+      }
+
+      handle = player.requestVideoFrameCallback(handleFrame)
+      cancellations.push(() => player.cancelVideoFrameCallback(handle))
+    })
+
+    return () => cancellations.forEach((cancel) => cancel())
+  }, [videos])
+
+  useEffect(() => {
+    playerRefs.current.forEach((player, key) => {
+      player?.setPlaybackRate(playbackRates[key] ?? DEFAULT_PLAYBACK_RATE)
+    })
+  }, [playbackRates, videos])
+
   const registerDocumentRef = useCallback(
     (key: string) =>
       (node: HTMLIFrameElement | null) => {
@@ -558,6 +693,130 @@ function App() {
     [],
   )
 
+  const registerDocumentShellRef = useCallback(
+    (key: string) =>
+      (node: HTMLDivElement | null) => {
+        documentShellRefs.current.set(key, node)
+      },
+    [],
+  )
+
+  const getDocumentViewport = useCallback((videoKey: string): DocumentViewport | undefined => {
+    const shell = documentShellRefs.current.get(videoKey)
+    return shell
+      ? { scrollTop: shell.scrollTop, scrollHeight: shell.scrollHeight, clientHeight: shell.clientHeight }
+      : undefined
+  }, [])
+
+  const handleDocumentScroll = useCallback(
+    (videoKey: string) => {
+      const viewport = getDocumentViewport(videoKey)
+      if (!viewport) {
+        return
+      }
+
+      const playback = getDocumentPlayback(viewport)
+      playbackStateRef.current = { ...playbackStateRef.current, [videoKey]: playback }
+      setPlaybackStates((previous) => ({ ...previous, [videoKey]: playback }))
+      setDocumentViewports((previous) => ({ ...previous, [videoKey]: viewport }))
+    },
+    [getDocumentViewport],
+  )
+
+  /** Moves anchored annotations to where their elements are after the page reflowed. */
+  const reanchorDocumentPoints = useCallback((videoKey: string, document: Document) => {
+    setVideos((previous) =>
+      previous.map((video) => {
+        if (video.key !== videoKey || !video.points.some((point) => point.anchor)) {
+          return video
+        }
+
+        let hasMoved = false
+        const points = video.points.map((point) => {
+          const time = point.anchor ? resolveDocumentAnchor(document, point.anchor) : undefined
+          if (time === undefined || Math.abs(time - point.time) < 0.01) {
+            return point
+          }
+
+          hasMoved = true
+          return {
+            ...point,
+            time,
+            endTime: point.endTime === undefined ? undefined : point.endTime + time - point.time,
+          }
+        })
+
+        return hasMoved ? { ...video, points: points.sort((a, b) => a.time - b.time) } : video
+      }),
+    )
+  }, [])
+
+  /**
+   * Same-origin pages are sized to their content so the card scrolls the whole
+   * page, and are re-measured when they reflow. Cross-origin pages cannot be
+   * read and keep a fixed height.
+   */
+  const handleDocumentLoad = useCallback(
+    (videoKey: string, frame: HTMLIFrameElement) => {
+      documentObserversRef.current.get(videoKey)?.disconnect()
+      documentObserversRef.current.delete(videoKey)
+
+      const document = frame.contentDocument
+      if (!document?.documentElement) {
+        handleDocumentScroll(videoKey)
+        return
+      }
+
+      const measure = () => {
+        const height = document.documentElement.scrollHeight
+        setDocumentHeights((previous) =>
+          previous[videoKey] === height ? previous : { ...previous, [videoKey]: height },
+        )
+        reanchorDocumentPoints(videoKey, document)
+        requestAnimationFrame(() => handleDocumentScroll(videoKey))
+      }
+
+      const observer = new ResizeObserver(measure)
+      observer.observe(document.documentElement)
+      documentObserversRef.current.set(videoKey, observer)
+      measure()
+    },
+    [handleDocumentScroll, reanchorDocumentPoints],
+  )
+
+  useEffect(() => {
+    const observers = documentObserversRef.current
+    return () => {
+      observers.forEach((observer) => observer.disconnect())
+      observers.clear()
+    }
+  }, [])
+
+  // While annotating, the grid covers the page; wheel events scroll the page underneath.
+  useEffect(() => {
+    const cleanups: Array<() => void> = []
+
+    videos.forEach((video) => {
+      const overlay = overlayRefs.current.get(video.key)
+      if (video.kind !== 'document' || !overlay) {
+        return
+      }
+
+      const handleWheel = (event: WheelEvent) => {
+        const shell = documentShellRefs.current.get(video.key)
+        if (shell) {
+          event.preventDefault()
+          shell.scrollTop += event.deltaY
+        }
+      }
+
+      overlay.addEventListener('wheel', handleWheel, { passive: false })
+      cleanups.push(() => overlay.removeEventListener('wheel', handleWheel))
+    })
+
+    return () => cleanups.forEach((cleanup) => cleanup())
+  }, [videos])
+
   const handleCalloutInteraction = useCallback((event: SyntheticEvent<HTMLElement>) => {
     const target = event.target as HTMLElement | null
     if (target?.closest('a')) {
@@ -569,140 +828,468 @@ function App() {
     (event: React.FormEvent<HTMLFormElement>) => {
       event.preventDefault()
 
-      const normalizedUrl = normalizeLinkHref(videoInput)
+      const normalizedUrl = normalizeLinkHref(expandMediaInput(videoInput))
       if (!normalizedUrl) {
-        setVideoError('Enter a valid URL (http or https) to add to the feed.')
+        setVideoError('Enter a valid URL (http or https) or a YouTube video ID to add to the feed.')
         return
       }
 
-      const track = createMediaTrack(normalizedUrl, videoInput || normalizedUrl, inferMediaKind(normalizedUrl))
+      const track = {
+        ...createMediaTrack(normalizedUrl, videoInput || normalizedUrl, inferMediaKind(normalizedUrl)),
+        isUserAdded: true,
+        grid: defaultGrid,
+      }
 
       setVideos((previous) => [track, ...previous])
       setVideoInput('')
       setVideoError(null)
     },
-    [videoInput],
+    [videoInput, defaultGrid],
   )
 
-  const handleRemoveVideo = useCallback(
-    (key: string) => {
-      setVideos((previous) => previous.filter((video) => video.key !== key))
-      pausedKeysRef.current.delete(key)
-      setEditingPoint((previous) => {
-        if (previous && previous.videoKey === key) {
-          return null
-        }
-        return previous
-      })
+  const handleTrackKindChange = useCallback(
+    (videoKey: string) => (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const kind = event.target.value as MediaKind
+      setVideos((previous) =>
+        previous.map((video) =>
+          video.key === videoKey ? { ...video, kind, isKindOverridden: true, aspectRatio: undefined } : video,
+        ),
+      )
     },
     [],
   )
 
-  useEffect(() => {
-    const normalizedUrl = normalizeSocketUrl(socketUrl)
-    if (!normalizedUrl) {
-      setSocketError('Enter a valid WebSocket URL to load graph data.')
-      return undefined
-    }
-
-    let socket: WebSocket | null = null
-
-    try {
-      socket = new WebSocket(normalizedUrl, GRAPH_SOCKET_PROTOCOLS)
-      setSocketError(null)
-    } catch (error) {
-      console.error('Error creating WebSocket', error)
-      setSocketError('Unable to connect with the provided WebSocket URL.')
-      return undefined
-    }
-
-    socketRef.current = socket
-    requestedPublicKeysRef.current.clear()
-
-    const sendGraphRequest = (publicKey: string) => {
-      socket?.send(
-        JSON.stringify({
-          type: 'get_graph',
-          body: {
-            public_key: publicKey,
-          },
-        }),
-      )
-    }
-
-    socket.addEventListener('open', () => {
-      sendGraphRequest(DEFAULT_GRAPH_REQUEST_PUBLIC_KEY)
-      publicKeysByVideoKey.forEach((publicKey) => {
-        sendGraphRequest(publicKey)
-        requestedPublicKeysRef.current.add(publicKey)
+  const handleAddFiles = useCallback(
+    async (files: File[]) => {
+      const supportedFiles = files.flatMap((file) => {
+        const kind = getLocalFileKind(file)
+        return kind ? [{ file, kind }] : []
       })
-    })
+      setVideoError(
+        supportedFiles.length < files.length
+          ? 'Only video files, raster images and PDFs can be added to the feed.'
+          : null,
+      )
 
-    socket.addEventListener('message', (event) => {
+      let contentHashes: string[]
       try {
-        const data = JSON.parse(event.data)
-        if (data?.type === 'graph' && typeof data.body?.graph === 'string') {
-          const nodes = parseGraphNodes(data.body.graph)
-
-          setVideos((previous) => {
-            const graphVideos = parseGraphVideos(nodes)
-            const baseVideos = graphVideos.length ? graphVideos : previous
-
-            return baseVideos.map((video) => {
-              const tagPoints = parseTagPointsForNamespace(nodes, video.namespace)
-              if (tagPoints.length) {
-                return {
-                  ...video,
-                  points: tagPoints,
-                }
-              }
-
-              return video
-            })
-          })
-        }
+        contentHashes = await Promise.all(supportedFiles.map(({ file }) => hashFile(file)))
       } catch (error) {
-        console.error('Error parsing graph message', error)
+        setVideoError(describeError(error, 'Unable to read the file.'))
+        return
       }
-    })
 
-    socket.addEventListener('error', (event) => {
-      console.error('WebSocket error', event)
-      setSocketError('WebSocket connection error. Check the URL and try again.')
-    })
+      const tracks = supportedFiles.map(({ file, kind }, index) => ({
+        ...createMediaTrack(createLocalFileUrl(file), file.name, kind),
+        isUserAdded: true,
+        grid: defaultGrid,
+        localFile: { name: file.name, size: file.size, contentHash: contentHashes[index] },
+      }))
+
+      // A file loaded before goes back into its track, annotations and all.
+      setVideos((previous) =>
+        tracks.reduce((next, track) => {
+          const existing = findLocalFileTrack(next, track.localFile.contentHash)
+          return existing
+            ? next.map((video) =>
+                video === existing ? { ...video, url: track.url, localFile: track.localFile } : video,
+              )
+            : [track, ...next]
+        }, previous),
+      )
+    },
+    [defaultGrid],
+  )
 
-    socket.addEventListener('close', () => {
-      setSocketError((previous) => previous ?? 'WebSocket connection closed.')
-    })
+  const handleFileInputChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      void handleAddFiles(Array.from(event.target.files ?? []))
+      event.target.value = ''
+    },
+    [handleAddFiles],
+  )
 
-    return () => {
-      socket?.close()
-      socketRef.current = null
+  const handleFeedDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) {
+      return
     }
-  }, [socketUrl, socketVersion])
 
-  useEffect(() => {
-    const socket = socketRef.current
-    if (!socket || socket.readyState !== WebSocket.OPEN) {
-      return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFiles(true)
+  }, [])
+
+  const handleFeedDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (!(event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget))) {
+      setIsDraggingFiles(false)
     }
+  }, [])
 
-    publicKeysByVideoKey.forEach((publicKey) => {
-      if (requestedPublicKeysRef.current.has(publicKey)) {
+  const handleFeedDrop = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      if (!event.dataTransfer.files.length) {
         return
       }
 
-      socket.send(
-        JSON.stringify({
-          type: 'get_graph',
-          body: {
-            public_key: publicKey,
-          },
-        }),
-      )
-      requestedPublicKeysRef.current.add(publicKey)
-    })
-  }, [publicKeysByVideoKey])
+      event.preventDefault()
+      setIsDraggingFiles(false)
+      void handleAddFiles(Array.from(event.dataTransfer.files))
+    },
+    [handleAddFiles],
+  )
+
+  const commitKeyPathDraft = useCallback(
+    (videoKey: string) => {
+      const draft = keyPathDrafts[videoKey]
+      if (draft === undefined) {
+        return
+      }
+
+      const parsedPath = parseDerivationPath(draft)
+      if (!parsedPath) {
+        return
+      }
+
+      setVideos((previous) =>
+        previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                derivationPath: parsedPath,
+              }
+            : video,
+        ),
+      )
+      setKeyPathDrafts((previous) => {
+        const next = { ...previous }
+        delete next[videoKey]
+        return next
+      })
+    },
+    [keyPathDrafts],
+  )
+
+  const handleRemoveVideo = useCallback(
+    (key: string) => {
+      setVideos((previous) => previous.filter((video) => video.key !== key))
+      pausedKeysRef.current.delete(key)
+      userPausedKeysRef.current.delete(key)
+      presentedFramesRef.current.delete(key)
+      setEditingPoint((previous) => {
+        if (previous && previous.videoKey === key) {
+          return null
+        }
+        return previous
+      })
+      setOpenThread((previous) => (previous?.videoKey === key ? null : previous))
+    },
+    [],
+  )
+
+  const updateAnnotationState = useCallback(
+    ({ videoKey, pointId, replyId }: PublishTarget, changes: AnnotationPublishState) => {
+      setVideos((previous) =>
+        previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                points: video.points.map((point) => {
+                  if (point.id !== pointId) {
+                    return point
+                  }
+
+                  if (!replyId) {
+                    return {
+                      ...point,
+                      ...changes,
+                    }
+                  }
+
+                  return {
+                    ...point,
+                    replies: point.replies?.map((reply) =>
+                      reply.id === replyId
+                        ? {
+                            ...reply,
+                            ...changes,
+                          }
+                        : reply,
+                    ),
+                  }
+                }),
+              }
+            : video,
+        ),
+      )
+    },
+    [],
+  )
+
+  const settlePublish = useCallback(
+    (requestId: string, changes: AnnotationPublishState) => {
+      const pending = pendingPublishesRef.current.get(requestId)
+      if (!pending) {
+        return
+      }
+
+      clearTimeout(pending.timeoutId)
+      pendingPublishesRef.current.delete(requestId)
+      updateAnnotationState(pending, changes)
+    },
+    [updateAnnotationState],
+  )
+
+  const failPendingPublishes = useCallback(
+    (reason: string, includeQueued = false) => {
+      Array.from(pendingPublishesRef.current.entries()).forEach(([requestId, { timeoutId }]) => {
+        if (includeQueued || timeoutId !== undefined) {
+          settlePublish(requestId, { publishStatus: 'failed', publishError: reason })
+        }
+      })
+    },
+    [settlePublish],
+  )
+
+  const handleGraphMessage = useCallback(
+    (message: GraphClientMessage) => {
+      const body = message.body ?? {}
+
+      try {
+        const publicKey = typeof body.public_key === 'string' ? body.public_key : undefined
+
+        if (message.type === 'graph' && typeof body.graph === 'string') {
+          graphSnapshotsRef.current.set(publicKey ?? '', parseGraph(body.graph))
+          const graph = mergeGraphs(Array.from(graphSnapshotsRef.current.values()))
+          if (graph) {
+            setVideos((previous) => reconcileGraphTracks(previous, graph))
+          }
+        } else if (message.type === 'graph_delta') {
+          const changes = parseGraphDelta(body.changes)
+          if (!changes) {
+            console.error('Ignoring malformed graph delta', body)
+            return
+          }
+
+          const namespaces = applyGraphDeltaToSnapshots(graphSnapshotsRef.current, changes, publicKey)
+          const graph = mergeGraphs(Array.from(graphSnapshotsRef.current.values()))
+          if (graph) {
+            setVideos((previous) => reconcileGraphTracks(previous, graph, namespaces))
+          }
+        } else if (message.type === 'publish_ack' && typeof body.request_id === 'string') {
+          settlePublish(body.request_id, {
+            publishStatus: 'published',
+            publishError: undefined,
+            isReadOnly: true,
+          })
+        } else if (message.type === 'publish_rejected' && typeof body.request_id === 'string') {
+          settlePublish(body.request_id, {
+            publishStatus: 'failed',
+            publishError:
+              typeof body.reason === 'string' && body.reason ? body.reason : 'The server rejected this tag.',
+          })
+        }
+      } catch (error) {
+        console.error('Error handling graph message', error)
+        if (error instanceof DotSyntaxError) {
+          setSocketError(`Received graph data that could not be parsed: ${error.message}`)
+        }
+      }
+    },
+    [settlePublish],
+  )
+
+  useEffect(() => {
+    const normalizedUrl = normalizeSocketUrl(socketUrl)
+    if (!normalizedUrl) {
+      setSocketError('Enter a valid WebSocket URL to load graph data.')
+      setConnectionState(null)
+      return undefined
+    }
+
+    setSocketError(null)
+    graphSnapshotsRef.current.clear()
+
+    const client = createGraphClient({
+      url: normalizedUrl,
+      protocols: GRAPH_SOCKET_PROTOCOLS,
+      onMessage: handleGraphMessage,
+      onStateChange: setConnectionState,
+      onDisconnect: () => failPendingPublishes('WebSocket connection closed before the server responded.'),
+    })
+    client.setSubscriptions(graphSubscriptionsRef.current)
+    graphClientRef.current = client
+
+    return () => {
+      client.close()
+      graphClientRef.current = null
+      failPendingPublishes('The graph connection was replaced before the server responded.', true)
+    }
+  }, [socketUrl, socketVersion, handleGraphMessage, failPendingPublishes])
+
+  useEffect(() => {
+    const subscriptions = [DEFAULT_GRAPH_REQUEST_PUBLIC_KEY, ...subscriptionKeys]
+    graphSubscriptionsRef.current = subscriptions
+    graphClientRef.current?.setSubscriptions(subscriptions)
+    graphSnapshotsRef.current.forEach((_, publicKey) => {
+      if (publicKey && !subscriptions.includes(publicKey)) {
+        graphSnapshotsRef.current.delete(publicKey)
+      }
+    })
+  }, [subscriptionKeys])
+
+  const applyWorkspace = useCallback((workspace: Workspace) => {
+    const graph = mergeGraphs(Array.from(graphSnapshotsRef.current.values()))
+
+    setActiveWorkspace({ id: workspace.id, name: workspace.name, createdAt: workspace.createdAt })
+    setActiveWorkspaceId(workspace.id)
+    setVideos(graph ? reconcileGraphTracks(workspace.tracks, graph) : workspace.tracks)
+    setDefaultGrid(workspace.settings.grid)
+    setSocketUrl(workspace.settings.socketUrl)
+    setSocketUrlInput(workspace.settings.socketUrl)
+    setActiveVideoKey(null)
+    setEditingPoint(null)
+    setOpenThread(null)
+    setPlaybackStates({})
+    setKeyPathDrafts({})
+    setReplyDrafts({})
+    pausedKeysRef.current.clear()
+    userPausedKeysRef.current.clear()
+    presentedFramesRef.current.clear()
+  }, [])
+
+  useEffect(() => {
+    let isCancelled = false
+
+    const restoreWorkspace = async () => {
+      try {
+        let summaries = await listWorkspaces()
+        const preferredId = getActiveWorkspaceId()
+        const targetId = summaries.find((summary) => summary.id === preferredId)?.id ?? summaries[0]?.id
+        let workspace = targetId ? await loadWorkspace(targetId) : null
+
+        if (!workspace) {
+          workspace = createWorkspace(DEFAULT_WORKSPACE_NAME, createDefaultTracks(), {
+            grid: DEFAULT_GRID,
+            socketUrl: DEFAULT_GRAPH_SOCKET_URL,
+          })
+          await saveWorkspace(workspace)
+          summaries = await listWorkspaces()
+        }
+
+        if (!isCancelled) {
+          setWorkspaces(summaries)
+          applyWorkspace(workspace)
+        }
+      } catch (error) {
+        console.error('Error restoring workspace', error)
+        if (!isCancelled) {
+          setWorkspaceError(describeError(error, 'Unable to restore the saved feed.'))
+          setVideos((previous) => (previous.length ? previous : createDefaultTracks()))
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsWorkspaceBusy(false)
+        }
+      }
+    }
+
+    void restoreWorkspace()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [applyWorkspace])
+
+  const createWorkspaceSnapshot = useCallback(
+    (workspace: ActiveWorkspace): Workspace => ({
+      ...workspace,
+      updatedAt: Date.now(),
+      tracks: videos,
+      settings: { grid: defaultGrid, socketUrl },
+    }),
+    [videos, defaultGrid, socketUrl],
+  )
+
+  useEffect(() => {
+    if (!activeWorkspace || isWorkspaceBusy) {
+      return undefined
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      saveWorkspace(createWorkspaceSnapshot(activeWorkspace)).catch((error) => {
+        console.error('Error saving workspace', error)
+        setWorkspaceError(describeError(error, 'Unable to save the workspace.'))
+      })
+    }, WORKSPACE_SAVE_DELAY_MS)
+
+    return () => window.clearTimeout(timeoutId)
+  }, [activeWorkspace, isWorkspaceBusy, createWorkspaceSnapshot])
+
+  const runWorkspaceTask = useCallback(
+    async (task: () => Promise<void>, fallbackError: string) => {
+      setIsWorkspaceBusy(true)
+      setWorkspaceError(null)
+      try {
+        if (activeWorkspace) {
+          await saveWorkspace(createWorkspaceSnapshot(activeWorkspace))
+        }
+        await task()
+      } catch (error) {
+        console.error(fallbackError, error)
+        setWorkspaceError(describeError(error, fallbackError))
+      } finally {
+        setIsWorkspaceBusy(false)
+      }
+    },
+    [activeWorkspace, createWorkspaceSnapshot],
+  )
+
+  const handleSwitchWorkspace = useCallback(
+    (id: string) => {
+      if (id === activeWorkspace?.id) {
+        return
+      }
+
+      void runWorkspaceTask(async () => {
+        const workspace = await loadWorkspace(id)
+        if (!workspace) {
+          throw new Error('That workspace no longer exists.')
+        }
+        applyWorkspace(workspace)
+      }, 'Unable to switch workspaces.')
+    },
+    [activeWorkspace, applyWorkspace, runWorkspaceTask],
+  )
+
+  const handleCreateWorkspace = useCallback(
+    (name: string) => {
+      void runWorkspaceTask(async () => {
+        const workspace = createWorkspace(name, [], { grid: DEFAULT_GRID, socketUrl })
+        await saveWorkspace(workspace)
+        setWorkspaces(await listWorkspaces())
+        applyWorkspace(workspace)
+      }, 'Unable to create the workspace.')
+    },
+    [applyWorkspace, runWorkspaceTask, socketUrl],
+  )
+
+  const handleDeleteWorkspace = useCallback(
+    (id: string) => {
+      void runWorkspaceTask(async () => {
+        await deleteWorkspace(id)
+        const summaries = await listWorkspaces()
+        setWorkspaces(summaries)
+
+        if (id === activeWorkspace?.id && summaries.length) {
+          const workspace = await loadWorkspace(summaries[0].id)
+          if (workspace) {
+            applyWorkspace(workspace)
+          }
+        }
+      }, 'Unable to delete the workspace.')
+    },
+    [activeWorkspace, applyWorkspace, runWorkspaceTask],
+  )
 
   const handleSocketSubmit = useCallback(
     (event: React.FormEvent<HTMLFormElement>) => {
@@ -721,39 +1308,70 @@ function App() {
     [socketUrlInput],
   )
 
-  const clampGridScale = useCallback(
-    (scale: number) => Math.min(MAX_GRID_SCALE, Math.max(MIN_GRID_SCALE, scale)),
-    [],
-  )
-
-  const handleRowsChange = useCallback(
-    (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDefaultGridChange = useCallback(
+    (dimension: keyof GridDimensions) => (event: React.ChangeEvent<HTMLInputElement>) => {
       const value = Number.parseInt(event.target.value, 10)
       if (Number.isNaN(value)) {
         return
       }
 
-      const nextScale = clampGridScale(
-        Math.max(MIN_GRID_SCALE, Math.round(value / GRID_ASPECT_HEIGHT)),
-      )
-      setGridScale(nextScale)
+      setDefaultGrid((previous) => ({ ...previous, [dimension]: clampGridDimension(value) }))
     },
-    [clampGridScale],
+    [],
   )
 
-  const handleColumnsChange = useCallback(
-    (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleTrackGridChange = useCallback(
+    (videoKey: string, dimension: keyof GridDimensions) => (event: React.ChangeEvent<HTMLInputElement>) => {
       const value = Number.parseInt(event.target.value, 10)
       if (Number.isNaN(value)) {
         return
       }
 
-      const nextScale = clampGridScale(
-        Math.max(MIN_GRID_SCALE, Math.round(value / GRID_ASPECT_WIDTH)),
-      )
-      setGridScale(nextScale)
+      setVideos((previous) => {
+        const track = previous.find((video) => video.key === videoKey)
+        if (!track) {
+          return previous
+        }
+
+        const grid = { ...getTrackGrid(track), [dimension]: clampGridDimension(value) }
+        const next = previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                grid,
+                points: video.points.map((point) => ({
+                  ...point,
+                  ...getCellAt(point.xPercent, point.yPercent, grid),
+                })),
+              }
+            : video,
+        )
+
+        // Graph tags keep the grid they were written on; re-reading them from
+        // the last snapshot places them in the new grid's cells.
+        const graph = mergeGraphs(Array.from(graphSnapshotsRef.current.values()))
+        return graph && track.namespace ? reconcileGraphTracks(next, graph, new Set([track.namespace])) : next
+      })
+    },
+    [],
+  )
+
+  const updateTrackAspectRatio = useCallback((videoKey: string, aspectRatio: number) => {
+    setVideos((previous) =>
+      previous.some((video) => video.key === videoKey && video.aspectRatio !== aspectRatio)
+        ? previous.map((video) => (video.key === videoKey ? { ...video, aspectRatio } : video))
+        : previous,
+    )
+  }, [])
+
+  const handleMediaMetadata = useCallback(
+    (videoKey: string, player: HTMLVideoElement) => {
+      const aspectRatio = detectAspectRatio(player.videoWidth, player.videoHeight)
+      if (aspectRatio) {
+        updateTrackAspectRatio(videoKey, aspectRatio)
+      }
     },
-    [clampGridScale],
+    [updateTrackAspectRatio],
   )
 
   const logVideoPoints = useCallback((videoKey: string, points: PointOfInterest[]) => {
@@ -784,197 +1402,1137 @@ function App() {
           logVideoPoints(videoKey, target.points)
         }
 
-        return next
-      })
+        return next
+      })
+    },
+    [logVideoPoints],
+  )
+
+  const removePoint = useCallback(
+    (videoKey: string, pointId: string) => {
+      setVideos((previous) => {
+        const next = previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                points: video.points.filter((point) => point.id !== pointId),
+              }
+            : video,
+        )
+
+        const target = next.find((video) => video.key === videoKey)
+        if (target) {
+          logVideoPoints(videoKey, target.points)
+        }
+
+        return next
+      })
+      setOpenThread((previous) =>
+        previous?.videoKey === videoKey && previous.pointId === pointId ? null : previous,
+      )
+      setTrackingPoint((previous) =>
+        previous?.videoKey === videoKey && previous.pointId === pointId ? null : previous,
+      )
+      setSelectedPoint((previous) =>
+        previous?.videoKey === videoKey && previous.pointId === pointId ? null : previous,
+      )
+    },
+    [logVideoPoints],
+  )
+
+  const pauseTrack = useCallback(
+    (videoKey: string) => {
+      const track = videos.find((video) => video.key === videoKey)
+      if (!track) {
+        return
+      }
+
+      pausedKeysRef.current.add(videoKey)
+
+      if (track.kind === 'video') {
+        const player = playerRefs.current.get(videoKey)
+        player?.pause()
+      }
+    },
+    [videos],
+  )
+
+  const resumeTrack = useCallback(
+    (videoKey: string) => {
+      const track = videos.find((video) => video.key === videoKey)
+      if (!track || userPausedKeysRef.current.has(videoKey)) {
+        return
+      }
+
+      pausedKeysRef.current.delete(videoKey)
+
+      if (track.kind === 'video') {
+        const player = playerRefs.current.get(videoKey)
+        if (player && activeVideoKey === videoKey) {
+          player.play().catch(() => undefined)
+        }
+      }
+    },
+    [activeVideoKey, videos],
+  )
+
+  const seekTrack = useCallback(
+    (videoKey: string, time: number) => {
+      const track = videos.find((video) => video.key === videoKey)
+      const duration = playbackStateRef.current[videoKey]?.duration ?? 0
+      if (!track) {
+        return
+      }
+
+      const currentTime = clampPlaybackTime(time, duration)
+      if (track.kind === 'video') {
+        const player = playerRefs.current.get(videoKey)
+        player?.seek(currentTime)
+      } else if (track.kind === 'document') {
+        const shell = documentShellRefs.current.get(videoKey)
+        const viewport = getDocumentViewport(videoKey)
+        if (shell && viewport) {
+          shell.scrollTop = getScrollTopFor(viewport, currentTime)
+        }
+      }
+
+      // The animation loop reads the ref before the state update lands.
+      playbackStateRef.current = { ...playbackStateRef.current, [videoKey]: { currentTime, duration } }
+      setPlaybackStates((previous) => ({ ...previous, [videoKey]: { currentTime, duration } }))
+    },
+    [videos, getDocumentViewport],
+  )
+
+  /**
+   * The media time of the frame on screen. While a video plays, the time of
+   * the last presented frame is used where `requestVideoFrameCallback` is
+   * available, since `currentTime` may already be ahead of it; otherwise the
+   * element's own clock is read directly rather than the sampled playback state.
+   */
+  const getCaptureTime = useCallback((videoKey: string): number => {
+    const player = playerRefs.current.get(videoKey)
+    if (!player) {
+      return playbackStateRef.current[videoKey]?.currentTime ?? 0
+    }
+
+    const frame = presentedFramesRef.current.get(videoKey)
+    return frame && !player.isPaused() && !player.isSeeking() ? frame.mediaTime : player.getCurrentTime()
+  }, [])
+
+  const togglePlayback = useCallback(
+    (videoKey: string) => {
+      const player = playerRefs.current.get(videoKey)
+      if (!player) {
+        return
+      }
+
+      if (player.isPaused()) {
+        userPausedKeysRef.current.delete(videoKey)
+        pausedKeysRef.current.delete(videoKey)
+        player.play().catch(() => undefined)
+      } else {
+        userPausedKeysRef.current.add(videoKey)
+        pauseTrack(videoKey)
+      }
+    },
+    [pauseTrack],
+  )
+
+  const stepTrackFrame = useCallback(
+    (videoKey: string, direction: FrameDirection) => {
+      const player = playerRefs.current.get(videoKey)
+      if (!player) {
+        return
+      }
+
+      userPausedKeysRef.current.add(videoKey)
+      pauseTrack(videoKey)
+      const frameDuration = presentedFramesRef.current.get(videoKey)?.frameDuration ?? DEFAULT_FRAME_DURATION
+      seekTrack(videoKey, stepFrame(player.getCurrentTime(), frameDuration, direction, player.getDuration()))
+    },
+    [pauseTrack, seekTrack],
+  )
+
+  const handlePlaybackRateChange = useCallback(
+    (videoKey: string) => (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const rate = Number(event.target.value)
+      setPlaybackRates((previous) => ({ ...previous, [videoKey]: rate }))
+    },
+    [],
+  )
+
+  const handleQualityChange = useCallback(
+    (videoKey: string) => (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const level = Number(event.target.value)
+      hlsSessionsRef.current.get(videoKey)?.setQualityLevel(level)
+      setSelectedQualities((previous) => ({ ...previous, [videoKey]: level }))
+    },
+    [],
+  )
+
+  const handlePlayingChange = useCallback(
+    (videoKey: string, isPlaying: boolean) =>
+      setPlayingKeys((previous) =>
+        previous[videoKey] === isPlaying ? previous : { ...previous, [videoKey]: isPlaying },
+      ),
+    [],
+  )
+
+  /** Embedded players load after the autoplay pass, so the active one starts itself once ready. */
+  const handleEmbedReady = useCallback(
+    (videoKey: string) => {
+      updateTrackAspectRatio(videoKey, EMBED_ASPECT_RATIO)
+      if (videoKey === activeVideoKeyRef.current && !pausedKeysRef.current.has(videoKey)) {
+        playerRefs.current.get(videoKey)?.play().catch(() => undefined)
+      }
+    },
+    [updateTrackAspectRatio],
+  )
+
+  const handleYouTubeReady = useCallback(
+    (videoKey: string, target: YouTubeTarget) => {
+      playerRefs.current.set(videoKey, createYouTubePlayer(target))
+      handleEmbedReady(videoKey)
+    },
+    [handleEmbedReady],
+  )
+
+  const registerVimeoRef = useCallback(
+    (key: string) =>
+      (node: HTMLIFrameElement | null) => {
+        if (node && playerRefs.current.get(key)?.element !== node) {
+          playerRefs.current.set(
+            key,
+            createVimeoPlayer(node, {
+              onReady: () => handleEmbedReady(key),
+              onPlayingChange: (isPlaying) => handlePlayingChange(key, isPlaying),
+            }),
+          )
+        }
+      },
+    [handleEmbedReady, handlePlayingChange],
+  )
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== VIMEO_ORIGIN) {
+        return
+      }
+
+      playerRefs.current.forEach((player) => {
+        if (player?.element instanceof HTMLIFrameElement && player.element.contentWindow === event.source) {
+          player.handleMessage?.(event.data)
+        }
+      })
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [])
+
+  const sendTagMessage = useCallback(
+    (message: PublishTagMessage, target: PublishTarget): string | null => {
+      const client = graphClientRef.current
+      if (!client) {
+        return 'Enter a valid WebSocket URL in settings to publish.'
+      }
+
+      // Queued while offline; the ack timeout only starts once the tag is sent.
+      const requestId = message.body.request_id
+      pendingPublishesRef.current.set(requestId, { ...target })
+      client.request(message, () => {
+        const pending = pendingPublishesRef.current.get(requestId)
+        if (pending) {
+          pending.timeoutId = window.setTimeout(() => {
+            settlePublish(requestId, {
+              publishStatus: 'failed',
+              publishError: 'The server did not acknowledge this tag.',
+            })
+          }, PUBLISH_ACK_TIMEOUT_MS)
+        }
+      })
+      return null
+    },
+    [settlePublish],
+  )
+
+  const publishAnnotation = useCallback(
+    (
+      track: MediaTrack,
+      target: PublishTarget,
+      note: string,
+      createMessage: (requestId: string, signingWallet: Wallet, namespace: string) => PublishTagMessage,
+    ) => {
+      if (!track.namespace) {
+        return
+      }
+
+      const validationError = !wallet
+        ? 'Unlock your wallet in settings to sign and publish.'
+        : !note.trim()
+          ? 'Add a note before publishing.'
+          : null
+
+      if (validationError || !wallet) {
+        updateAnnotationState(target, { publishStatus: 'failed', publishError: validationError ?? undefined })
+        return
+      }
+
+      const requestId = crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)
+      const message = createMessage(requestId, wallet, track.namespace)
+      const sendError = sendTagMessage(message, target)
+
+      updateAnnotationState(
+        target,
+        sendError
+          ? { publishStatus: 'failed', publishError: sendError }
+          : { publishStatus: 'pending', publishError: undefined, tagPubkey: message.body.public_key },
+      )
+    },
+    [wallet, sendTagMessage, updateAnnotationState],
+  )
+
+  const publishPoint = useCallback(
+    (videoKey: string, pointId: string) => {
+      const track = videos.find((video) => video.key === videoKey)
+      const point = track?.points.find((candidate) => candidate.id === pointId)
+      if (!track || !point || point.isReadOnly || point.publishStatus === 'pending') {
+        return
+      }
+
+      setTrackingPoint((previous) =>
+        previous?.videoKey === videoKey && previous.pointId === pointId ? null : previous,
+      )
+      publishAnnotation(track, { videoKey, pointId }, point.note, (requestId, signingWallet, namespace) =>
+        createPublishTagMessage(
+          requestId,
+          signingWallet,
+          namespace,
+          track.derivationPath ?? DEFAULT_DERIVATION_PATH,
+          point,
+          getTrackGrid(track),
+        ),
+      )
+    },
+    [videos, publishAnnotation],
+  )
+
+  const publishReply = useCallback(
+    (track: MediaTrack, point: PointOfInterest, reply: AnnotationReply) => {
+      const target = { videoKey: track.key, pointId: point.id, replyId: reply.id }
+      const parentPubkey = getAnnotationPubkey(point)
+
+      if (!parentPubkey) {
+        updateAnnotationState(target, {
+          publishStatus: 'failed',
+          publishError: 'Publish the original tag before publishing replies to it.',
+        })
+        return
+      }
+
+      publishAnnotation(track, target, reply.note, (requestId, signingWallet, namespace) =>
+        createPublishReplyMessage(
+          requestId,
+          signingWallet,
+          namespace,
+          track.derivationPath ?? DEFAULT_DERIVATION_PATH,
+          parentPubkey,
+          reply,
+        ),
+      )
+    },
+    [publishAnnotation, updateAnnotationState],
+  )
+
+  const retryReply = useCallback(
+    (videoKey: string, pointId: string, replyId: string) => {
+      const track = videos.find((video) => video.key === videoKey)
+      const point = track?.points.find((candidate) => candidate.id === pointId)
+      const reply = point?.replies?.find((candidate) => candidate.id === replyId)
+      if (!track || !point || !reply || reply.isReadOnly || reply.publishStatus === 'pending') {
+        return
+      }
+
+      publishReply(track, point, reply)
+    },
+    [videos, publishReply],
+  )
+
+  const addReply = useCallback(
+    (videoKey: string, pointId: string) => {
+      const draftKey = `${videoKey}:${pointId}`
+      const note = replyDrafts[draftKey]?.trim()
+      const track = videos.find((video) => video.key === videoKey)
+      const point = track?.points.find((candidate) => candidate.id === pointId)
+      if (!note || !track || !point) {
+        return
+      }
+
+      const reply: AnnotationReply = {
+        id: `reply-${crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)}`,
+        parentId: point.id,
+        depth: 1,
+        note,
+      }
+
+      setVideos((previous) =>
+        previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                points: video.points.map((candidate) =>
+                  candidate.id === pointId
+                    ? {
+                        ...candidate,
+                        replies: [...(candidate.replies ?? []), reply],
+                      }
+                    : candidate,
+                ),
+              }
+            : video,
+        ),
+      )
+      setReplyDrafts((previous) => {
+        const next = { ...previous }
+        delete next[draftKey]
+        return next
+      })
+
+      if (track.namespace) {
+        publishReply(track, point, reply)
+      }
+    },
+    [replyDrafts, videos, publishReply],
+  )
+
+  const startEditingPoint = useCallback(
+    (videoKey: string, pointId: string) => {
+      pauseTrack(videoKey)
+      setEditingPoint({ videoKey, pointId })
+    },
+    [pauseTrack],
+  )
+
+  const stopEditingPoint = useCallback(
+    (videoKey: string, pointId: string) => {
+      const isThreadOpen = openThread?.videoKey === videoKey && openThread.pointId === pointId
+
+      setEditingPoint((previous) => {
+        if (previous && previous.videoKey === videoKey && previous.pointId === pointId) {
+          if (!isThreadOpen) {
+            resumeTrack(videoKey)
+          }
+          return null
+        }
+
+        return previous
+      })
+    },
+    [openThread, resumeTrack],
+  )
+
+  const toggleThread = useCallback(
+    (videoKey: string, pointId: string) => {
+      const isOpen = openThread?.videoKey === videoKey && openThread.pointId === pointId
+      const isEditing = editingPoint?.videoKey === videoKey && editingPoint.pointId === pointId
+
+      if (isOpen) {
+        setOpenThread(null)
+        if (!isEditing) {
+          resumeTrack(videoKey)
+        }
+        return
+      }
+
+      if (openThread && openThread.videoKey !== videoKey) {
+        resumeTrack(openThread.videoKey)
+      }
+
+      pauseTrack(videoKey)
+      setOpenThread({ videoKey, pointId })
+    },
+    [editingPoint, openThread, pauseTrack, resumeTrack],
+  )
+
+  const addAnnotation = useCallback(
+    (videoKey: string, placement: Pick<PointOfInterest, 'row' | 'column' | 'xPercent' | 'yPercent' | 'shape'>) => {
+      const id = `${videoKey}-${crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)}`
+      const viewport = getDocumentViewport(videoKey)
+      const frame = documentRefs.current.get(videoKey)
+      const anchor =
+        viewport && frame?.contentDocument
+          ? createDocumentAnchor(
+              frame.contentDocument,
+              (placement.xPercent / 100) * frame.clientWidth,
+              viewport.scrollTop + (placement.yPercent / 100) * viewport.clientHeight,
+            )
+          : undefined
+
+      const newPoint: PointOfInterest = {
+        id,
+        time: viewport ? getPagePercent(viewport, placement.yPercent) : getCaptureTime(videoKey),
+        ...placement,
+        note: '',
+        ...(anchor ? { anchor } : {}),
+      }
+
+      setVideos((previous) => {
+        const next = previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                points: [...video.points, newPoint].sort((a, b) => a.time - b.time),
+              }
+            : video,
+        )
+
+        const target = next.find((video) => video.key === videoKey)
+        if (target) {
+          logVideoPoints(videoKey, target.points)
+        }
+
+        return next
+      })
+
+      startEditingPoint(videoKey, id)
+    },
+    [logVideoPoints, startEditingPoint, getCaptureTime, getDocumentViewport],
+  )
+
+  const addPointKeyframe = useCallback(
+    (videoKey: string, pointId: string, position: RegionVertex) => {
+      const time = getCaptureTime(videoKey)
+
+      setVideos((previous) =>
+        previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                points: video.points
+                  .map((point) =>
+                    point.id === pointId && !point.isReadOnly && point.publishStatus !== 'pending'
+                      ? applyKeyframes(
+                          point,
+                          insertKeyframe(getAnnotationKeyframes(point), { time, ...position }),
+                          getTrackGrid(video),
+                        )
+                      : point,
+                  )
+                  .sort((a, b) => a.time - b.time),
+              }
+            : video,
+        ),
+      )
+    },
+    [getCaptureTime],
+  )
+
+  const clearPointKeyframes = useCallback((videoKey: string, pointId: string) => {
+    setVideos((previous) =>
+      previous.map((video) =>
+        video.key === videoKey
+          ? {
+              ...video,
+              points: video.points.map((point) =>
+                point.id === pointId && point.keyframes && !point.isReadOnly && point.publishStatus !== 'pending'
+                  ? applyKeyframes(point, point.keyframes.slice(0, 1), getTrackGrid(video))
+                  : point,
+              ),
+            }
+          : video,
+      ),
+    )
+  }, [])
+
+  const registerPoint = useCallback(
+    (videoKey: string, { rows, columns }: GridDimensions, rowIndex: number, columnIndex: number) =>
+      (event: React.MouseEvent<HTMLButtonElement>) => {
+        if (!isAnnotationInteractionEnabled) {
+          return
+        }
+
+        const overlay = overlayRefs.current.get(videoKey)
+        const overlayRect = overlay?.getBoundingClientRect()
+        const clickX = event.clientX
+        const clickY = event.clientY
+
+        let xPercent = ((columnIndex + 0.5) / columns) * 100
+        let yPercent = ((rowIndex + 0.5) / rows) * 100
+
+        if (overlayRect && overlayRect.width > 0 && overlayRect.height > 0) {
+          xPercent = ((clickX - overlayRect.left) / overlayRect.width) * 100
+          yPercent = ((clickY - overlayRect.top) / overlayRect.height) * 100
+        }
+
+        if (trackingPoint?.videoKey === videoKey) {
+          addPointKeyframe(videoKey, trackingPoint.pointId, { xPercent, yPercent })
+          return
+        }
+
+        addAnnotation(videoKey, { row: rowIndex + 1, column: columnIndex + 1, xPercent, yPercent })
+      },
+    [addAnnotation, addPointKeyframe, isAnnotationInteractionEnabled, trackingPoint],
+  )
+
+  const getOverlayVertex = useCallback((videoKey: string, event: React.PointerEvent): RegionVertex | null => {
+    const overlayRect = overlayRefs.current.get(videoKey)?.getBoundingClientRect()
+    if (!overlayRect || overlayRect.width <= 0 || overlayRect.height <= 0) {
+      return null
+    }
+
+    return {
+      xPercent: clampPercent(((event.clientX - overlayRect.left) / overlayRect.width) * 100),
+      yPercent: clampPercent(((event.clientY - overlayRect.top) / overlayRect.height) * 100),
+    }
+  }, [])
+
+  const addRegion = useCallback(
+    (videoKey: string, grid: GridDimensions, shape: AnnotationShape | undefined) => {
+      setRegionDraft(null)
+      if (!shape) {
+        return
+      }
+
+      const center = getShapeCenter(shape)
+      addAnnotation(videoKey, { ...getCellAt(center.xPercent, center.yPercent, grid), ...center, shape })
+    },
+    [addAnnotation],
+  )
+
+  const cancelRegionDraft = useCallback(() => {
+    if (regionDraft) {
+      resumeTrack(regionDraft.videoKey)
+    }
+    setRegionDraft(null)
+  }, [regionDraft, resumeTrack])
+
+  const handleRegionPointerDown = useCallback(
+    (videoKey: string, grid: GridDimensions) => (event: React.PointerEvent<HTMLDivElement>) => {
+      const vertex = getOverlayVertex(videoKey, event)
+      if (!vertex || event.button !== 0) {
+        return
+      }
+
+      event.preventDefault()
+
+      if (annotationTool === 'rectangle') {
+        const cell = getCellAt(vertex.xPercent, vertex.yPercent, grid)
+        event.currentTarget.setPointerCapture(event.pointerId)
+        pauseTrack(videoKey)
+        setRegionDraft({ videoKey, tool: 'rectangle', start: cell, end: cell })
+        return
+      }
+
+      const vertices = regionDraft?.videoKey === videoKey && regionDraft.tool === 'polygon' ? regionDraft.vertices : []
+      const canClose = vertices.length >= MIN_POLYGON_VERTICES
+      if (canClose && (isNearVertex(vertex, vertices[0]) || isNearVertex(vertex, vertices[vertices.length - 1]))) {
+        addRegion(videoKey, grid, normalizeShape({ type: 'polygon', vertices }))
+        return
+      }
+
+      const nextVertices = [...vertices, vertex]
+      if (nextVertices.length === MAX_POLYGON_VERTICES) {
+        addRegion(videoKey, grid, normalizeShape({ type: 'polygon', vertices: nextVertices }))
+        return
+      }
+
+      if (!vertices.length) {
+        pauseTrack(videoKey)
+      }
+      setRegionDraft({ videoKey, tool: 'polygon', vertices: nextVertices })
+    },
+    [addRegion, annotationTool, getOverlayVertex, pauseTrack, regionDraft],
+  )
+
+  const handleRegionPointerMove = useCallback(
+    (videoKey: string, grid: GridDimensions) => (event: React.PointerEvent<HTMLDivElement>) => {
+      if (regionDraft?.videoKey !== videoKey || regionDraft.tool !== 'rectangle') {
+        return
+      }
+
+      const vertex = getOverlayVertex(videoKey, event)
+      const end = vertex && getCellAt(vertex.xPercent, vertex.yPercent, grid)
+      if (end && (end.row !== regionDraft.end.row || end.column !== regionDraft.end.column)) {
+        setRegionDraft({ ...regionDraft, end })
+      }
+    },
+    [getOverlayVertex, regionDraft],
+  )
+
+  const handleRegionPointerUp = useCallback(
+    (videoKey: string, grid: GridDimensions) => () => {
+      if (regionDraft?.videoKey === videoKey && regionDraft.tool === 'rectangle') {
+        addRegion(videoKey, grid, createCellRectangle(regionDraft.start, regionDraft.end, grid))
+      }
+    },
+    [addRegion, regionDraft],
+  )
+
+  useEffect(() => {
+    if (!regionDraft) {
+      return undefined
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        cancelRegionDraft()
+      } else if (event.key === 'Enter' && regionDraft.tool === 'polygon') {
+        const track = videos.find((video) => video.key === regionDraft.videoKey)
+        if (track && regionDraft.vertices.length >= MIN_POLYGON_VERTICES) {
+          event.preventDefault()
+          addRegion(track.key, getTrackGrid(track), normalizeShape({ type: 'polygon', vertices: regionDraft.vertices }))
+        }
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [regionDraft, videos, addRegion, cancelRegionDraft])
+
+  useEffect(() => {
+    if (!trackingPoint) {
+      return undefined
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setTrackingPoint(null)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [trackingPoint])
+
+  const startTrackingPoint = useCallback(
+    (videoKey: string, pointId: string) => {
+      cancelRegionDraft()
+      setAnnotationTool('point')
+      setTrackingPoint({ videoKey, pointId })
+    },
+    [cancelRegionDraft],
+  )
+
+  const handleAnnotationToolChange = useCallback(
+    (tool: AnnotationTool) => {
+      cancelRegionDraft()
+      setTrackingPoint(null)
+      setAnnotationTool(tool)
     },
-    [logVideoPoints],
+    [cancelRegionDraft],
   )
 
-  const removePoint = useCallback(
-    (videoKey: string, pointId: string) => {
-      setVideos((previous) => {
-        const next = previous.map((video) =>
-          video.key === videoKey
-            ? {
-                ...video,
-                points: video.points.filter((point) => point.id !== pointId),
-              }
-            : video,
-        )
+  const updatePointShape = useCallback((videoKey: string, pointId: string, shape: AnnotationShape) => {
+    setVideos((previous) =>
+      previous.map((video) => {
+        if (video.key !== videoKey) {
+          return video
+        }
 
-        const target = next.find((video) => video.key === videoKey)
-        if (target) {
-          logVideoPoints(videoKey, target.points)
+        const center = getShapeCenter(shape)
+        const cell = getCellAt(center.xPercent, center.yPercent, getTrackGrid(video))
+        return {
+          ...video,
+          points: video.points.map((point) =>
+            point.id === pointId && !point.isReadOnly ? { ...point, ...cell, ...center, shape } : point,
+          ),
         }
+      }),
+    )
+  }, [])
 
-        return next
-      })
+  const updatePointRange = useCallback((videoKey: string, pointId: string, range: TimeRange) => {
+    setVideos((previous) =>
+      previous.map((video) =>
+        video.key === videoKey
+          ? {
+              ...video,
+              points: video.points
+                .map((point) =>
+                  point.id === pointId && !point.isReadOnly && point.publishStatus !== 'pending'
+                    ? { ...point, time: range.time, endTime: range.endTime }
+                    : point,
+                )
+                .sort((a, b) => a.time - b.time),
+            }
+          : video,
+      ),
+    )
+  }, [])
+
+  const jumpToAnnotation = useCallback(
+    (videoKey: string, pointId: string) => {
+      const point = videos.find((video) => video.key === videoKey)?.points.find((item) => item.id === pointId)
+      if (!point) {
+        return
+      }
+
+      seekTrack(videoKey, point.time)
+      if (openThread && openThread.videoKey !== videoKey) {
+        resumeTrack(openThread.videoKey)
+      }
+      pauseTrack(videoKey)
+      setOpenThread({ videoKey, pointId })
     },
-    [logVideoPoints],
+    [videos, openThread, seekTrack, pauseTrack, resumeTrack],
   )
 
-  const pauseTrack = useCallback(
-    (videoKey: string) => {
+  const jumpToAdjacentAnnotation = useCallback(
+    (videoKey: string, direction: AnnotationDirection) => {
+      const track = videos.find((video) => video.key === videoKey)
+      const currentTime = playbackStateRef.current[videoKey]?.currentTime ?? 0
+      const point = track ? getAdjacentAnnotation(track.points, currentTime, direction) : undefined
+      if (point) {
+        jumpToAnnotation(videoKey, point.id)
+      }
+    },
+    [videos, jumpToAnnotation],
+  )
+
+  /**
+   * Keys of the sticky annotation mode: arrows move the cell cursor, Enter
+   * drops a point (or a keyframe while tracking) at it, Tab cycles through the
+   * visible annotations and Delete removes the selected one. Returns whether
+   * the key was handled.
+   */
+  const handleAnnotationModeKey = useCallback(
+    (videoKey: string, event: KeyboardEvent): boolean => {
       const track = videos.find((video) => video.key === videoKey)
       if (!track) {
-        return
+        return false
       }
 
-      pausedKeysRef.current.add(videoKey)
+      const grid = getTrackGrid(track)
+      const cursor = gridCursor?.videoKey === videoKey ? gridCursor : null
+      const currentTime = playbackStateRef.current[videoKey]?.currentTime ?? 0
 
-      if (track.kind === 'video') {
-        const player = playerRefs.current.get(videoKey)
-        player?.pause()
+      if (isCursorKey(event.key)) {
+        const next = cursor ? moveGridCursor(cursor, event.key, grid) : getInitialCursor(grid)
+        setGridCursor({ videoKey, ...next })
+        setSelectedPoint(null)
+        return true
+      }
+
+      if (event.key === 'Enter') {
+        if (!cursor || regionDraft) {
+          return false
+        }
+
+        const position = getCellCenter(cursor, grid)
+        if (trackingPoint?.videoKey === videoKey) {
+          addPointKeyframe(videoKey, trackingPoint.pointId, position)
+        } else {
+          addAnnotation(videoKey, { row: cursor.row, column: cursor.column, ...position })
+        }
+        return true
+      }
+
+      if (event.key === 'Tab') {
+        const viewport = track.kind === 'document' ? getDocumentViewport(videoKey) : undefined
+        const visiblePoints = track.points.filter(
+          (point) => isAnnotationInView(point, currentTime, viewport) || point.id === trackingPoint?.pointId,
+        )
+        const currentId = selectedPoint?.videoKey === videoKey ? selectedPoint.pointId : undefined
+        const point = cycleAnnotation(visiblePoints, currentId, event.shiftKey ? -1 : 1)
+        if (!point) {
+          return false
+        }
+
+        const position = viewport
+          ? { xPercent: point.xPercent, yPercent: getViewportPercent(viewport, point.time) }
+          : getAnnotationPosition(point, currentTime)
+        setSelectedPoint({ videoKey, pointId: point.id })
+        setGridCursor({ videoKey, ...getCellAt(position.xPercent, position.yPercent, grid) })
+        return true
+      }
+
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        const point =
+          selectedPoint?.videoKey === videoKey
+            ? track.points.find((item) => item.id === selectedPoint.pointId)
+            : undefined
+        if (!point || point.isReadOnly || point.publishStatus === 'pending') {
+          return false
+        }
+
+        stopEditingPoint(videoKey, point.id)
+        removePoint(videoKey, point.id)
+        return true
+      }
+
+      if (event.key === 'Escape' && !regionDraft && !trackingPoint) {
+        toggleAnnotationMode()
+        return true
       }
+
+      return false
     },
-    [videos],
+    [
+      videos,
+      getDocumentViewport,
+      gridCursor,
+      selectedPoint,
+      regionDraft,
+      trackingPoint,
+      addAnnotation,
+      addPointKeyframe,
+      stopEditingPoint,
+      removePoint,
+      toggleAnnotationMode,
+    ],
   )
 
-  const resumeTrack = useCallback(
-    (videoKey: string) => {
-      const track = videos.find((video) => video.key === videoKey)
-      if (!track) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        !activeVideoKey ||
+        event.defaultPrevented ||
+        event.altKey ||
+        event.ctrlKey ||
+        event.metaKey ||
+        isTextEntryTarget(event.target)
+      ) {
         return
       }
 
-      pausedKeysRef.current.delete(videoKey)
+      if (isAnnotationModeOn && !isControlKey(event) && handleAnnotationModeKey(activeVideoKey, event)) {
+        event.preventDefault()
+        return
+      }
 
-      if (track.kind === 'video') {
-        const player = playerRefs.current.get(videoKey)
-        if (player && activeVideoKey === videoKey) {
-          player.play().catch(() => undefined)
-        }
-      } else if (track.kind === 'document' && activeVideoKey === videoKey) {
-        documentStartRef.current = null
+      const currentTime = playbackStateRef.current[activeVideoKey]?.currentTime ?? 0
+      if (event.key === 'a') {
+        toggleAnnotationMode()
+      } else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+        seekTrack(activeVideoKey, currentTime + (event.key === 'ArrowLeft' ? -SEEK_STEP : SEEK_STEP))
+      } else if (event.key === '[' || event.key === ']') {
+        jumpToAdjacentAnnotation(activeVideoKey, event.key === '[' ? 'previous' : 'next')
+      } else if (event.key === ',' || event.key === '.') {
+        stepTrackFrame(activeVideoKey, event.key === ',' ? -1 : 1)
+      } else if (event.key === 'k') {
+        togglePlayback(activeVideoKey)
+      } else {
+        return
       }
+
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    activeVideoKey,
+    isAnnotationModeOn,
+    handleAnnotationModeKey,
+    toggleAnnotationMode,
+    seekTrack,
+    jumpToAdjacentAnnotation,
+    stepTrackFrame,
+    togglePlayback,
+  ])
+
+  const handleTimelinePointerDown = useCallback(
+    (videoKey: string, duration: number) => (event: React.PointerEvent<HTMLDivElement>) => {
+      const rect = event.currentTarget.getBoundingClientRect()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      seekTrack(videoKey, getTimelineTime(event.clientX, rect.left, rect.width, duration))
     },
-    [activeVideoKey, videos],
+    [seekTrack],
   )
 
-  const startEditingPoint = useCallback(
-    (videoKey: string, pointId: string) => {
-      pauseTrack(videoKey)
-      setEditingPoint({ videoKey, pointId })
+  const handleTimelinePointerMove = useCallback(
+    (videoKey: string, duration: number) => (event: React.PointerEvent<HTMLDivElement>) => {
+      if (!event.currentTarget.hasPointerCapture(event.pointerId)) {
+        return
+      }
+
+      const rect = event.currentTarget.getBoundingClientRect()
+      seekTrack(videoKey, getTimelineTime(event.clientX, rect.left, rect.width, duration))
     },
-    [pauseTrack],
+    [seekTrack],
   )
 
-  const stopEditingPoint = useCallback(
-    (videoKey: string, pointId: string) => {
-      setEditingPoint((previous) => {
-        if (previous && previous.videoKey === videoKey && previous.pointId === pointId) {
-          resumeTrack(videoKey)
-          return null
-        }
+  const handleTimelineKeyDown = useCallback(
+    (videoKey: string, currentTime: number, duration: number) => (event: React.KeyboardEvent<HTMLDivElement>) => {
+      const targets: Record<string, number> = {
+        ArrowLeft: currentTime - SEEK_STEP,
+        ArrowRight: currentTime + SEEK_STEP,
+        Home: 0,
+        End: duration,
+      }
+      if (!(event.key in targets)) {
+        return
+      }
 
-        return previous
-      })
+      event.preventDefault()
+      event.stopPropagation()
+      seekTrack(videoKey, targets[event.key])
     },
-    [resumeTrack],
+    [seekTrack],
   )
 
-  const registerPoint = useCallback(
-    (videoKey: string, rowIndex: number, columnIndex: number) =>
-      (event: React.MouseEvent<HTMLButtonElement>) => {
-        if (!isAnnotationInteractionEnabled) {
+  const handleTimelineSegmentPointerDown = useCallback(
+    (videoKey: string, point: PointOfInterest, duration: number, isEditable: boolean) =>
+      (event: React.PointerEvent<HTMLDivElement>) => {
+        const track = event.currentTarget.parentElement
+        event.stopPropagation()
+        if (point.endTime === undefined || !track) {
           return
         }
 
-        const overlay = overlayRefs.current.get(videoKey)
-        const currentTime = playbackStates[videoKey]?.currentTime ?? 0
-        const overlayRect = overlay?.getBoundingClientRect()
-        const clickX = event.clientX
-        const clickY = event.clientY
-
-        let xPercent = ((columnIndex + 0.5) / columns) * 100
-        let yPercent = ((rowIndex + 0.5) / rows) * 100
-
-        if (overlayRect && overlayRect.width > 0 && overlayRect.height > 0) {
-          xPercent = ((clickX - overlayRect.left) / overlayRect.width) * 100
-          yPercent = ((clickY - overlayRect.top) / overlayRect.height) * 100
+        event.preventDefault()
+        event.currentTarget.setPointerCapture(event.pointerId)
+        timelineDragRef.current = {
+          videoKey,
+          pointId: point.id,
+          part: ((event.target as HTMLElement).dataset.part as RangeDragPart | undefined) ?? 'range',
+          originX: event.clientX,
+          trackWidth: track.getBoundingClientRect().width,
+          duration,
+          range: { time: point.time, endTime: point.endTime },
+          isEditable,
+          hasMoved: false,
         }
+      },
+    [],
+  )
 
-        const id = `${videoKey}-${crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)}`
-
-        const newPoint: PointOfInterest = {
-          id,
-          time: currentTime,
-          row: rowIndex + 1,
-          column: columnIndex + 1,
-          xPercent,
-          yPercent,
-          note: '',
-        }
+  const handleTimelineSegmentPointerMove = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      const drag = timelineDragRef.current
+      if (!drag?.isEditable || !drag.trackWidth || !event.currentTarget.hasPointerCapture(event.pointerId)) {
+        return
+      }
+      if (!drag.hasMoved && Math.abs(event.clientX - drag.originX) < TIMELINE_DRAG_THRESHOLD_PX) {
+        return
+      }
 
-        setVideos((previous) => {
-          const next = previous.map((video) =>
-            video.key === videoKey
-              ? {
-                  ...video,
-                  points: [...video.points, newPoint].sort((a, b) => a.time - b.time),
-                }
-              : video,
-          )
+      drag.hasMoved = true
+      const delta = ((event.clientX - drag.originX) / drag.trackWidth) * drag.duration
+      updatePointRange(drag.videoKey, drag.pointId, dragRange(drag.range, drag.part, delta, drag.duration))
+    },
+    [updatePointRange],
+  )
 
-          const target = next.find((video) => video.key === videoKey)
-          if (target) {
-            logVideoPoints(videoKey, target.points)
-          }
+  const handleTimelineSegmentPointerUp = useCallback(() => {
+    const drag = timelineDragRef.current
+    timelineDragRef.current = null
+    if (drag && !drag.hasMoved) {
+      jumpToAnnotation(drag.videoKey, drag.pointId)
+    }
+  }, [jumpToAnnotation])
 
-          return next
-        })
+  const handleTimelineSegmentPointerCancel = useCallback(() => {
+    timelineDragRef.current = null
+  }, [])
 
-        startEditingPoint(videoKey, id)
-      },
-    [columns, rows, logVideoPoints, startEditingPoint, isAnnotationInteractionEnabled, playbackStates],
+  const importPoints = useCallback(
+    (videoKey: string, imported: ImportedPoint[]) => {
+      setVideos((previous) =>
+        previous.map((video) =>
+          video.key === videoKey
+            ? {
+                ...video,
+                points: mergeImportedPoints(
+                  video.points,
+                  imported,
+                  getTrackGrid(video),
+                  () => `${videoKey}-${crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)}`,
+                ).points,
+              }
+            : video,
+        ),
+      )
+    },
+    [],
   )
 
   const gridCellsForVideo = useCallback(
-    (videoKey: string) =>
-      Array.from({ length: rows * columns }, (_, index) => {
-        const rowIndex = Math.floor(index / columns)
-        const columnIndex = index % columns
+    (videoKey: string, grid: GridDimensions) =>
+      Array.from({ length: grid.rows * grid.columns }, (_, index) => {
+        const rowIndex = Math.floor(index / grid.columns)
+        const columnIndex = index % grid.columns
 
         return (
           <button
             key={`${videoKey}-${rowIndex}-${columnIndex}`}
             type="button"
             className="grid-cell"
-            onClick={registerPoint(videoKey, rowIndex, columnIndex)}
+            onClick={registerPoint(videoKey, grid, rowIndex, columnIndex)}
             aria-label={`Mark row ${rowIndex + 1}, column ${columnIndex + 1}`}
           />
         )
       }),
-    [columns, rows, registerPoint],
+    [registerPoint],
   )
 
   return (
     <div className="app">
-      <div className="feed">
+      <div
+        className={isDraggingFiles ? 'feed feed--dropping' : 'feed'}
+        onDragOver={handleFeedDragOver}
+        onDragLeave={handleFeedDragLeave}
+        onDrop={handleFeedDrop}
+      >
         {videos.map((video) => {
           const playback = playbackStates[video.key] ?? { currentTime: 0, duration: 0 }
+          const documentViewport = video.kind === 'document' ? documentViewports[video.key] : undefined
+          const getPointPosition = (point: PointOfInterest) =>
+            documentViewport
+              ? { xPercent: point.xPercent, yPercent: getViewportPercent(documentViewport, point.time) }
+              : getAnnotationPosition(point, playback.currentTime)
+          const grid = getTrackGrid(video)
+          const youTubeId = video.kind === 'video' ? parseYouTubeId(video.url) : undefined
+          const vimeoId = video.kind === 'video' && !youTubeId ? parseVimeoId(video.url) : undefined
+          const trackedPoint =
+            trackingPoint?.videoKey === video.key
+              ? video.points.find(
+                  (point) =>
+                    point.id === trackingPoint.pointId && !point.isReadOnly && point.publishStatus !== 'pending',
+                )
+              : undefined
+          const trackedKeyframeCount = trackedPoint ? getAnnotationKeyframes(trackedPoint).length : 0
           const activePoints = video.points.filter(
-            (point) => Math.abs(point.time - playback.currentTime) <= VISIBLE_POINT_WINDOW / 2,
+            (point) =>
+              point === trackedPoint ||
+              isAnnotationInView(point, playback.currentTime, documentViewport) ||
+              (openThread?.videoKey === video.key && openThread.pointId === point.id),
+          )
+          const editingRegion = activePoints.find(
+            (point) =>
+              point.shape &&
+              !point.keyframes &&
+              editingPoint?.videoKey === video.key &&
+              editingPoint.pointId === point.id &&
+              !point.isReadOnly &&
+              point.publishStatus !== 'pending',
           )
+          const draft = regionDraft?.videoKey === video.key ? regionDraft : null
+          const cursor = isAnnotationModeOn && gridCursor?.videoKey === video.key ? gridCursor : null
           const publicKey = publicKeysByVideoKey.get(video.key)
+          const keyPath = formatDerivationPath(video.derivationPath ?? DEFAULT_DERIVATION_PATH)
+          const keyPathDraft = keyPathDrafts[video.key]
+          const isKeyPathInvalid = keyPathDraft !== undefined && !parseDerivationPath(keyPathDraft)
+          const identityOptions = identityOptionsByVideoKey.get(video.key) ?? []
           const timelineMarkers = playback.duration
             ? video.points.map((point) => ({
-                id: point.id,
+                point,
                 left: (point.time / playback.duration) * 100,
-                isActive:
-                  Math.abs(point.time - playback.currentTime) <= VISIBLE_POINT_WINDOW / 2,
+                width:
+                  point.endTime === undefined
+                    ? undefined
+                    : ((Math.min(point.endTime, playback.duration) - point.time) / playback.duration) * 100,
+                isActive: isAnnotationInView(point, playback.currentTime, documentViewport),
+                isEditable: !point.isReadOnly && point.publishStatus !== 'pending',
               }))
             : []
+          const previousAnnotation = getAdjacentAnnotation(video.points, playback.currentTime, 'previous')
+          const nextAnnotation = getAdjacentAnnotation(video.points, playback.currentTime, 'next')
           const progressPercent = playback.duration
             ? Math.min(100, Math.max(0, (playback.currentTime / playback.duration) * 100))
             : 0
-          const documentScrollPercent =
-            video.kind === 'document' && playback.duration > 0
-              ? Math.min(
-                  Math.max(0, (playback.currentTime / playback.duration) * (DOCUMENT_IFRAME_HEIGHT_MULTIPLIER - 1) * 100),
-                  (DOCUMENT_IFRAME_HEIGHT_MULTIPLIER - 1) * 100,
-                )
-              : 0
+          const isLiveEdge = isAtLiveEdge(playback.currentTime, playback.duration)
+          const qualityOptions = getQualityOptions(qualityLevels[video.key] ?? [])
 
           return (
             <section
@@ -992,7 +2550,46 @@ function App() {
                       <span className="video-card__namespace">{video.namespace}</span>
                       {publicKey ? (
                         <div className="video-card__key">
-                          <span className="video-card__key-label">ED25519 Public Key</span>
+                          <form
+                            className="video-card__key-header"
+                            onSubmit={(event) => {
+                              event.preventDefault()
+                              commitKeyPathDraft(video.key)
+                            }}
+                          >
+                            <span className="video-card__key-label">ED25519 Public Key</span>
+                            <input
+                              className={
+                                isKeyPathInvalid
+                                  ? 'video-card__key-path video-card__key-path--error'
+                                  : 'video-card__key-path'
+                              }
+                              value={keyPathDraft ?? keyPath}
+                              list={`${video.key}-identities`}
+                              aria-label="Key derivation path (m/account/address)"
+                              aria-invalid={isKeyPathInvalid ? 'true' : 'false'}
+                              title="Derivation path as m/account/address"
+                              onChange={(event) =>
+                                setKeyPathDrafts((previous) => ({
+                                  ...previous,
+                                  [video.key]: event.target.value,
+                                }))
+                              }
+                              onBlur={() => commitKeyPathDraft(video.key)}
+                            />
+                            <datalist id={`${video.key}-identities`}>
+                              {identityOptions.map((option) => (
+                                <option key={option.path} value={option.path}>
+                                  {option.publicKey}
+                                </option>
+                              ))}
+                            </datalist>
+                          </form>
+                          {wallet ? null : (
+                            <span className="video-card__key-hint">
+                              Shared namespace key. Unlock your wallet to derive your own identity.
+                            </span>
+                          )}
                           <span className="video-card__public-key">{publicKey}</span>
                         </div>
                       ) : null}
@@ -1013,46 +2610,130 @@ function App() {
               </div>
 
               <div className="video-stage">
-                <div className="video-stage__frame" style={{ paddingTop: GRID_PADDING_PERCENT }}>
-                  {video.kind === 'video' ? (
+                <div className="video-stage__frame" style={{ paddingTop: getFramePadding(video.aspectRatio) }}>
+                  {video.localFile && !video.url ? (
+                    <p className="video-stage__player video-stage__missing-file">
+                      Drop {describeLocalFile(video.localFile)} onto the feed again to play it.
+                    </p>
+                  ) : youTubeId ? (
+                    <YouTube
+                      videoId={youTubeId}
+                      className="video-stage__player"
+                      iframeClassName="video-stage__embed"
+                      title={`YouTube video ${video.source}`}
+                      opts={YOUTUBE_PLAYER_OPTIONS}
+                      onReady={(event) => handleYouTubeReady(video.key, event.target)}
+                      onPlay={() => handlePlayingChange(video.key, true)}
+                      onPause={() => handlePlayingChange(video.key, false)}
+                      onEnd={() => handlePlayingChange(video.key, false)}
+                    />
+                  ) : vimeoId ? (
+                    <iframe
+                      ref={registerVimeoRef(video.key)}
+                      className="video-stage__player video-stage__embed"
+                      src={getVimeoEmbedUrl(vimeoId)}
+                      title={`Vimeo video ${video.source}`}
+                      allow="autoplay; fullscreen; picture-in-picture"
+                    />
+                  ) : video.kind === 'video' ? (
                     <video
                       ref={registerVideoRef(video.key)}
                       className="video-stage__player"
-                      src={video.url}
+                      src={isHlsTrack(video) ? undefined : video.url}
+                      onLoadedMetadata={(event) => handleMediaMetadata(video.key, event.currentTarget)}
+                      onPlay={() => handlePlayingChange(video.key, true)}
+                      onPause={() => handlePlayingChange(video.key, false)}
                       muted
                       loop
                       playsInline
                     />
                   ) : (
-                    <div className="video-stage__player video-stage__document-shell">
-                      <div
-                        className="video-stage__document-inner"
-                        style={{ transform: `translateY(-${documentScrollPercent}%)` }}
-                      >
-                        <iframe
-                          ref={registerDocumentRef(video.key)}
-                          className="video-stage__document-frame"
-                          src={video.url}
-                          title={`Document ${video.source}`}
-                          sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
-                          style={{ height: `${DOCUMENT_IFRAME_HEIGHT_MULTIPLIER * 100}%` }}
-                        />
-                      </div>
+                    <div
+                      ref={registerDocumentShellRef(video.key)}
+                      className="video-stage__player video-stage__document-shell"
+                      onScroll={() => handleDocumentScroll(video.key)}
+                    >
+                      <iframe
+                        ref={registerDocumentRef(video.key)}
+                        className="video-stage__document-frame"
+                        src={video.url}
+                        title={`Document ${video.source}`}
+                        sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
+                        onLoad={(event) => handleDocumentLoad(video.key, event.currentTarget)}
+                        style={{
+                          height: documentHeights[video.key]
+                            ? `${documentHeights[video.key]}px`
+                            : `${DOCUMENT_IFRAME_HEIGHT_MULTIPLIER * 100}%`,
+                        }}
+                      />
                     </div>
                   )}
                 </div>
                 <div
                   ref={registerOverlayRef(video.key)}
                   className="video-grid"
-                  style={gridTemplateStyle}
+                  style={getGridTemplateStyle(grid)}
                   data-active={activeVideoKey === video.key}
                   data-annotation-active={isAnnotationInteractionEnabled ? 'true' : 'false'}
                 >
-                  {gridCellsForVideo(video.key)}
+                  {gridCellsForVideo(video.key, grid)}
+                  {cursor ? (
+                    <div
+                      className="grid-cursor"
+                      style={{
+                        left: `${((cursor.column - 1) / grid.columns) * 100}%`,
+                        top: `${((cursor.row - 1) / grid.rows) * 100}%`,
+                        width: `${100 / grid.columns}%`,
+                        height: `${100 / grid.rows}%`,
+                      }}
+                      aria-hidden="true"
+                    />
+                  ) : null}
+                  <svg className="region-layer" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+                    {activePoints.map((point) => {
+                      if (!point.shape) {
+                        return null
+                      }
+
+                      const position = getPointPosition(point)
+                      const offsetX = position.xPercent - point.xPercent
+                      const offsetY = position.yPercent - point.yPercent
+                      return (
+                        <g key={point.id} transform={`translate(${offsetX} ${offsetY})`}>
+                          {renderShape(
+                            point.shape,
+                            point.id,
+                            point === editingRegion ? 'region-shape region-shape--editing' : 'region-shape',
+                          )}
+                        </g>
+                      )
+                    })}
+                    {draft?.tool === 'rectangle'
+                      ? renderShape(createCellRectangle(draft.start, draft.end, grid), 'draft', 'region-shape--draft')
+                      : null}
+                    {draft?.tool === 'polygon' ? (
+                      <polyline
+                        className="region-shape--draft"
+                        points={draft.vertices.map(({ xPercent, yPercent }) => `${xPercent},${yPercent}`).join(' ')}
+                      />
+                    ) : null}
+                  </svg>
+                  {isAnnotationInteractionEnabled && annotationTool !== 'point' && !trackedPoint ? (
+                    <div
+                      className="region-surface"
+                      onPointerDown={handleRegionPointerDown(video.key, grid)}
+                      onPointerMove={handleRegionPointerMove(video.key, grid)}
+                      onPointerUp={handleRegionPointerUp(video.key, grid)}
+                      onPointerCancel={cancelRegionDraft}
+                    />
+                  ) : null}
                   {activePoints.map((point) => {
                     const isEditing =
                       editingPoint?.videoKey === video.key && editingPoint.pointId === point.id
-                    const canEdit = !point.isReadOnly
+                    const isSelected =
+                      isAnnotationModeOn && selectedPoint?.videoKey === video.key && selectedPoint.pointId === point.id
+                    const canEdit = !point.isReadOnly && point.publishStatus !== 'pending'
+                    const position = getPointPosition(point)
 
                     const calloutContent = (
                       <div
@@ -1061,7 +2742,37 @@ function App() {
                         onPointerDownCapture={handleCalloutInteraction}
                       >
                         <div className="poi-callout__card">
-                          <span className="poi-callout__time">{formatTimecode(point.time)}</span>
+                          <span className="poi-callout__time">{formatTrackPosition(point, video.kind)}</span>
+                          {point.publishStatus ? (
+                            <span
+                              className={`poi-callout__status poi-callout__status--${point.publishStatus}`}
+                              title={point.publishError}
+                            >
+                              {PUBLISH_STATUS_LABELS[point.publishStatus]}
+                            </span>
+                          ) : null}
+                          {point.signatureStatus === 'invalid' ? (
+                            <span
+                              className="poi-callout__status poi-callout__status--invalid"
+                              title="The tag signature does not verify against the key that claims to have signed it."
+                            >
+                              Invalid signature
+                            </span>
+                          ) : point.signatureStatus === 'verified' && point.signer ? (
+                            <span
+                              className="poi-callout__status poi-callout__status--verified"
+                              title={`Signed by ${point.signer}, an owner this namespace lists.`}
+                            >
+                              Owner
+                            </span>
+                          ) : point.signatureStatus === 'signed' && point.signer ? (
+                            <span
+                              className="poi-callout__status poi-callout__status--signed"
+                              title={`Signed by ${point.signer}, not by an owner of the namespace.`}
+                            >
+                              Signed by {formatPublicKey(point.signer)}
+                            </span>
+                          ) : null}
                           <span
                             className="poi-callout__note"
                             dangerouslySetInnerHTML={{
@@ -1072,13 +2783,103 @@ function App() {
                       </div>
                     )
 
+                    const isThreadOpen = openThread?.videoKey === video.key && openThread.pointId === point.id
+                    const replies = point.replies ?? []
+                    const replyDraftKey = `${video.key}:${point.id}`
+                    const replyDraft = replyDrafts[replyDraftKey] ?? ''
+
+                    const threadContent = isThreadOpen ? (
+                      <div className="poi-thread" onClickCapture={handleCalloutInteraction}>
+                        {replies.length ? (
+                          <ol className="poi-thread__list">
+                            {replies.map((reply) => (
+                              <li
+                                key={reply.id}
+                                className="poi-thread__reply"
+                                style={{ marginLeft: `${(reply.depth - 1) * 0.75}rem` }}
+                              >
+                                <span
+                                  className="poi-thread__note"
+                                  dangerouslySetInnerHTML={{ __html: formatMemoHtml(reply.note) }}
+                                />
+                                {reply.publishStatus ? (
+                                  <span
+                                    className={`poi-callout__status poi-callout__status--${reply.publishStatus}`}
+                                    title={reply.publishError}
+                                  >
+                                    {PUBLISH_STATUS_LABELS[reply.publishStatus]}
+                                  </span>
+                                ) : null}
+                                {reply.signatureStatus === 'invalid' ? (
+                                  <span className="poi-callout__status poi-callout__status--invalid">
+                                    Invalid signature
+                                  </span>
+                                ) : reply.signatureStatus === 'verified' && reply.signer ? (
+                                  <span
+                                    className="poi-callout__status poi-callout__status--verified"
+                                    title={`Signed by ${reply.signer}, an owner this namespace lists.`}
+                                  >
+                                    Owner
+                                  </span>
+                                ) : reply.signatureStatus === 'signed' && reply.signer ? (
+                                  <span
+                                    className="poi-callout__status poi-callout__status--signed"
+                                    title={`Signed by ${reply.signer}, not by an owner of the namespace.`}
+                                  >
+                                    Signed by {formatPublicKey(reply.signer)}
+                                  </span>
+                                ) : null}
+                                {reply.publishStatus === 'failed' && video.namespace ? (
+                                  <button
+                                    type="button"
+                                    className="poi-thread__retry"
+                                    onMouseDown={(event) => event.preventDefault()}
+                                    onClick={() => retryReply(video.key, point.id, reply.id)}
+                                  >
+                                    Retry
+                                  </button>
+                                ) : null}
+                              </li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <p className="poi-thread__empty">No replies yet.</p>
+                        )}
+                        <form
+                          className="poi-thread__composer"
+                          onSubmit={(event) => {
+                            event.preventDefault()
+                            addReply(video.key, point.id)
+                          }}
+                        >
+                          <input
+                            type="text"
+                            className="poi-editor__input"
+                            value={replyDraft}
+                            placeholder="Write a reply"
+                            aria-label="Reply"
+                            onChange={(event) =>
+                              setReplyDrafts((previous) => ({
+                                ...previous,
+                                [replyDraftKey]: event.target.value,
+                              }))
+                            }
+                          />
+                          <button type="submit" className="poi-editor__publish" disabled={!replyDraft.trim()}>
+                            Reply
+                          </button>
+                        </form>
+                      </div>
+                    ) : null
+
                     return (
                       <div
                         key={point.id}
                         className={isEditing ? 'poi-marker poi-marker--editing' : 'poi-marker'}
+                        data-selected={isSelected ? 'true' : 'false'}
                         style={{
-                          left: `${point.xPercent}%`,
-                          top: `${point.yPercent}%`,
+                          left: `${position.xPercent}%`,
+                          top: `${position.yPercent}%`,
                         }}
                       >
                         {canEdit && isEditing ? (
@@ -1092,9 +2893,59 @@ function App() {
                               onChange={(event) =>
                                 updatePointNote(video.key, point.id, event.target.value)
                               }
-                              onBlur={() => stopEditingPoint(video.key, point.id)}
+                              onBlur={(event) => {
+                                const marker = event.currentTarget.closest('.poi-marker')
+                                if (!marker?.contains(event.relatedTarget as Node | null)) {
+                                  stopEditingPoint(video.key, point.id)
+                                }
+                              }}
                             />
+                            {point.publishStatus === 'failed' && point.publishError ? (
+                              <p className="poi-editor__error" role="alert">
+                                {point.publishError}
+                              </p>
+                            ) : null}
                             <div className="poi-editor__actions">
+                              {video.namespace ? (
+                                <button
+                                  type="button"
+                                  className="poi-editor__publish"
+                                  disabled={!point.note.trim()}
+                                  onMouseDown={(event) => event.preventDefault()}
+                                  onClick={() => {
+                                    stopEditingPoint(video.key, point.id)
+                                    publishPoint(video.key, point.id)
+                                  }}
+                                >
+                                  {point.publishStatus === 'failed' ? 'Retry publish' : 'Publish'}
+                                </button>
+                              ) : null}
+                              <button
+                                type="button"
+                                className="poi-editor__range"
+                                onMouseDown={(event) => event.preventDefault()}
+                                onClick={() =>
+                                  updatePointRange(
+                                    video.key,
+                                    point.id,
+                                    point.endTime === undefined
+                                      ? createDefaultRange(point.time, playback.duration)
+                                      : { time: point.time },
+                                  )
+                                }
+                              >
+                                {point.endTime === undefined ? 'Add end time' : 'Clear end time'}
+                              </button>
+                              {point === trackedPoint || video.kind === 'document' ? null : (
+                                <button
+                                  type="button"
+                                  className="poi-editor__range"
+                                  onMouseDown={(event) => event.preventDefault()}
+                                  onClick={() => startTrackingPoint(video.key, point.id)}
+                                >
+                                  Track motion
+                                </button>
+                              )}
                               <button
                                 type="button"
                                 className="poi-editor__remove"
@@ -1119,58 +2970,347 @@ function App() {
                         ) : (
                           <div className="poi-marker__content">{calloutContent}</div>
                         )}
+                        <button
+                          type="button"
+                          className="poi-thread__toggle"
+                          aria-expanded={isThreadOpen ? 'true' : 'false'}
+                          onMouseDown={(event) => event.preventDefault()}
+                          onClick={() => toggleThread(video.key, point.id)}
+                        >
+                          {isThreadOpen
+                            ? 'Hide thread'
+                            : replies.length
+                              ? `${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`
+                              : 'Reply'}
+                        </button>
+                        {threadContent}
                       </div>
                     )
                   })}
+                  {editingRegion?.shape
+                    ? getShapeVertices(editingRegion.shape).map((vertex, index) => (
+                        <span
+                          key={`handle-${index}`}
+                          className="region-handle"
+                          style={{ left: `${vertex.xPercent}%`, top: `${vertex.yPercent}%` }}
+                          onMouseDown={(event) => event.preventDefault()}
+                          onPointerDown={(event) => {
+                            event.preventDefault()
+                            event.currentTarget.setPointerCapture(event.pointerId)
+                          }}
+                          onPointerMove={(event) => {
+                            const target =
+                              event.currentTarget.hasPointerCapture(event.pointerId) &&
+                              getOverlayVertex(video.key, event)
+                            if (target && editingRegion.shape) {
+                              updatePointShape(
+                                video.key,
+                                editingRegion.id,
+                                moveShapeVertex(editingRegion.shape, index, target),
+                              )
+                            }
+                          }}
+                        />
+                      ))
+                    : null}
                 </div>
               </div>
 
               <div className="annotation-inline">
-                <button
-                  type="button"
-                  className={
-                    isAnnotationInteractionEnabled
-                      ? 'annotation-inline__button annotation-inline__button--active'
-                      : 'annotation-inline__button'
-                  }
-                  onClick={startAnnotationSession}
-                  aria-pressed={isAnnotationInteractionEnabled ? 'true' : 'false'}
-                >
-                  {isAnnotationInteractionEnabled ? 'Annotating for 5s' : 'Annotate'}
-                </button>
+                <div className="annotation-inline__mode">
+                  <button
+                    type="button"
+                    className={
+                      isAnnotationModeOn
+                        ? 'annotation-inline__button annotation-inline__button--active'
+                        : 'annotation-inline__button'
+                    }
+                    onClick={toggleAnnotationMode}
+                    aria-pressed={isAnnotationModeOn ? 'true' : 'false'}
+                  >
+                    {isAnnotationModeOn ? 'Stop annotating' : 'Annotate'}
+                  </button>
+                  {isAnnotationModeOn ? (
+                    <span className="annotation-mode" role="status">
+                      Annotation mode on
+                    </span>
+                  ) : null}
+                </div>
+                <div className="annotation-tools" role="group" aria-label="Annotation shape">
+                  {(Object.keys(ANNOTATION_TOOL_LABELS) as AnnotationTool[]).map((tool) => (
+                    <button
+                      key={tool}
+                      type="button"
+                      className={
+                        annotationTool === tool
+                          ? 'annotation-tools__button annotation-tools__button--active'
+                          : 'annotation-tools__button'
+                      }
+                      onClick={() => handleAnnotationToolChange(tool)}
+                      aria-pressed={annotationTool === tool ? 'true' : 'false'}
+                    >
+                      {ANNOTATION_TOOL_LABELS[tool]}
+                    </button>
+                  ))}
+                </div>
                 <span className="annotation-inline__note">
-                  Click or tap Annotate to enable tagging for 5 seconds without blocking playback controls. Continue
-                  editing a note to keep annotation inputs active.
+                  {isAnnotationModeOn
+                    ? 'Click a cell, or use the arrow keys to move the cursor and Enter to drop a point. Tab cycles ' +
+                      'through visible annotations, Delete removes the selected one and Esc leaves annotation mode.'
+                    : 'Annotate (or A) turns on tagging until you turn it off, without blocking playback controls.'}
                 </span>
+                {annotationTool === 'point' ? null : (
+                  <span className="annotation-inline__note">{REGION_TOOL_HINTS[annotationTool]}</span>
+                )}
+                {trackedPoint ? (
+                  <div className="tracking" role="status">
+                    <span className="annotation-inline__note">
+                      Tracking “{trackedPoint.note.trim() || 'untitled annotation'}”: {trackedKeyframeCount}{' '}
+                      {trackedKeyframeCount === 1 ? 'keyframe' : 'keyframes'}. Seek or play, then click the subject to
+                      add a keyframe at the current time.
+                    </span>
+                    <div className="tracking__actions">
+                      <button
+                        type="button"
+                        className="button"
+                        onClick={() => clearPointKeyframes(video.key, trackedPoint.id)}
+                        disabled={!trackedPoint.keyframes}
+                      >
+                        Clear keyframes
+                      </button>
+                      <button type="button" className="button" onClick={() => setTrackingPoint(null)}>
+                        Done
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+
+              <div className="grid-settings">
+                <span className="grid-settings__label">Grid</span>
+                <input
+                  type="number"
+                  min={MIN_GRID_DIMENSION}
+                  max={MAX_GRID_DIMENSION}
+                  value={grid.columns}
+                  onChange={handleTrackGridChange(video.key, 'columns')}
+                  className="field__input grid-settings__input"
+                  aria-label="Grid columns"
+                />
+                <span aria-hidden="true">×</span>
+                <input
+                  type="number"
+                  min={MIN_GRID_DIMENSION}
+                  max={MAX_GRID_DIMENSION}
+                  value={grid.rows}
+                  onChange={handleTrackGridChange(video.key, 'rows')}
+                  className="field__input grid-settings__input"
+                  aria-label="Grid rows"
+                />
+                <span className="grid-settings__hint">columns × rows</span>
               </div>
 
+              {video.kind === 'video' ? (
+                <div className="playback-controls" role="group" aria-label="Playback">
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => stepTrackFrame(video.key, -1)}
+                    title="Previous frame (,)"
+                  >
+                    ‹ Frame
+                  </button>
+                  <button type="button" className="button primary" onClick={() => togglePlayback(video.key)}>
+                    {playingKeys[video.key] ? 'Pause' : 'Play'}
+                  </button>
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => stepTrackFrame(video.key, 1)}
+                    title="Next frame (.)"
+                  >
+                    Frame ›
+                  </button>
+                  <label className="playback-controls__rate">
+                    <span>Speed</span>
+                    <select
+                      value={playbackRates[video.key] ?? DEFAULT_PLAYBACK_RATE}
+                      onChange={handlePlaybackRateChange(video.key)}
+                      className="field__input"
+                    >
+                      {PLAYBACK_RATES.map((rate) => (
+                        <option key={rate} value={rate}>
+                          {formatPlaybackRate(rate)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {qualityOptions.length > 1 ? (
+                    <label className="playback-controls__quality">
+                      <span>Quality</span>
+                      <select
+                        value={selectedQualities[video.key] ?? AUTO_QUALITY_LEVEL}
+                        onChange={handleQualityChange(video.key)}
+                        className="field__input"
+                      >
+                        <option value={AUTO_QUALITY_LEVEL}>Auto</option>
+                        {qualityOptions.map(({ index, label }) => (
+                          <option key={index} value={index}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : null}
+                  {playback.isLive ? (
+                    <button
+                      type="button"
+                      className="button"
+                      onClick={() => seekTrack(video.key, playback.duration)}
+                      disabled={isLiveEdge}
+                    >
+                      Go live
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
+
               {playback.duration > 0 ? (
-                <div className="timeline" aria-hidden="true">
-                  <div className="timeline__track">
+                <div className="timeline">
+                  <div
+                    className="timeline__track"
+                    role="slider"
+                    tabIndex={0}
+                    aria-label="Seek"
+                    aria-valuemin={0}
+                    aria-valuemax={Math.round(playback.duration)}
+                    aria-valuenow={Math.round(playback.currentTime)}
+                    aria-valuetext={`${formatTimecode(playback.currentTime)} of ${formatTimecode(playback.duration)}`}
+                    onPointerDown={handleTimelinePointerDown(video.key, playback.duration)}
+                    onPointerMove={handleTimelinePointerMove(video.key, playback.duration)}
+                    onKeyDown={handleTimelineKeyDown(video.key, playback.currentTime, playback.duration)}
+                  >
                     <div
                       className="timeline__progress"
                       style={{ width: `${progressPercent}%` }}
+                      aria-hidden="true"
                     />
-                    {timelineMarkers.map((marker) => (
+                    {timelineMarkers.map((marker) =>
+                      marker.width === undefined ? (
+                        <button
+                          key={marker.point.id}
+                          type="button"
+                          className={
+                            marker.isActive
+                              ? 'timeline__marker timeline__marker--active'
+                              : 'timeline__marker'
+                          }
+                          style={{ left: `${marker.left}%` }}
+                          title={formatTrackPosition(marker.point, video.kind)}
+                          aria-label={`Jump to annotation at ${formatTrackPosition(marker.point, video.kind)}`}
+                          onPointerDown={(event) => event.stopPropagation()}
+                          onClick={() => jumpToAnnotation(video.key, marker.point.id)}
+                        />
+                      ) : (
+                        <div
+                          key={marker.point.id}
+                          className={
+                            marker.isActive
+                              ? 'timeline__segment timeline__segment--active'
+                              : 'timeline__segment'
+                          }
+                          style={{ left: `${marker.left}%`, width: `${marker.width}%` }}
+                          title={formatTrackPosition(marker.point, video.kind)}
+                          onPointerDown={handleTimelineSegmentPointerDown(
+                            video.key,
+                            marker.point,
+                            playback.duration,
+                            marker.isEditable,
+                          )}
+                          onPointerMove={handleTimelineSegmentPointerMove}
+                          onPointerUp={handleTimelineSegmentPointerUp}
+                          onPointerCancel={handleTimelineSegmentPointerCancel}
+                        >
+                          {marker.isEditable ? (
+                            <>
+                              <span className="timeline__edge timeline__edge--start" data-part="start" />
+                              <span className="timeline__edge timeline__edge--end" data-part="end" />
+                            </>
+                          ) : null}
+                        </div>
+                      ),
+                    )}
+                    {trackedPoint?.keyframes?.map((keyframe) => (
                       <div
-                        key={marker.id}
-                        className={
-                          marker.isActive
-                            ? 'timeline__marker timeline__marker--active'
-                            : 'timeline__marker'
-                        }
-                        style={{ left: `${marker.left}%` }}
+                        key={keyframe.time}
+                        className="timeline__keyframe"
+                        style={{ left: `${(keyframe.time / playback.duration) * 100}%` }}
+                        aria-hidden="true"
                       />
                     ))}
                   </div>
+                  <div className="timeline__controls">
+                    <button
+                      type="button"
+                      className="button"
+                      onClick={() => jumpToAdjacentAnnotation(video.key, 'previous')}
+                      disabled={!previousAnnotation}
+                    >
+                      Previous annotation
+                    </button>
+                    <span className="timeline__time">
+                      {video.kind === 'document'
+                        ? `${formatPagePosition({ time: playback.currentTime })} down the page`
+                        : playback.isLive
+                          ? isLiveEdge
+                            ? `${formatTimecode(playback.currentTime)} · Live`
+                            : `${formatTimecode(playback.duration - playback.currentTime)} behind live`
+                          : `${formatTimecode(playback.currentTime)} / ${formatTimecode(playback.duration)}`}
+                    </span>
+                    <button
+                      type="button"
+                      className="button"
+                      onClick={() => jumpToAdjacentAnnotation(video.key, 'next')}
+                      disabled={!nextAnnotation}
+                    >
+                      Next annotation
+                    </button>
+                  </div>
+                  <p className="timeline__hint">
+                    Click or drag the timeline to seek. Shortcuts: ← / → skip {SEEK_STEP} seconds, [ / ] jump to the
+                    previous / next annotation, , / . step a frame, K plays or pauses.
+                  </p>
                 </div>
               ) : null}
 
+              <AnnotationTransfer
+                track={video}
+                grid={grid}
+                onImport={(points) => importPoints(video.key, points)}
+              />
             </section>
           )
         })}
       </div>
 
+      <AnnotationList
+        track={videos.find((video) => video.key === activeVideoKey)}
+        currentTime={activeVideoKey ? (playbackStates[activeVideoKey]?.currentTime ?? 0) : 0}
+        documentViewport={activeVideoKey ? documentViewports[activeVideoKey] : undefined}
+        isOpen={isAnnotationListOpen}
+        onClose={() => setIsAnnotationListOpen(false)}
+        onSelect={(pointId) => activeVideoKey && jumpToAnnotation(activeVideoKey, pointId)}
+      />
+
+      <button
+        type="button"
+        className="annotation-list-toggle"
+        onClick={() => setIsAnnotationListOpen((previous) => !previous)}
+        aria-expanded={isAnnotationListOpen ? 'true' : 'false'}
+      >
+        {isAnnotationListOpen ? 'Hide annotations' : 'Annotations'}
+      </button>
+
       <button
         type="button"
         className="drawer-toggle"
@@ -1191,8 +3331,38 @@ function App() {
             </button>
           </header>
 
+          <WalletSettings wallet={wallet} onWalletChange={setWallet} />
+
+          <WorkspaceSettings
+            workspaces={workspaces}
+            activeWorkspaceId={activeWorkspace?.id ?? null}
+            isBusy={isWorkspaceBusy}
+            error={workspaceError}
+            onSwitch={handleSwitchWorkspace}
+            onCreate={handleCreateWorkspace}
+            onDelete={handleDeleteWorkspace}
+          />
+
           <section className="drawer__section">
             <h3>WebSocket</h3>
+            {connectionState ? (
+              <div
+                className={`connection-status connection-status--${connectionState.status}`}
+                role="status"
+                aria-live="polite"
+              >
+                <span className="connection-status__indicator" aria-hidden="true" />
+                <span className="connection-status__label">
+                  {CONNECTION_STATUS_LABELS[connectionState.status]}
+                  {connectionState.status === 'reconnecting' && connectionState.retryAt
+                    ? ` at ${new Date(connectionState.retryAt).toLocaleTimeString()} (attempt ${connectionState.attempt})`
+                    : null}
+                </span>
+                {connectionState.error && connectionState.status !== 'open' ? (
+                  <span className="connection-status__detail">{connectionState.error}</span>
+                ) : null}
+              </div>
+            ) : null}
             <form className="drawer__form" onSubmit={handleSocketSubmit}>
               <label className="field">
                 <span className="field__label">Graph WebSocket URL</span>
@@ -1236,20 +3406,30 @@ function App() {
                 Add to feed
               </button>
             </form>
+            <label className="field">
+              <span className="field__label">Local files</span>
+              <input
+                type="file"
+                multiple
+                accept={LOCAL_FILE_ACCEPT}
+                onChange={handleFileInputChange}
+                className="field__input"
+              />
+            </label>
+            <p className="drawer__hint">Or drop video files, images and PDFs onto the feed.</p>
           </section>
 
           <section className="drawer__section">
-            <h3>Grid size</h3>
+            <h3>Default grid</h3>
             <div className="drawer__grid-controls">
               <label className="field compact">
                 <span className="field__label">Rows</span>
                 <input
                   type="number"
-                  min={GRID_ASPECT_HEIGHT * MIN_GRID_SCALE}
-                  max={GRID_ASPECT_HEIGHT * MAX_GRID_SCALE}
-                  step={GRID_ASPECT_HEIGHT}
-                  value={rows}
-                  onChange={handleRowsChange}
+                  min={MIN_GRID_DIMENSION}
+                  max={MAX_GRID_DIMENSION}
+                  value={defaultGrid.rows}
+                  onChange={handleDefaultGridChange('rows')}
                   className="field__input"
                 />
               </label>
@@ -1257,15 +3437,15 @@ function App() {
                 <span className="field__label">Columns</span>
                 <input
                   type="number"
-                  min={GRID_ASPECT_WIDTH * MIN_GRID_SCALE}
-                  max={GRID_ASPECT_WIDTH * MAX_GRID_SCALE}
-                  step={GRID_ASPECT_WIDTH}
-                  value={columns}
-                  onChange={handleColumnsChange}
+                  min={MIN_GRID_DIMENSION}
+                  max={MAX_GRID_DIMENSION}
+                  value={defaultGrid.columns}
+                  onChange={handleDefaultGridChange('columns')}
                   className="field__input"
                 />
               </label>
             </div>
+            <p className="workspace__hint">Used for tracks you add. Each card has its own grid controls.</p>
           </section>
 
           <section className="drawer__section">
@@ -1275,6 +3455,15 @@ function App() {
                 {videos.map((video) => (
                   <li key={video.key} className="drawer__video-item">
                     <span className="drawer__video-label">{video.source}</span>
+                    <select
+                      value={video.kind}
+                      onChange={handleTrackKindChange(video.key)}
+                      className="field__input drawer__video-kind"
+                      aria-label={`Play ${video.source} as`}
+                    >
+                      <option value="video">Video</option>
+                      <option value="document">Document</option>
+                    </select>
                     <button
                       type="button"
                       className="button button--danger"
@@ -0,0 +1,283 @@
+import { useCallback, useMemo, useState } from 'react'
+import {
+  clearWalletCache,
+  createWalletMnemonic,
+  deriveWalletPublicKey,
+  isValidMnemonic,
+  normalizeMnemonic,
+} from './hdWallet'
+import type { Wallet } from './hdWallet'
+import { clearStoredWallet, hasStoredWallet, loadWallet, saveWallet } from './walletStorage'
+
+type WalletSettingsProps = {
+  wallet: Wallet | null
+  onWalletChange: (wallet: Wallet | null) => void
+}
+
+type SetupMode = 'create' | 'import'
+
+const describeError = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback
+
+function WalletSettings({ wallet, onWalletChange }: WalletSettingsProps) {
+  const [isStored, setIsStored] = useState(() => hasStoredWallet())
+  const [setupMode, setSetupMode] = useState<SetupMode>('create')
+  const [password, setPassword] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [phraseInput, setPhraseInput] = useState('')
+  const [isPhraseVisible, setIsPhraseVisible] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const walletPublicKey = useMemo(() => (wallet ? deriveWalletPublicKey(wallet) : null), [wallet])
+
+  const resetInputs = useCallback(() => {
+    setPassword('')
+    setPassphrase('')
+    setPhraseInput('')
+    setError(null)
+  }, [])
+
+  const handleSetup = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>) => {
+      event.preventDefault()
+
+      if (setupMode === 'import' && !isValidMnemonic(phraseInput)) {
+        setError('Enter a valid BIP39 recovery phrase.')
+        return
+      }
+
+      const nextWallet: Wallet = {
+        mnemonic: setupMode === 'import' ? normalizeMnemonic(phraseInput) : createWalletMnemonic(),
+        passphrase,
+      }
+
+      setIsBusy(true)
+      try {
+        await saveWallet(nextWallet, password)
+        setIsStored(true)
+        setIsPhraseVisible(setupMode === 'create')
+        resetInputs()
+        onWalletChange(nextWallet)
+      } catch (saveError) {
+        setError(describeError(saveError, 'Unable to save the wallet.'))
+      } finally {
+        setIsBusy(false)
+      }
+    },
+    [onWalletChange, passphrase, password, phraseInput, resetInputs, setupMode],
+  )
+
+  const handleUnlock = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>) => {
+      event.preventDefault()
+
+      setIsBusy(true)
+      try {
+        const unlockedWallet = await loadWallet(password, passphrase)
+        resetInputs()
+        onWalletChange(unlockedWallet)
+      } catch (unlockError) {
+        setError(describeError(unlockError, 'Unable to unlock the wallet.'))
+      } finally {
+        setIsBusy(false)
+      }
+    },
+    [onWalletChange, passphrase, password, resetInputs],
+  )
+
+  const handleLock = useCallback(() => {
+    setIsPhraseVisible(false)
+    resetInputs()
+    clearWalletCache()
+    onWalletChange(null)
+  }, [onWalletChange, resetInputs])
+
+  const handleForget = useCallback(() => {
+    if (!window.confirm('Remove the saved wallet from this browser? Make sure the recovery phrase is backed up.')) {
+      return
+    }
+
+    clearStoredWallet()
+    setIsStored(false)
+    setIsPhraseVisible(false)
+    resetInputs()
+    clearWalletCache()
+    onWalletChange(null)
+  }, [onWalletChange, resetInputs])
+
+  const handleCopyPhrase = useCallback(() => {
+    if (!wallet) {
+      return
+    }
+
+    navigator.clipboard?.writeText(wallet.mnemonic).catch(() => {
+      setError('Unable to copy the recovery phrase. Select and copy it manually.')
+    })
+  }, [wallet])
+
+  if (wallet) {
+    return (
+      <section className="drawer__section">
+        <h3>Wallet</h3>
+        <div className="wallet">
+          <span className="wallet__label">Wallet public key</span>
+          <span className="wallet__public-key">{walletPublicKey}</span>
+          {wallet.passphrase ? <span className="wallet__hint">Protected with a BIP39 passphrase.</span> : null}
+        </div>
+        {isPhraseVisible ? (
+          <>
+            <p className="wallet__phrase">{wallet.mnemonic}</p>
+            <p className="wallet__hint">
+              Anyone with this phrase{wallet.passphrase ? ' and your passphrase' : ''} can sign as you. Store it
+              offline.
+            </p>
+          </>
+        ) : null}
+        {error ? (
+          <p className="field__error" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className="wallet__actions">
+          <button type="button" className="button" onClick={() => setIsPhraseVisible((previous) => !previous)}>
+            {isPhraseVisible ? 'Hide recovery phrase' : 'Export recovery phrase'}
+          </button>
+          {isPhraseVisible ? (
+            <button type="button" className="button" onClick={handleCopyPhrase}>
+              Copy phrase
+            </button>
+          ) : null}
+          <button type="button" className="button" onClick={handleLock}>
+            Lock
+          </button>
+          <button type="button" className="button button--danger" onClick={handleForget}>
+            Forget
+          </button>
+        </div>
+      </section>
+    )
+  }
+
+  if (isStored) {
+    return (
+      <section className="drawer__section">
+        <h3>Wallet</h3>
+        <form className="drawer__form" onSubmit={handleUnlock}>
+          <label className="field">
+            <span className="field__label">Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              className={error ? 'field__input field__input--error' : 'field__input'}
+            />
+          </label>
+          <label className="field">
+            <span className="field__label">BIP39 passphrase (if set)</span>
+            <input
+              type="password"
+              autoComplete="off"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              className="field__input"
+            />
+          </label>
+          {error ? (
+            <p className="field__error" role="alert">
+              {error}
+            </p>
+          ) : null}
+          <button type="submit" className="button primary" disabled={isBusy || !password}>
+            {isBusy ? 'Unlocking…' : 'Unlock wallet'}
+          </button>
+          <button type="button" className="button button--danger" onClick={handleForget}>
+            Forget saved wallet
+          </button>
+        </form>
+      </section>
+    )
+  }
+
+  return (
+    <section className="drawer__section">
+      <h3>Wallet</h3>
+      <p className="wallet__hint">
+        Namespace keys are derived from your wallet. Create one or import an existing recovery phrase to sign
+        annotations.
+      </p>
+      <div className="wallet__actions" role="tablist">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={setupMode === 'create' ? 'true' : 'false'}
+          className={setupMode === 'create' ? 'button primary' : 'button'}
+          onClick={() => {
+            setSetupMode('create')
+            setError(null)
+          }}
+        >
+          Create new
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={setupMode === 'import' ? 'true' : 'false'}
+          className={setupMode === 'import' ? 'button primary' : 'button'}
+          onClick={() => {
+            setSetupMode('import')
+            setError(null)
+          }}
+        >
+          Import phrase
+        </button>
+      </div>
+      <form className="drawer__form" onSubmit={handleSetup}>
+        {setupMode === 'import' ? (
+          <label className="field">
+            <span className="field__label">Recovery phrase</span>
+            <textarea
+              value={phraseInput}
+              onChange={(event) => setPhraseInput(event.target.value)}
+              rows={3}
+              autoComplete="off"
+              spellCheck={false}
+              className={error ? 'field__input field__input--error' : 'field__input'}
+            />
+          </label>
+        ) : null}
+        <label className="field">
+          <span className="field__label">BIP39 passphrase (optional)</span>
+          <input
+            type="password"
+            autoComplete="off"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            className="field__input"
+          />
+        </label>
+        <label className="field">
+          <span className="field__label">Encryption password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="field__input"
+          />
+        </label>
+        {error ? (
+          <p className="field__error" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <button type="submit" className="button primary" disabled={isBusy || !password}>
+          {isBusy ? 'Saving…' : setupMode === 'import' ? 'Import wallet' : 'Create wallet'}
+        </button>
+      </form>
+    </section>
+  )
+}
+
+export default WalletSettings
@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import type { WorkspaceSummary } from './workspaceStorage'
+
+type WorkspaceSettingsProps = {
+  workspaces: WorkspaceSummary[]
+  activeWorkspaceId: string | null
+  isBusy: boolean
+  error: string | null
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onDelete: (id: string) => void
+}
+
+function WorkspaceSettings({
+  workspaces,
+  activeWorkspaceId,
+  isBusy,
+  error,
+  onSwitch,
+  onCreate,
+  onDelete,
+}: WorkspaceSettingsProps) {
+  const [nameInput, setNameInput] = useState('')
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId)
+
+  const handleCreate = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!nameInput.trim()) {
+      return
+    }
+
+    onCreate(nameInput)
+    setNameInput('')
+  }
+
+  const handleDelete = () => {
+    if (!activeWorkspace || !window.confirm(`Delete the workspace "${activeWorkspace.name}" and its saved feed?`)) {
+      return
+    }
+
+    onDelete(activeWorkspace.id)
+  }
+
+  return (
+    <section className="drawer__section">
+      <h3>Workspace</h3>
+      {workspaces.length ? (
+        <div className="workspace__row">
+          <label className="field">
+            <span className="field__label">Current workspace</span>
+            <select
+              value={activeWorkspaceId ?? ''}
+              onChange={(event) => onSwitch(event.target.value)}
+              disabled={isBusy}
+              className="field__input"
+            >
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="button button--danger"
+            onClick={handleDelete}
+            disabled={isBusy || workspaces.length < 2}
+          >
+            Delete
+          </button>
+        </div>
+      ) : null}
+      <form className="drawer__form" onSubmit={handleCreate}>
+        <label className="field">
+          <span className="field__label">New workspace</span>
+          <input
+            value={nameInput}
+            onChange={(event) => setNameInput(event.target.value)}
+            placeholder="Team review"
+            className="field__input"
+          />
+        </label>
+        <button type="submit" className="button" disabled={isBusy || !nameInput.trim()}>
+          Create workspace
+        </button>
+      </form>
+      {error ? (
+        <p className="field__error" role="alert">
+          {error}
+        </p>
+      ) : (
+        <p className="workspace__hint">The feed, local annotations and settings are saved in this browser.</p>
+      )}
+    </section>
+  )
+}
+
+export default WorkspaceSettings
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EMPTY_ANNOTATION_FILTERS,
+  filterAnnotations,
+  getFilterInputErrors,
+  parseCellRegion,
+} from './annotationFilters'
+import type { AnnotationFilters } from './annotationFilters'
+import { createPoint } from './testFixtures'
+
+const POINTS = [
+  createPoint({ id: 'local', note: 'Goal from the left' }),
+  createPoint({ id: 'range', time: 30, endTime: 50, row: 8, column: 5, note: 'Build-up' }),
+  createPoint({
+    id: 'tag',
+    time: 70,
+    row: 12,
+    column: 7,
+    note: 'Offside?',
+    isReadOnly: true,
+    replies: [{ id: 'reply', parentId: 'tag', depth: 1, note: 'Clearly onside' }],
+  }),
+]
+
+const filter = (overrides: Partial<AnnotationFilters>) =>
+  filterAnnotations(POINTS, { ...EMPTY_ANNOTATION_FILTERS, ...overrides }).map((point) => point.id)
+
+describe('parseCellRegion', () => {
+  it('reads a cell or a block between two corners in either order', () => {
+    expect(parseCellRegion('2x3')).toEqual({ fromColumn: 2, toColumn: 2, fromRow: 3, toRow: 3 })
+    expect(parseCellRegion(' 5x8 - 2x3 ')).toEqual({ fromColumn: 2, toColumn: 5, fromRow: 3, toRow: 8 })
+  })
+
+  it('rejects anything else', () => {
+    expect(parseCellRegion('2,3')).toBeNull()
+    expect(parseCellRegion('2x')).toBeNull()
+  })
+})
+
+describe('filterAnnotations', () => {
+  it('keeps everything without filters', () => {
+    expect(filter({})).toEqual(['local', 'range', 'tag'])
+  })
+
+  it('searches notes and replies ignoring case', () => {
+    expect(filter({ query: 'GOAL' })).toEqual(['local'])
+    expect(filter({ query: 'onside' })).toEqual(['tag'])
+  })
+
+  it('keeps annotations whose time or range overlaps the window', () => {
+    expect(filter({ from: '0:40', to: '1:00' })).toEqual(['range'])
+    expect(filter({ from: '60' })).toEqual(['tag'])
+    expect(filter({ to: '0:10.000' })).toEqual(['local'])
+  })
+
+  it('keeps annotations anchored inside the cell region', () => {
+    expect(filter({ cells: '1x1-5x8' })).toEqual(['local', 'range'])
+  })
+
+  it('filters by source', () => {
+    expect(filter({ source: 'graph' })).toEqual(['tag'])
+    expect(filter({ source: 'local' })).toEqual(['local', 'range'])
+  })
+
+  it('ignores fields that cannot be read and reports them', () => {
+    const filters = { ...EMPTY_ANNOTATION_FILTERS, from: 'soon', cells: 'left' }
+
+    expect(filterAnnotations(POINTS, filters)).toHaveLength(3)
+    expect(getFilterInputErrors(filters)).toEqual({ from: true, cells: true })
+  })
+})
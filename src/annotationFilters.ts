@@ -0,0 +1,96 @@
+import { parseTimecode } from './format'
+import type { PointOfInterest } from './types'
+
+export type AnnotationSource = 'local' | 'graph'
+
+/** Form values of the annotation list filters, kept as typed so invalid input can be shown. */
+export type AnnotationFilters = {
+  query: string
+  from: string
+  to: string
+  cells: string
+  source: AnnotationSource | 'all'
+}
+
+/** Inclusive bounds of a block of cells. */
+export type CellRegion = {
+  fromColumn: number
+  toColumn: number
+  fromRow: number
+  toRow: number
+}
+
+export const EMPTY_ANNOTATION_FILTERS: AnnotationFilters = { query: '', from: '', to: '', cells: '', source: 'all' }
+
+const CELL_REGION_PATTERN = /^(\d+)x(\d+)(?:\s*-\s*(\d+)x(\d+))?$/
+
+/** Tags read from the graph, including ones published from here, are read-only; everything else is local. */
+export const getAnnotationSource = (point: PointOfInterest): AnnotationSource =>
+  point.isReadOnly ? 'graph' : 'local'
+
+/**
+ * Reads a cell (`<column>x<row>`, as in tag pubkeys) or a block between two
+ * corner cells (`2x3-5x8`). Returns null for anything else.
+ */
+export const parseCellRegion = (value: string): CellRegion | null => {
+  const match = value.trim().match(CELL_REGION_PATTERN)
+  if (!match) {
+    return null
+  }
+
+  const [, startColumn, startRow, endColumn = startColumn, endRow = startRow] = match
+
+  const columns = [Number(startColumn), Number(endColumn)]
+  const rows = [Number(startRow), Number(endRow)]
+  return {
+    fromColumn: Math.min(...columns),
+    toColumn: Math.max(...columns),
+    fromRow: Math.min(...rows),
+    toRow: Math.max(...rows),
+  }
+}
+
+export type FilterInputErrors = Partial<Record<'from' | 'to' | 'cells', true>>
+
+/** Filter fields that have text but cannot be read; they are ignored until fixed. */
+export const getFilterInputErrors = (filters: AnnotationFilters): FilterInputErrors => ({
+  ...(filters.from.trim() && parseTimecode(filters.from) === null ? { from: true } : {}),
+  ...(filters.to.trim() && parseTimecode(filters.to) === null ? { to: true } : {}),
+  ...(filters.cells.trim() && !parseCellRegion(filters.cells) ? { cells: true } : {}),
+})
+
+/**
+ * Keeps annotations whose note or replies contain the query (ignoring case),
+ * whose time or range overlaps the `from`–`to` window, whose anchor cell lies
+ * in the cell region and whose source matches.
+ */
+export const filterAnnotations = (points: PointOfInterest[], filters: AnnotationFilters): PointOfInterest[] => {
+  const query = filters.query.trim().toLocaleLowerCase()
+  const from = filters.from.trim() ? parseTimecode(filters.from) : null
+  const to = filters.to.trim() ? parseTimecode(filters.to) : null
+  const region = filters.cells.trim() ? parseCellRegion(filters.cells) : null
+
+  return points.filter((point) => {
+    const texts = [point.note, ...(point.replies ?? []).map((reply) => reply.note)]
+    if (query && !texts.some((text) => text.toLocaleLowerCase().includes(query))) {
+      return false
+    }
+    if (from !== null && (point.endTime ?? point.time) < from) {
+      return false
+    }
+    if (to !== null && point.time > to) {
+      return false
+    }
+    if (
+      region &&
+      (point.column < region.fromColumn ||
+        point.column > region.toColumn ||
+        point.row < region.fromRow ||
+        point.row > region.toRow)
+    ) {
+      return false
+    }
+
+    return filters.source === 'all' || getAnnotationSource(point) === filters.source
+  })
+}
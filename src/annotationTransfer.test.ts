@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest'
+import {
+  exportAnnotationsCsv,
+  exportAnnotationsJson,
+  exportAnnotationsVtt,
+  mergeImportedPoints,
+  parseAnnotationFile,
+} from './annotationTransfer'
+import { createMediaTrack } from './media'
+import { createPoint } from './testFixtures'
+import type { MediaTrack, PointOfInterest } from './types'
+
+const GRID = { rows: 16, columns: 9 }
+
+const createTrack = (points: PointOfInterest[]): MediaTrack => ({
+  ...createMediaTrack('https://example.com/a.mp4', 'a', 'video', 'feed'),
+  points,
+})
+
+const TRACK = createTrack([
+  createPoint({
+    id: 'b',
+    time: 65.25,
+    row: 10,
+    column: 7,
+    xPercent: 72.5,
+    yPercent: 61,
+    note: 'say "hi", then\nleave',
+  }),
+  createPoint({ id: 'a' }),
+])
+
+let nextId = 0
+const createId = () => `imported-${(nextId += 1)}`
+
+describe('exportAnnotationsCsv', () => {
+  it('writes a header and quotes fields with commas, quotes or newlines', () => {
+    expect(exportAnnotationsCsv(TRACK)).toBe(
+      'time,endTime,row,column,xPercent,yPercent,note,shape,keyframes\r\n' +
+        '1.5,,3,2,20,15,note,,\r\n' +
+        '65.25,,10,7,72.5,61,"say ""hi"", then\nleave",,\r\n',
+    )
+  })
+})
+
+describe('exportAnnotationsVtt', () => {
+  it('writes positioned cues with the grid cell', () => {
+    expect(exportAnnotationsVtt(TRACK)).toBe(
+      'WEBVTT\n\n' +
+        '1\n00:00:01.500 --> 00:00:03.500 position:20.00% line:15.00%\nCell 2x3\nnote\n\n' +
+        '2\n00:01:05.250 --> 00:01:07.250 position:72.50% line:61.00%\nCell 7x10\nsay "hi", then\nleave\n',
+    )
+  })
+})
+
+describe('parseAnnotationFile', () => {
+  const expected = [
+    { time: 1.5, row: 3, column: 2, xPercent: 20, yPercent: 15, note: 'note' },
+    { time: 65.25, row: 10, column: 7, xPercent: 72.5, yPercent: 61, note: 'say "hi", then\nleave' },
+  ]
+
+  it.each([
+    ['a.json', exportAnnotationsJson(TRACK)],
+    ['a.csv', exportAnnotationsCsv(TRACK)],
+    ['a.vtt', exportAnnotationsVtt(TRACK)],
+    ['clipboard.txt', exportAnnotationsJson(TRACK)],
+    ['clipboard.txt', exportAnnotationsVtt(TRACK)],
+  ])('round-trips %s exports', (fileName, text) => {
+    expect(parseAnnotationFile(fileName, text)).toEqual({ points: expected, errors: [] })
+  })
+
+  it.each(['json', 'csv', 'vtt'] as const)('round-trips regions through %s exports', (format) => {
+    const vertices = [
+      { xPercent: 10, yPercent: 10 },
+      { xPercent: 30, yPercent: 10 },
+      { xPercent: 20, yPercent: 40 },
+    ]
+    const shape = { type: 'polygon' as const, vertices }
+    const track = createTrack([createPoint({ xPercent: 20, yPercent: 25, shape })])
+    const exporters = { json: exportAnnotationsJson, csv: exportAnnotationsCsv, vtt: exportAnnotationsVtt }
+    const text = exporters[format](track)
+
+    expect(parseAnnotationFile(`a.${format}`, text).points).toEqual([expect.objectContaining({ note: 'note', shape })])
+  })
+
+  it.each(['json', 'csv', 'vtt'] as const)('round-trips time ranges through %s exports', (format) => {
+    const track = createTrack([createPoint({ time: 4, endTime: 9.5 })])
+    const exporters = { json: exportAnnotationsJson, csv: exportAnnotationsCsv, vtt: exportAnnotationsVtt }
+
+    expect(parseAnnotationFile(`a.${format}`, exporters[format](track)).points).toEqual([
+      expect.objectContaining({ time: 4, endTime: 9.5, note: 'note' }),
+    ])
+  })
+
+  it.each(['json', 'csv', 'vtt'] as const)('round-trips keyframes through %s exports', (format) => {
+    const keyframes = [
+      { time: 4, xPercent: 20, yPercent: 15 },
+      { time: 6.5, xPercent: 60, yPercent: 40 },
+    ]
+    const track = createTrack([createPoint({ time: 4, endTime: 6.5, keyframes })])
+    const exporters = { json: exportAnnotationsJson, csv: exportAnnotationsCsv, vtt: exportAnnotationsVtt }
+
+    expect(parseAnnotationFile(`a.${format}`, exporters[format](track)).points).toEqual([
+      expect.objectContaining({ time: 4, endTime: 6.5, note: 'note', keyframes }),
+    ])
+  })
+
+  it.each(['Range', 'Shape rect/1,1,1,1', 'Track 1/2/3', '\\Range'])(
+    'keeps a VTT note starting with %s as a note',
+    (line) => {
+      const note = `${line}\nsecond line`
+      const track = createTrack([createPoint({ note })])
+
+      expect(parseAnnotationFile('a.vtt', exportAnnotationsVtt(track)).points).toEqual([
+        { time: 1.5, row: 3, column: 2, xPercent: 20, yPercent: 15, note },
+      ])
+    },
+  )
+
+  it('ends ranged cues at the end time', () => {
+    const track = createTrack([createPoint({ time: 4, endTime: 9.5 })])
+
+    expect(exportAnnotationsVtt(track)).toContain(
+      '00:00:04.000 --> 00:00:09.500 position:20.00% line:15.00%\nCell 2x3\nRange\nnote',
+    )
+  })
+
+  it('reports end times that are not after the start', () => {
+    const result = parseAnnotationFile('a.csv', 'time,endTime,row,column\n5,5,1,1\n')
+
+    expect(result.errors).toEqual(['Row 2: endTime must be a number of seconds after time.'])
+  })
+
+  it('reports invalid keyframes', () => {
+    const result = parseAnnotationFile('a.csv', 'time,row,column,keyframes\n1,1,1,"track/1,10,10"\n')
+
+    expect(result.errors).toEqual(['Row 2: keyframes must be 2 to 64 distinct times with positions inside the frame.'])
+  })
+
+  it('reports invalid shapes', () => {
+    const result = parseAnnotationFile('a.csv', 'time,row,column,shape\n1,1,1,rect/10,10,0,5\n')
+
+    expect(result.errors).toEqual([
+      'Row 2: shape must be a rectangle or a polygon with 3 to 32 vertices inside the frame.',
+    ])
+  })
+
+  it('keeps valid points and reports invalid ones', () => {
+    const result = parseAnnotationFile(
+      'points.json',
+      JSON.stringify([{ time: 2, row: 1, column: 1 }, { time: -1, row: 1, column: 1 }, { time: 1, row: 0, column: 1 }]),
+    )
+
+    expect(result.points).toEqual([{ time: 2, row: 1, column: 1, note: '' }])
+    expect(result.errors).toEqual([
+      'Point 2: time must be a number of seconds.',
+      'Point 3: row and column must be positive whole numbers.',
+    ])
+  })
+
+  it('rejects files without the required structure', () => {
+    expect(parseAnnotationFile('a.json', '{').errors).toEqual(['The file is not valid JSON.'])
+    expect(parseAnnotationFile('a.csv', 'note\nhello').errors).toEqual([
+      'The CSV header must include time, row and column.',
+    ])
+    expect(parseAnnotationFile('a.vtt', 'not vtt').errors).toEqual(['The file does not start with WEBVTT.'])
+  })
+})
+
+describe('mergeImportedPoints', () => {
+  it('skips duplicates by time and cell and fills in missing coordinates', () => {
+    const existing = [createPoint({ id: 'existing' })]
+    const result = mergeImportedPoints(
+      existing,
+      [
+        { time: 1.5, row: 3, column: 2, note: 'same time and cell' },
+        { time: 1.5, row: 4, column: 2, note: 'other cell' },
+        { time: 1.5, row: 4, column: 2, note: 'repeated in the file' },
+        { time: 0.5, row: 1, column: 1, xPercent: 3, yPercent: 4, note: 'earlier' },
+      ],
+      GRID,
+      createId,
+    )
+
+    expect(result.added).toBe(2)
+    expect(result.duplicates).toBe(2)
+    expect(result.points.map((point) => point.note)).toEqual(['earlier', 'note', 'other cell'])
+    expect(result.points[2]).toEqual(
+      expect.objectContaining({ xPercent: (1.5 / 9) * 100, yPercent: (3.5 / 16) * 100, id: expect.any(String) }),
+    )
+  })
+
+  it('places points with coordinates in the cell of the track grid', () => {
+    const imported = [{ time: 1, row: 30, column: 30, xPercent: 99, yPercent: 1, note: '' }]
+    const [point] = mergeImportedPoints([], imported, GRID, createId).points
+
+    expect(point).toEqual(expect.objectContaining({ column: 9, row: 1 }))
+  })
+
+  it('treats the same moment with a different end as a new point', () => {
+    const existing = [createPoint({ id: 'existing', endTime: 4 })]
+    const result = mergeImportedPoints(
+      existing,
+      [
+        { time: 1.5, endTime: 4, row: 3, column: 2, note: 'same range' },
+        { time: 1.5, endTime: 6, row: 3, column: 2, note: 'longer range' },
+      ],
+      GRID,
+      createId,
+    )
+
+    expect(result.added).toBe(1)
+    expect(result.points[1]).toEqual(expect.objectContaining({ endTime: 6, note: 'longer range' }))
+  })
+
+  it('anchors tracked annotations at their first keyframe', () => {
+    const keyframes = [
+      { time: 1, xPercent: 95, yPercent: 95 },
+      { time: 2, xPercent: 5, yPercent: 5 },
+    ]
+    const imported = [{ time: 1, row: 1, column: 1, note: '', keyframes }]
+    const [point] = mergeImportedPoints([], imported, GRID, createId).points
+
+    expect(point).toEqual(expect.objectContaining({ column: 9, row: 16, xPercent: 95, yPercent: 95, time: 1 }))
+  })
+
+  it('returns the existing array when nothing was added', () => {
+    const existing = [createPoint()]
+    expect(mergeImportedPoints(existing, [{ time: 1.5, row: 3, column: 2, note: '' }], GRID, createId).points).toBe(
+      existing,
+    )
+  })
+})
@@ -0,0 +1,475 @@
+import { clampCellIndex, getCellAt, getCellCenter } from './grid'
+import { formatKeyframesSegment, parseKeyframesValue } from './keyframes'
+import { clampPercent, formatShapeSegment, getShapeCenter, parseShapeValue } from './shapes'
+import type { GridDimensions, MediaTrack, PointOfInterest } from './types'
+
+export type AnnotationExportFormat = 'json' | 'csv' | 'vtt'
+
+export type ImportedPoint = Pick<
+  PointOfInterest,
+  'time' | 'endTime' | 'row' | 'column' | 'note' | 'shape' | 'keyframes'
+> & {
+  xPercent?: number
+  yPercent?: number
+}
+
+export type AnnotationImportResult = {
+  points: ImportedPoint[]
+  errors: string[]
+}
+
+export type AnnotationMergeResult = {
+  points: PointOfInterest[]
+  added: number
+  duplicates: number
+}
+
+type AnnotationExportFile = {
+  version: 1
+  url: string
+  namespace?: string
+  points: ImportedPoint[]
+}
+
+const EXPORT_VERSION = 1
+const CSV_COLUMNS = ['time', 'endTime', 'row', 'column', 'xPercent', 'yPercent', 'note', 'shape', 'keyframes'] as const
+const VTT_CUE_DURATION = 2
+const VTT_SHAPE_PATTERN = /^Shape (\S+)$/
+const VTT_TRACK_PATTERN = /^Track (\S+)$/
+const VTT_RANGE_PATTERN = /^Range$/
+// Prefixed to a note whose first line would otherwise be read as a payload line.
+const VTT_NOTE_ESCAPE = '\\'
+
+export const ANNOTATION_EXPORT_TYPES: Record<AnnotationExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+}
+
+const toImportedPoint = (point: PointOfInterest): ImportedPoint => ({
+  time: point.time,
+  ...(point.endTime === undefined ? {} : { endTime: point.endTime }),
+  row: point.row,
+  column: point.column,
+  xPercent: point.xPercent,
+  yPercent: point.yPercent,
+  note: point.note,
+  ...(point.shape ? { shape: point.shape } : {}),
+  ...(point.keyframes ? { keyframes: point.keyframes } : {}),
+})
+
+const toCsvFields = (point: PointOfInterest): Record<(typeof CSV_COLUMNS)[number], string> => ({
+  time: String(point.time),
+  endTime: point.endTime === undefined ? '' : String(point.endTime),
+  row: String(point.row),
+  column: String(point.column),
+  xPercent: String(point.xPercent),
+  yPercent: String(point.yPercent),
+  note: point.note,
+  shape: point.shape ? formatShapeSegment(point.shape) : '',
+  keyframes: point.keyframes ? formatKeyframesSegment(point.keyframes) : '',
+})
+
+const sortByTime = <T extends { time: number }>(points: T[]): T[] => [...points].sort((a, b) => a.time - b.time)
+
+const quoteCsvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0')
+
+const formatVttTimestamp = (seconds: number): string => {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMilliseconds / 3600000)
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000)
+  const wholeSeconds = Math.floor((totalMilliseconds % 60000) / 1000)
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(wholeSeconds)}.${pad(totalMilliseconds % 1000, 3)}`
+}
+
+export const exportAnnotationsJson = (track: MediaTrack): string => {
+  const file: AnnotationExportFile = {
+    version: EXPORT_VERSION,
+    url: track.url,
+    ...(track.namespace ? { namespace: track.namespace } : {}),
+    points: sortByTime(track.points).map(toImportedPoint),
+  }
+
+  return `${JSON.stringify(file, null, 2)}\n`
+}
+
+export const exportAnnotationsCsv = (track: MediaTrack): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...sortByTime(track.points).map((point) =>
+      CSV_COLUMNS.map((column) => quoteCsvField(toCsvFields(point)[column])).join(','),
+    ),
+  ].join('\r\n') + '\r\n'
+
+const escapeVttNote = (note: string): string => {
+  const [firstLine = ''] = note.split('\n')
+  const isAmbiguous =
+    firstLine.startsWith(VTT_NOTE_ESCAPE) ||
+    [VTT_SHAPE_PATTERN, VTT_TRACK_PATTERN, VTT_RANGE_PATTERN].some((pattern) => pattern.test(firstLine))
+  return isAmbiguous ? `${VTT_NOTE_ESCAPE}${note}` : note
+}
+
+/**
+ * Each point becomes a cue that starts at its time, lasts two seconds (or
+ * until its end time) and is positioned over the point. The payload lines
+ * carry the grid cell, the shape of regions, the keyframes of tracked
+ * annotations and a `Range` marker for ranged ones, so the file can be
+ * imported again. A note that starts like one of those lines is escaped
+ * with a backslash.
+ */
+export const exportAnnotationsVtt = (track: MediaTrack): string => {
+  const cues = sortByTime(track.points).map((point, index) => {
+    const end = point.endTime ?? point.time + VTT_CUE_DURATION
+    const timing = `${formatVttTimestamp(point.time)} --> ${formatVttTimestamp(end)}`
+    const x = clampPercent(point.xPercent).toFixed(2)
+    const y = clampPercent(point.yPercent).toFixed(2)
+    const note = point.note.replace(/-->/g, '->').replace(/\n\s*\n/g, '\n').trim()
+
+    return [
+      String(index + 1),
+      `${timing} position:${x}% line:${y}%`,
+      `Cell ${point.column}x${point.row}`,
+      point.shape ? `Shape ${formatShapeSegment(point.shape)}` : '',
+      point.keyframes ? `Track ${formatKeyframesSegment(point.keyframes)}` : '',
+      point.endTime === undefined ? '' : 'Range',
+      escapeVttNote(note),
+    ]
+      .filter(Boolean)
+      .join('\n')
+  })
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n'
+}
+
+export const exportAnnotations = (track: MediaTrack, format: AnnotationExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return exportAnnotationsJson(track)
+    case 'csv':
+      return exportAnnotationsCsv(track)
+    case 'vtt':
+      return exportAnnotationsVtt(track)
+  }
+}
+
+const parseOptionalNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+
+  const number = Number(value)
+  return Number.isFinite(number) ? number : NaN
+}
+
+const validatePoint = (candidate: Record<string, unknown>, label: string): ImportedPoint | string => {
+  const time = Number(candidate.time)
+  const row = Number(candidate.row)
+  const column = Number(candidate.column)
+  const note = candidate.note === undefined ? '' : candidate.note
+
+  if (!Number.isFinite(time) || time < 0) {
+    return `${label}: time must be a number of seconds.`
+  }
+
+  const endTime = parseOptionalNumber(candidate.endTime)
+  if (endTime !== undefined && !(endTime > time)) {
+    return `${label}: endTime must be a number of seconds after time.`
+  }
+
+  if (!Number.isInteger(row) || row < 1 || !Number.isInteger(column) || column < 1) {
+    return `${label}: row and column must be positive whole numbers.`
+  }
+  if (typeof note !== 'string') {
+    return `${label}: note must be text.`
+  }
+
+  const xPercent = parseOptionalNumber(candidate.xPercent)
+  const yPercent = parseOptionalNumber(candidate.yPercent)
+  if (Number.isNaN(xPercent) || Number.isNaN(yPercent)) {
+    return `${label}: xPercent and yPercent must be numbers.`
+  }
+
+  const shape = parseShapeValue(candidate.shape)
+  if (shape === null) {
+    return `${label}: shape must be a rectangle or a polygon with 3 to 32 vertices inside the frame.`
+  }
+
+  const keyframes = parseKeyframesValue(candidate.keyframes)
+  if (keyframes === null) {
+    return `${label}: keyframes must be 2 to 64 distinct times with positions inside the frame.`
+  }
+
+  return {
+    time,
+    ...(endTime === undefined ? {} : { endTime }),
+    row,
+    column,
+    note,
+    ...(shape ? { shape } : {}),
+    ...(keyframes ? { keyframes } : {}),
+    ...(xPercent === undefined ? {} : { xPercent: clampPercent(xPercent) }),
+    ...(yPercent === undefined ? {} : { yPercent: clampPercent(yPercent) }),
+  }
+}
+
+type ImportCandidate = {
+  value: Record<string, unknown>
+  label: string
+}
+
+const collectPoints = (candidates: ImportCandidate[]): AnnotationImportResult => {
+  const points: ImportedPoint[] = []
+  const errors: string[] = []
+
+  candidates.forEach(({ value, label }) => {
+    const result = validatePoint(value, label)
+    if (typeof result === 'string') {
+      errors.push(result)
+    } else {
+      points.push(result)
+    }
+  })
+
+  return { points, errors }
+}
+
+const parseJsonAnnotations = (text: string): AnnotationImportResult => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { points: [], errors: ['The file is not valid JSON.'] }
+  }
+
+  const entries = Array.isArray(data) ? data : (data as Partial<AnnotationExportFile> | null)?.points
+  if (!Array.isArray(entries)) {
+    return { points: [], errors: ['Expected a "points" array.'] }
+  }
+
+  return collectPoints(
+    entries.map((value, index) => ({
+      value: typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {},
+      label: `Point ${index + 1}`,
+    })),
+  )
+}
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let isQuoted = false
+
+  for (let index = 0; index < text.length; index += 1) {
+    const character = text[index]
+
+    if (isQuoted) {
+      if (character === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (character === '"') {
+        isQuoted = false
+      } else {
+        field += character
+      }
+    } else if (character === '"') {
+      isQuoted = true
+    } else if (character === ',') {
+      row.push(field)
+      field = ''
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[index + 1] === '\n') {
+        index += 1
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += character
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+const parseCsvAnnotations = (text: string): AnnotationImportResult => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  const columns = header?.map((cell) => cell.trim())
+  if (!columns || !['time', 'row', 'column'].every((column) => columns.includes(column))) {
+    return { points: [], errors: ['The CSV header must include time, row and column.'] }
+  }
+
+  return collectPoints(
+    rows.map((cells, index) => ({
+      value: Object.fromEntries(columns.map((column, columnIndex) => [column, cells[columnIndex]])),
+      label: `Row ${index + 2}`,
+    })),
+  )
+}
+
+const parseVttTimestamp = (value: string): number => {
+  const match = value.match(/^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/)
+  if (!match) {
+    return NaN
+  }
+
+  const [, hours = '0', minutes, seconds, milliseconds] = match
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(milliseconds) / 1000
+}
+
+const parseVttAnnotations = (text: string): AnnotationImportResult => {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .trim()
+    .split(/\r?\n\r?\n+/)
+    .map((block) => block.split(/\r?\n/))
+
+  if (!blocks[0]?.[0]?.startsWith('WEBVTT')) {
+    return { points: [], errors: ['The file does not start with WEBVTT.'] }
+  }
+
+  const candidates: ImportCandidate[] = []
+  const errors: string[] = []
+
+  blocks.slice(1).forEach((lines, blockIndex) => {
+    const timingIndex = lines.findIndex((line) => line.includes('-->'))
+    if (timingIndex === -1) {
+      return
+    }
+
+    const label = `Cue ${blockIndex + 1}`
+    const [start, settings = ''] = lines[timingIndex].split('-->').map((part) => part.trim())
+    const [end, ...cueSettings] = settings.split(/\s+/)
+    const setting = (name: string) =>
+      cueSettings.find((entry) => entry.startsWith(`${name}:`))?.slice(name.length + 1).replace('%', '')
+    const [cellLine = '', ...payloadLines] = lines.slice(timingIndex + 1)
+    const cell = cellLine.match(/^Cell (\d+)x(\d+)$/)
+    const readPayloadLine = (pattern: RegExp) => {
+      const match = payloadLines[0]?.match(pattern)
+      if (match) {
+        payloadLines.shift()
+      }
+      return match
+    }
+    const shapeLine = readPayloadLine(VTT_SHAPE_PATTERN)
+    const trackLine = readPayloadLine(VTT_TRACK_PATTERN)
+    const isRange = Boolean(readPayloadLine(VTT_RANGE_PATTERN))
+    const note = payloadLines.join('\n')
+
+    if (!cell) {
+      errors.push(`${label}: expected a "Cell <column>x<row>" line.`)
+      return
+    }
+
+    candidates.push({
+      label,
+      value: {
+        time: parseVttTimestamp(start),
+        endTime: isRange ? parseVttTimestamp(end) : undefined,
+        column: cell[1],
+        row: cell[2],
+        xPercent: setting('position'),
+        yPercent: setting('line'),
+        note: note.startsWith(VTT_NOTE_ESCAPE) ? note.slice(VTT_NOTE_ESCAPE.length) : note,
+        shape: shapeLine?.[1],
+        keyframes: trackLine?.[1],
+      },
+    })
+  })
+
+  const result = collectPoints(candidates)
+  return { points: result.points, errors: [...errors, ...result.errors] }
+}
+
+/**
+ * Reads an annotation export. The format comes from the file extension, or
+ * from the content when the extension is unknown.
+ */
+export const parseAnnotationFile = (fileName: string, text: string): AnnotationImportResult => {
+  const extension = fileName.toLowerCase().split('.').pop()
+  const trimmed = text.trimStart().replace(/^\uFEFF/, '')
+
+  if (extension === 'json' || (extension !== 'csv' && extension !== 'vtt' && /^[[{]/.test(trimmed))) {
+    return parseJsonAnnotations(text)
+  }
+  if (extension === 'vtt' || (extension !== 'csv' && trimmed.startsWith('WEBVTT'))) {
+    return parseVttAnnotations(text)
+  }
+
+  return parseCsvAnnotations(text)
+}
+
+const getDuplicateKey = (
+  point: Pick<PointOfInterest, 'time' | 'endTime' | 'row' | 'column' | 'shape' | 'keyframes'>,
+): string => {
+  const time = Math.round(point.time * 1000)
+  const range = point.endTime === undefined ? `${time}` : `${time}-${Math.round(point.endTime * 1000)}`
+  return [
+    `${range}:${point.column}x${point.row}`,
+    point.shape ? formatShapeSegment(point.shape) : '',
+    point.keyframes ? formatKeyframesSegment(point.keyframes) : '',
+  ]
+    .filter(Boolean)
+    .join(':')
+}
+
+/**
+ * Adds imported points as local drafts. A point at the same millisecond (and
+ * end time), grid cell, shape and keyframes as an existing or earlier imported
+ * point is a duplicate and is skipped. Cells are taken from the coordinates on
+ * the track's grid, tracked annotations are anchored at their first keyframe,
+ * regions at the centre of their shape, and missing coordinates fall back to
+ * the centre of the cell.
+ */
+export const mergeImportedPoints = (
+  existing: PointOfInterest[],
+  imported: ImportedPoint[],
+  grid: GridDimensions,
+  createId: () => string,
+): AnnotationMergeResult => {
+  const seen = new Set(existing.map(getDuplicateKey))
+  const added: PointOfInterest[] = []
+  let duplicates = 0
+
+  imported.forEach((point) => {
+    const [firstKeyframe] = point.keyframes ?? []
+    const anchor = firstKeyframe
+      ? { xPercent: firstKeyframe.xPercent, yPercent: firstKeyframe.yPercent }
+      : point.shape
+        ? getShapeCenter(point.shape)
+        : point.xPercent === undefined || point.yPercent === undefined
+          ? undefined
+          : { xPercent: point.xPercent, yPercent: point.yPercent }
+    const cell = anchor
+      ? getCellAt(anchor.xPercent, anchor.yPercent, grid)
+      : { row: clampCellIndex(point.row, grid.rows), column: clampCellIndex(point.column, grid.columns) }
+    const key = getDuplicateKey({ ...point, ...cell })
+    if (seen.has(key)) {
+      duplicates += 1
+      return
+    }
+
+    seen.add(key)
+    added.push({
+      ...point,
+      ...cell,
+      ...(anchor ?? getCellCenter(cell, grid)),
+      id: createId(),
+    })
+  })
+
+  return {
+    points: added.length ? sortByTime([...existing, ...added]) : existing,
+    added: added.length,
+    duplicates,
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatPagePosition,
+  formatTrackPosition,
+  getDocumentPlayback,
+  getPagePercent,
+  getScrollTopFor,
+  getViewportPercent,
+  getViewportSpan,
+  isAnnotationInView,
+  isDocumentAnnotationVisible,
+} from './documentScroll'
+
+const VIEWPORT = { scrollTop: 1000, scrollHeight: 4000, clientHeight: 800 }
+
+describe('document positions', () => {
+  it('measures the playhead as the top of the viewport in percent of the page', () => {
+    expect(getDocumentPlayback(VIEWPORT)).toEqual({ currentTime: 25, duration: 100 })
+    expect(getViewportSpan(VIEWPORT)).toBe(20)
+  })
+
+  it('converts between viewport and page positions', () => {
+    expect(getPagePercent(VIEWPORT, 50)).toBe(35)
+    expect(getViewportPercent(VIEWPORT, 35)).toBe(50)
+    expect(getViewportPercent(VIEWPORT, 10)).toBe(-75)
+  })
+
+  it('keeps page positions when the viewport changes size', () => {
+    const pagePercent = getPagePercent(VIEWPORT, 50)
+    const taller = { scrollTop: 1000, scrollHeight: 4000, clientHeight: 1600 }
+
+    expect(getViewportPercent(taller, pagePercent)).toBe(25)
+  })
+
+  it('scrolls a page position to the top without passing the end', () => {
+    expect(getScrollTopFor(VIEWPORT, 50)).toBe(2000)
+    expect(getScrollTopFor(VIEWPORT, 95)).toBe(3200)
+  })
+
+  it('shows annotations and ranges that overlap the viewport', () => {
+    expect(isDocumentAnnotationVisible({ time: 30 }, VIEWPORT)).toBe(true)
+    expect(isDocumentAnnotationVisible({ time: 50 }, VIEWPORT)).toBe(false)
+    expect(isDocumentAnnotationVisible({ time: 10, endTime: 26 }, VIEWPORT)).toBe(true)
+  })
+
+  it('formats page positions as percentages', () => {
+    expect(formatPagePosition({ time: 12.4 })).toBe('12%')
+    expect(formatPagePosition({ time: 12.4, endTime: 17.6 })).toBe('12%–18%')
+  })
+})
+
+describe('isAnnotationInView', () => {
+  it('uses the viewport for documents and the playhead otherwise', () => {
+    expect(isAnnotationInView({ time: 30 }, 0, VIEWPORT)).toBe(true)
+    expect(isAnnotationInView({ time: 30 }, 0, undefined)).toBe(false)
+    expect(isAnnotationInView({ time: 30 }, 30.5, undefined)).toBe(true)
+  })
+
+  it('labels documents with page positions and videos with timecodes', () => {
+    expect(formatTrackPosition({ time: 30 }, 'document')).toBe('30%')
+    expect(formatTrackPosition({ time: 30 }, 'video')).toBe('0:30.000')
+  })
+})
@@ -0,0 +1,136 @@
+import { clampPercent } from './shapes'
+import { formatRangeLabel, isAnnotationVisibleAt } from './timeRange'
+import type { TimeRange } from './timeRange'
+import type { DocumentAnchor, MediaKind } from './types'
+
+/**
+ * Scroll metrics of a document card, in CSS pixels. Document tracks measure
+ * "time" in percent of the page height: the playhead is the top of the
+ * viewport and an annotation's time is where it sits on the page, so neither
+ * depends on how fast the reader scrolls or how tall the card is.
+ */
+export type DocumentViewport = {
+  scrollTop: number
+  scrollHeight: number
+  clientHeight: number
+}
+
+/** The timeline length of a document: the whole page. */
+export const DOCUMENT_DURATION = 100
+
+/** Percent of the page height that fits in the viewport. */
+export const getViewportSpan = ({ scrollHeight, clientHeight }: DocumentViewport): number =>
+  scrollHeight > 0 ? Math.min(DOCUMENT_DURATION, (clientHeight / scrollHeight) * 100) : DOCUMENT_DURATION
+
+export const getDocumentPlayback = (viewport: DocumentViewport): { currentTime: number; duration: number } => ({
+  currentTime: viewport.scrollHeight > 0 ? clampPercent((viewport.scrollTop / viewport.scrollHeight) * 100) : 0,
+  duration: DOCUMENT_DURATION,
+})
+
+/** Where a point at `yPercent` of the viewport sits on the page, in percent of its height. */
+export const getPagePercent = (viewport: DocumentViewport, yPercent: number): number =>
+  viewport.scrollHeight > 0
+    ? clampPercent(((viewport.scrollTop + (yPercent / 100) * viewport.clientHeight) / viewport.scrollHeight) * 100)
+    : yPercent
+
+/** Where a page position currently is in the viewport; outside 0–100 when scrolled out of view. */
+export const getViewportPercent = (viewport: DocumentViewport, pagePercent: number): number =>
+  viewport.clientHeight > 0
+    ? (((pagePercent / 100) * viewport.scrollHeight - viewport.scrollTop) / viewport.clientHeight) * 100
+    : pagePercent
+
+/** The scroll offset that puts a page position at the top of the viewport. */
+export const getScrollTopFor = (viewport: DocumentViewport, pagePercent: number): number =>
+  Math.min(Math.max(0, viewport.scrollHeight - viewport.clientHeight), (pagePercent / 100) * viewport.scrollHeight)
+
+/** Whether an annotation, or any part of a ranged one, is inside the viewport. */
+export const isDocumentAnnotationVisible = ({ time, endTime }: TimeRange, viewport: DocumentViewport): boolean => {
+  const { currentTime } = getDocumentPlayback(viewport)
+  return (endTime ?? time) >= currentTime && time <= currentTime + getViewportSpan(viewport)
+}
+
+const formatPercent = (value: number): string => `${Math.round(value)}%`
+
+export const formatPagePosition = ({ time, endTime }: TimeRange): string =>
+  endTime === undefined ? formatPercent(time) : `${formatPercent(time)}–${formatPercent(endTime)}`
+
+/** Timecodes for videos, page positions for documents. */
+export const formatTrackPosition = (range: TimeRange, kind: MediaKind): string =>
+  kind === 'document' ? formatPagePosition(range) : formatRangeLabel(range)
+
+/** Visibility by page position on a document with a known viewport, by time otherwise. */
+export const isAnnotationInView = (
+  range: TimeRange,
+  currentTime: number,
+  viewport: DocumentViewport | undefined,
+): boolean => (viewport ? isDocumentAnnotationVisible(range, viewport) : isAnnotationVisibleAt(range, currentTime))
+
+const getNthOfType = (element: Element): number => {
+  let index = 1
+  for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    if (sibling.tagName === element.tagName) {
+      index += 1
+    }
+  }
+  return index
+}
+
+/**
+ * A selector for an element: its id when it has one, otherwise an
+ * `nth-of-type` path from the nearest ancestor with an id, or from the body.
+ */
+export const getElementSelector = (element: Element): string => {
+  const parts: string[] = []
+
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`)
+      break
+    }
+    if (current.tagName === 'BODY' || current.tagName === 'HTML') {
+      parts.unshift(current.tagName.toLowerCase())
+      break
+    }
+    parts.unshift(`${current.tagName.toLowerCase()}:nth-of-type(${getNthOfType(current)})`)
+  }
+
+  return parts.join(' > ')
+}
+
+/**
+ * Anchors a page position to the element under it, so the annotation follows
+ * the text when the page reflows. `x` and `y` are in pixels of the page.
+ */
+export const createDocumentAnchor = (document: Document, x: number, y: number): DocumentAnchor | undefined => {
+  const element = document.elementFromPoint(x, y)
+  if (!element || element === document.body || element === document.documentElement) {
+    return undefined
+  }
+
+  const rect = element.getBoundingClientRect()
+  return {
+    selector: getElementSelector(element),
+    offsetPercent: rect.height > 0 ? Math.round(clampPercent(((y - rect.top) / rect.height) * 100)) : 0,
+  }
+}
+
+/**
+ * The page position of an anchor, in percent of the page height, or undefined
+ * when its element is no longer in the document.
+ */
+export const resolveDocumentAnchor = (document: Document, anchor: DocumentAnchor): number | undefined => {
+  const pageHeight = document.documentElement.scrollHeight
+  let element: Element | null = null
+  try {
+    element = document.querySelector(anchor.selector)
+  } catch {
+    return undefined
+  }
+
+  if (!element || pageHeight <= 0) {
+    return undefined
+  }
+
+  const rect = element.getBoundingClientRect()
+  return clampPercent(((rect.top + (anchor.offsetPercent / 100) * rect.height) / pageHeight) * 100)
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import { DotSyntaxError, parseDot, stringifyDot } from './dot'
+
+const parseError = (source: string): DotSyntaxError => {
+  try {
+    parseDot(source)
+  } catch (error) {
+    if (error instanceof DotSyntaxError) {
+      return error
+    }
+    throw error
+  }
+  throw new Error('Expected a syntax error')
+}
+
+describe('parseDot', () => {
+  it('reads the graph header', () => {
+    expect(parseDot('strict digraph feed { }')).toEqual({
+      id: 'feed',
+      strict: true,
+      directed: true,
+      attributes: {},
+      nodes: [],
+      edges: [],
+    })
+    expect(parseDot('graph { }')).toEqual(expect.objectContaining({ id: undefined, directed: false }))
+  })
+
+  it('parses quoted, unquoted, numeric and HTML values', () => {
+    const { nodes } = parseDot('digraph { a [label=plain, width=-1.5, memo="x y"; html=<<b>bold</b>>] }')
+
+    expect(nodes).toEqual([{ id: 'a', attributes: { label: 'plain', width: '-1.5', memo: 'x y', html: '<b>bold</b>' } }])
+  })
+
+  it('unescapes quotes, joins continuations and concatenated strings', () => {
+    const { nodes } = parseDot('digraph { "a" [memo="say \\"hi\\" \\\nthere" + " again"] }')
+
+    expect(nodes[0].attributes.memo).toBe('say "hi" there again')
+  })
+
+  it('keeps literal newlines and other backslashes in quoted strings', () => {
+    const { nodes } = parseDot('digraph { a [memo="line one\nline \\n two"] }')
+
+    expect(nodes[0].attributes.memo).toBe('line one\nline \\n two')
+  })
+
+  it('accepts multi-line attribute lists without semicolons', () => {
+    const { nodes } = parseDot(`digraph {
+  a [
+    pubkey="feed/T+1s/1x1/"
+    memo="first"
+  ]
+  b [memo="second"] [extra="yes"]
+}`)
+
+    expect(nodes).toEqual([
+      { id: 'a', attributes: { pubkey: 'feed/T+1s/1x1/', memo: 'first' } },
+      { id: 'b', attributes: { memo: 'second', extra: 'yes' } },
+    ])
+  })
+
+  it('skips comments and preprocessor lines', () => {
+    const { nodes } = parseDot(`# generated
+digraph {
+  // a comment
+  a /* inline */ [memo="x // not a comment"]
+}`)
+
+    expect(nodes).toEqual([{ id: 'a', attributes: { memo: 'x // not a comment' } }])
+  })
+
+  it('expands edge chains and subgraph operands', () => {
+    const { nodes, edges } = parseDot('digraph { a -> b -> c [kind=reply]; d -> { e f } }')
+
+    expect(nodes.map((node) => node.id)).toEqual(['a', 'b', 'c', 'd', 'e', 'f'])
+    expect(edges).toEqual([
+      { from: 'a', to: 'b', attributes: { kind: 'reply' } },
+      { from: 'b', to: 'c', attributes: { kind: 'reply' } },
+      { from: 'd', to: 'e', attributes: {} },
+      { from: 'd', to: 'f', attributes: {} },
+    ])
+  })
+
+  it('applies node, edge and graph defaults', () => {
+    const graph = parseDot(`digraph {
+  rankdir=LR
+  graph [label="feed"]
+  node [shape=box]
+  edge [kind=reply]
+  a [shape=circle]
+  a -> b
+  subgraph cluster { node [color=red] c }
+  d
+}`)
+
+    expect(graph.attributes).toEqual({ rankdir: 'LR', label: 'feed' })
+    expect(graph.nodes).toEqual([
+      { id: 'a', attributes: { shape: 'circle' } },
+      { id: 'b', attributes: { shape: 'box' } },
+      { id: 'c', attributes: { shape: 'box', color: 'red' } },
+      { id: 'd', attributes: { shape: 'box' } },
+    ])
+    expect(graph.edges).toEqual([{ from: 'a', to: 'b', attributes: { kind: 'reply' } }])
+  })
+
+  it('merges attributes of repeated node statements and ignores ports', () => {
+    const { nodes, edges } = parseDot('digraph { a [x=1]; a [y=2]; a:p:n -> b:q }')
+
+    expect(nodes).toEqual([
+      { id: 'a', attributes: { x: '1', y: '2' } },
+      { id: 'b', attributes: {} },
+    ])
+    expect(edges).toEqual([{ from: 'a', to: 'b', attributes: {} }])
+  })
+
+  it('drops duplicate edges in strict graphs', () => {
+    expect(parseDot('strict digraph { a -> b; a -> b }').edges).toHaveLength(1)
+    expect(parseDot('digraph { a -> b; a -> b }').edges).toHaveLength(2)
+  })
+
+  it('reports the location of syntax errors', () => {
+    const unterminated = parseError('digraph {\n  a [memo="oops]\n}')
+    expect(unterminated.location).toEqual({ offset: 20, line: 2, column: 11 })
+    expect(unterminated.message).toContain('Unterminated quoted string')
+
+    const missingValue = parseError('digraph {\n  a [memo=]\n}')
+    expect(missingValue.location).toEqual(expect.objectContaining({ line: 2, column: 11 }))
+    expect(missingValue.message).toMatch(/Expected value for attribute "memo" but found "\]"/)
+
+    expect(parseError('digraph { a -> }').message).toContain('Expected node ID')
+    expect(parseError('digraph { a').message).toContain('end of input')
+    expect(parseError('{ a }').message).toContain('Expected "graph" or "digraph"')
+    expect(parseError('digraph { a } trailing').message).toContain('Expected end of input')
+    expect(parseError('digraph { a @ b }').location).toEqual(expect.objectContaining({ column: 13 }))
+  })
+})
+
+describe('stringifyDot', () => {
+  it('round-trips through parseDot', () => {
+    const graph = parseDot(`strict digraph "feed" {
+  label="Feed"
+  "a" [memo="say \\"hi\\"\nthen [leave]", pubkey="ns/T+1s/1x1/"]
+  b
+  a -> b [weight=2]
+}`)
+
+    expect(parseDot(stringifyDot(graph))).toEqual(graph)
+  })
+
+  it('round-trips memos with backslashes', () => {
+    const memos = ['ends with backslash \\', 'line one \\\nline two', 'C:\\path\\"quoted"']
+    const graph = parseDot('digraph { a }')
+    graph.nodes = memos.map((memo, index) => ({ id: `n${index}`, attributes: { memo } }))
+
+    expect(parseDot(stringifyDot(graph)).nodes.map((node) => node.attributes.memo)).toEqual(memos)
+  })
+
+  it('keeps backslashes that do not escape a quote', () => {
+    expect(parseDot('digraph { a [memo="a\\\\b \\d+ \\alpha"] }').nodes[0].attributes.memo).toBe('a\\\\b \\d+ \\alpha')
+  })
+
+  it('writes undirected edges with --', () => {
+    expect(stringifyDot(parseDot('graph { a -- b }'))).toContain('"a" -- "b"')
+  })
+})
@@ -0,0 +1,460 @@
+export type DotAttributes = Record<string, string>
+
+export type DotNode = {
+  id: string
+  attributes: DotAttributes
+}
+
+export type DotEdge = {
+  from: string
+  to: string
+  attributes: DotAttributes
+}
+
+export type DotGraph = {
+  id?: string
+  strict: boolean
+  directed: boolean
+  attributes: DotAttributes
+  nodes: DotNode[]
+  edges: DotEdge[]
+}
+
+export type DotLocation = {
+  offset: number
+  line: number
+  column: number
+}
+
+export class DotSyntaxError extends Error {
+  readonly location: DotLocation
+
+  constructor(message: string, location: DotLocation) {
+    super(`${message} (line ${location.line}, column ${location.column})`)
+    this.name = 'DotSyntaxError'
+    this.location = location
+  }
+}
+
+type TokenType = 'id' | '{' | '}' | '[' | ']' | '=' | ';' | ',' | ':' | '->' | '--' | 'eof'
+
+type Token = {
+  type: TokenType
+  value: string
+  quoted: boolean
+  location: DotLocation
+}
+
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph'])
+const PUNCTUATION = new Set(['{', '}', '[', ']', '=', ';', ',', ':'])
+const IDENTIFIER_START = /[A-Za-z_\u0080-\uffff]/
+const IDENTIFIER_PART = /[A-Za-z0-9_\u0080-\uffff]/
+const NUMERAL = /^-?(?:\.\d+|\d+(?:\.\d*)?)/
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = []
+  let offset = 0
+  let line = 1
+  let column = 1
+  let atLineStart = true
+
+  const location = (): DotLocation => ({ offset, line, column })
+
+  const advance = (count = 1) => {
+    for (let index = 0; index < count; index += 1) {
+      if (source[offset] === '\n') {
+        line += 1
+        column = 1
+        atLineStart = true
+      } else {
+        column += 1
+        if (!/\s/.test(source[offset])) {
+          atLineStart = false
+        }
+      }
+      offset += 1
+    }
+  }
+
+  const readQuoted = (start: DotLocation): string => {
+    advance()
+    let value = ''
+
+    while (offset < source.length) {
+      const character = source[offset]
+
+      if (character === '"') {
+        advance()
+        return value
+      }
+
+      if (character === '\\' && source[offset + 1] === '"') {
+        value += '"'
+        advance(2)
+      } else if (character === '\\' && source[offset + 1] === '\n') {
+        advance(2)
+      } else if (character === '\\' && source[offset + 1] === '\r' && source[offset + 2] === '\n') {
+        advance(3)
+      } else {
+        value += character
+        advance()
+      }
+    }
+
+    throw new DotSyntaxError('Unterminated quoted string', start)
+  }
+
+  const readHtml = (start: DotLocation): string => {
+    advance()
+    let depth = 1
+    let value = ''
+
+    while (offset < source.length) {
+      const character = source[offset]
+      if (character === '<') {
+        depth += 1
+      } else if (character === '>') {
+        depth -= 1
+        if (depth === 0) {
+          advance()
+          return value
+        }
+      }
+
+      value += character
+      advance()
+    }
+
+    throw new DotSyntaxError('Unterminated HTML string', start)
+  }
+
+  while (offset < source.length) {
+    const character = source[offset]
+    const next = source[offset + 1]
+
+    if (/\s/.test(character)) {
+      advance()
+      continue
+    }
+
+    if (character === '#' && atLineStart) {
+      while (offset < source.length && source[offset] !== '\n') {
+        advance()
+      }
+      continue
+    }
+
+    if (character === '/' && next === '/') {
+      while (offset < source.length && source[offset] !== '\n') {
+        advance()
+      }
+      continue
+    }
+
+    if (character === '/' && next === '*') {
+      const start = location()
+      const end = source.indexOf('*/', offset + 2)
+      if (end === -1) {
+        throw new DotSyntaxError('Unterminated comment', start)
+      }
+      advance(end + 2 - offset)
+      continue
+    }
+
+    const start = location()
+
+    if (character === '-' && (next === '>' || next === '-')) {
+      const type = next === '>' ? '->' : '--'
+      advance(2)
+      tokens.push({ type, value: type, quoted: false, location: start })
+      continue
+    }
+
+    if (PUNCTUATION.has(character)) {
+      advance()
+      tokens.push({ type: character as TokenType, value: character, quoted: false, location: start })
+      continue
+    }
+
+    if (character === '"') {
+      let value = readQuoted(start)
+
+      // Quoted strings may be concatenated with `+`.
+      for (;;) {
+        const rest = source.slice(offset).match(/^\s*\+\s*"/)
+        if (!rest) {
+          break
+        }
+        advance(rest[0].length - 1)
+        value += readQuoted(location())
+      }
+
+      tokens.push({ type: 'id', value, quoted: true, location: start })
+      continue
+    }
+
+    if (character === '<') {
+      tokens.push({ type: 'id', value: readHtml(start), quoted: true, location: start })
+      continue
+    }
+
+    const numeral = source.slice(offset).match(NUMERAL)
+    if (numeral) {
+      advance(numeral[0].length)
+      tokens.push({ type: 'id', value: numeral[0], quoted: false, location: start })
+      continue
+    }
+
+    if (IDENTIFIER_START.test(character)) {
+      let value = ''
+      while (offset < source.length && IDENTIFIER_PART.test(source[offset])) {
+        value += source[offset]
+        advance()
+      }
+      tokens.push({ type: 'id', value, quoted: false, location: start })
+      continue
+    }
+
+    throw new DotSyntaxError(`Unexpected character ${JSON.stringify(character)}`, start)
+  }
+
+  tokens.push({ type: 'eof', value: '', quoted: false, location: location() })
+  return tokens
+}
+
+type Scope = {
+  node: DotAttributes
+  edge: DotAttributes
+}
+
+/**
+ * Parses a single DOT graph. Node and edge defaults from `node [...]` and
+ * `edge [...]` statements are applied, subgraphs are flattened into the
+ * parent graph and ports are ignored.
+ */
+export const parseDot = (source: string): DotGraph => {
+  const tokens = tokenize(source)
+  const nodesById = new Map<string, DotNode>()
+  const edges: DotEdge[] = []
+  const graphAttributes: DotAttributes = {}
+  let position = 0
+
+  const peek = (ahead = 0): Token => tokens[Math.min(position + ahead, tokens.length - 1)]
+  const isKeyword = (token: Token, keyword: string) =>
+    token.type === 'id' && !token.quoted && token.value.toLowerCase() === keyword
+
+  const consume = (type: TokenType, description: string): Token => {
+    const token = peek()
+    if (token.type !== type) {
+      const found = token.type === 'eof' ? 'end of input' : JSON.stringify(token.value)
+      throw new DotSyntaxError(`Expected ${description} but found ${found}`, token.location)
+    }
+    position += 1
+    return token
+  }
+
+  const optional = (type: TokenType): boolean => {
+    if (peek().type === type) {
+      position += 1
+      return true
+    }
+    return false
+  }
+
+  const consumeId = (description: string): string => {
+    const token = peek()
+    if (token.type === 'id' && !token.quoted && KEYWORDS.has(token.value.toLowerCase())) {
+      throw new DotSyntaxError(`Expected ${description} but found keyword "${token.value}"`, token.location)
+    }
+    return consume('id', description).value
+  }
+
+  const parseAttributeLists = (): DotAttributes => {
+    const attributes: DotAttributes = {}
+
+    while (optional('[')) {
+      while (peek().type !== ']') {
+        const key = consumeId('attribute name')
+        consume('=', '"=" after attribute name')
+        attributes[key] = consumeId(`value for attribute "${key}"`)
+        if (!optional(',')) {
+          optional(';')
+        }
+      }
+      consume(']', '"]"')
+    }
+
+    return attributes
+  }
+
+  const ensureNode = (id: string, scope: Scope): DotNode => {
+    let node = nodesById.get(id)
+    if (!node) {
+      node = { id, attributes: { ...scope.node } }
+      nodesById.set(id, node)
+    }
+    return node
+  }
+
+  const parseNodeId = (): string => {
+    const id = consumeId('node ID')
+    if (optional(':')) {
+      consumeId('port')
+      if (optional(':')) {
+        consumeId('compass point')
+      }
+    }
+    return id
+  }
+
+  const parseEdgeOperand = (scope: Scope): string[] => {
+    if (peek().type === '{' || isKeyword(peek(), 'subgraph')) {
+      return parseSubgraph(scope)
+    }
+
+    const id = parseNodeId()
+    ensureNode(id, scope)
+    return [id]
+  }
+
+  const parseStatement = (scope: Scope, members: Set<string>) => {
+    const token = peek()
+
+    if (isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) {
+      position += 1
+      const attributes = parseAttributeLists()
+      const target = token.value.toLowerCase()
+      if (target === 'graph') {
+        Object.assign(graphAttributes, attributes)
+      } else {
+        Object.assign(target === 'node' ? scope.node : scope.edge, attributes)
+      }
+      return
+    }
+
+    if (token.type === 'id' && peek(1).type === '=') {
+      const key = consumeId('attribute name')
+      consume('=', '"="')
+      graphAttributes[key] = consumeId(`value for attribute "${key}"`)
+      return
+    }
+
+    let operands = parseEdgeOperand(scope)
+    operands.forEach((id) => members.add(id))
+
+    if (peek().type !== '->' && peek().type !== '--') {
+      if (operands.length === 1 && token.type === 'id') {
+        Object.assign(ensureNode(operands[0], scope).attributes, parseAttributeLists())
+      }
+      return
+    }
+
+    const chain: string[][] = [operands]
+    while (optional('->') || optional('--')) {
+      operands = parseEdgeOperand(scope)
+      operands.forEach((id) => members.add(id))
+      chain.push(operands)
+    }
+
+    const attributes = { ...scope.edge, ...parseAttributeLists() }
+    for (let index = 1; index < chain.length; index += 1) {
+      chain[index - 1].forEach((from) => {
+        chain[index].forEach((to) => {
+          edges.push({ from, to, attributes: { ...attributes } })
+        })
+      })
+    }
+  }
+
+  const parseStatementList = (scope: Scope): string[] => {
+    const members = new Set<string>()
+
+    while (peek().type !== '}') {
+      if (peek().type === 'eof') {
+        throw new DotSyntaxError('Expected "}" but found end of input', peek().location)
+      }
+      parseStatement(scope, members)
+      optional(';')
+    }
+
+    return Array.from(members)
+  }
+
+  const parseSubgraph = (parentScope: Scope): string[] => {
+    if (isKeyword(peek(), 'subgraph')) {
+      position += 1
+      if (peek().type === 'id') {
+        consumeId('subgraph ID')
+      }
+    }
+
+    consume('{', '"{"')
+    const members = parseStatementList({ node: { ...parentScope.node }, edge: { ...parentScope.edge } })
+    consume('}', '"}"')
+    return members
+  }
+
+  const strict = isKeyword(peek(), 'strict')
+  if (strict) {
+    position += 1
+  }
+
+  const header = peek()
+  if (!isKeyword(header, 'graph') && !isKeyword(header, 'digraph')) {
+    throw new DotSyntaxError('Expected "graph" or "digraph"', header.location)
+  }
+  position += 1
+
+  const id = peek().type === 'id' ? consumeId('graph ID') : undefined
+  consume('{', '"{"')
+  parseStatementList({ node: {}, edge: {} })
+  consume('}', '"}"')
+  consume('eof', 'end of input')
+
+  const uniqueEdges = strict
+    ? edges.filter(
+        (edge, index) => edges.findIndex((other) => other.from === edge.from && other.to === edge.to) === index,
+      )
+    : edges
+
+  return {
+    id,
+    strict,
+    directed: isKeyword(header, 'digraph'),
+    attributes: graphAttributes,
+    nodes: Array.from(nodesById.values()),
+    edges: uniqueEdges,
+  }
+}
+
+/**
+ * Escapes quotes. DOT has no escape for a backslash, so one before a newline
+ * or the closing quote is followed by a line continuation to keep it literal.
+ */
+const quoteId = (value: string): string =>
+  `"${value.replace(/"/g, '\\"').replace(/\\(?=\r?\n|$)/g, '$&\\\n')}"`
+
+const formatAttributes = (attributes: DotAttributes): string => {
+  const entries = Object.entries(attributes)
+  return entries.length
+    ? ` [${entries.map(([key, value]) => `${quoteId(key)}=${quoteId(value)}`).join(', ')}]`
+    : ''
+}
+
+/**
+ * Writes a graph back out as DOT with every ID quoted, so the output parses
+ * to the same nodes, edges and attributes.
+ */
+export const stringifyDot = (graph: DotGraph): string => {
+  const edgeOperator = graph.directed ? '->' : '--'
+  const header = `${graph.strict ? 'strict ' : ''}${graph.directed ? 'digraph' : 'graph'}`
+  const lines = [
+    ...Object.entries(graph.attributes).map(([key, value]) => `  ${quoteId(key)}=${quoteId(value)}`),
+    ...graph.nodes.map((node) => `  ${quoteId(node.id)}${formatAttributes(node.attributes)}`),
+    ...graph.edges.map(
+      (edge) => `  ${quoteId(edge.from)} ${edgeOperator} ${quoteId(edge.to)}${formatAttributes(edge.attributes)}`,
+    ),
+  ]
+
+  return `${header}${graph.id === undefined ? '' : ` ${quoteId(graph.id)}`} {\n${lines.join('\n')}\n}\n`
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatMemoHtml,
+  formatPublicKey,
+  formatTimecode,
+  normalizeLinkHref,
+  normalizeSocketUrl,
+  parseTimecode,
+} from './format'
+
+describe('formatTimecode', () => {
+  it('formats minutes, seconds and milliseconds', () => {
+    expect(formatTimecode(0)).toBe('0:00.000')
+    expect(formatTimecode(7.25)).toBe('0:07.250')
+    expect(formatTimecode(125.5)).toBe('2:05.500')
+  })
+
+  it('carries milliseconds that round up to a full second', () => {
+    expect(formatTimecode(59.9996)).toBe('1:00.000')
+  })
+
+  it('clamps negative and non-finite input to zero', () => {
+    expect(formatTimecode(-3)).toBe('0:00.000')
+    expect(formatTimecode(Number.NaN)).toBe('0:00.000')
+    expect(formatTimecode(Number.POSITIVE_INFINITY)).toBe('0:00.000')
+  })
+})
+
+describe('parseTimecode', () => {
+  it('reads timecodes and plain seconds', () => {
+    expect(parseTimecode('2:05.500')).toBe(125.5)
+    expect(parseTimecode(' 1:30 ')).toBe(90)
+    expect(parseTimecode('42.25')).toBe(42.25)
+    expect(parseTimecode(formatTimecode(7.25))).toBe(7.25)
+  })
+
+  it('rejects anything else', () => {
+    expect(parseTimecode('')).toBeNull()
+    expect(parseTimecode('1:5')).toBeNull()
+    expect(parseTimecode('1:75')).toBeNull()
+    expect(parseTimecode('-3')).toBeNull()
+    expect(parseTimecode('1:02:03')).toBeNull()
+  })
+})
+
+describe('normalizeLinkHref', () => {
+  it('keeps http and https URLs', () => {
+    expect(normalizeLinkHref('https://example.com/a?b=1')).toBe('https://example.com/a?b=1')
+    expect(normalizeLinkHref(' http://example.com ')).toBe('http://example.com/')
+  })
+
+  it('adds https to bare hosts', () => {
+    expect(normalizeLinkHref('example.com/video.mp4')).toBe('https://example.com/video.mp4')
+  })
+
+  it('rejects empty and non-web schemes', () => {
+    expect(normalizeLinkHref('   ')).toBeNull()
+    expect(normalizeLinkHref('javascript:alert(1)')).toBeNull()
+    expect(normalizeLinkHref('data:text/html,<script>alert(1)</script>')).toBeNull()
+  })
+})
+
+describe('normalizeSocketUrl', () => {
+  it('keeps ws and wss URLs', () => {
+    expect(normalizeSocketUrl('ws://localhost:8080/graph')).toBe('ws://localhost:8080/graph')
+    expect(normalizeSocketUrl('wss://example.com/x')).toBe('wss://example.com/x')
+  })
+
+  it('defaults to wss for bare hosts', () => {
+    expect(normalizeSocketUrl('example.com/socket')).toBe('wss://example.com/socket')
+  })
+
+  it('rejects empty and non-socket URLs', () => {
+    expect(normalizeSocketUrl('')).toBeNull()
+    expect(normalizeSocketUrl('https://example.com')).toBeNull()
+  })
+})
+
+describe('formatMemoHtml', () => {
+  it('renders markdown links, emphasis and line breaks', () => {
+    expect(formatMemoHtml('**bold** and *soft*\n[site](example.com)')).toBe(
+      '<strong>bold</strong> and <em>soft</em><br /><a href="https://example.com/" target="_blank" rel="noreferrer">site</a>',
+    )
+  })
+
+  it('autolinks bare URLs', () => {
+    expect(formatMemoHtml('see https://example.com/x')).toBe(
+      'see <a href="https://example.com/x" target="_blank" rel="noreferrer">https://example.com/x</a>',
+    )
+  })
+
+  it('escapes raw HTML', () => {
+    const html = formatMemoHtml('<img src=x onerror="alert(1)"><script>alert(1)</script>')
+    expect(html).not.toMatch(/<img|<script/i)
+    expect(html).toContain('&lt;script&gt;')
+  })
+
+  it('drops javascript: links and keeps only the label', () => {
+    expect(formatMemoHtml('[click](javascript:alert(1))')).not.toContain('href')
+    expect(formatMemoHtml('[click](javascript:alert(1))')).toContain('click')
+  })
+
+  it('cannot break out of the href attribute', () => {
+    const html = formatMemoHtml('https://example.com/"onmouseover="alert(1)')
+    expect(html).not.toMatch(/"\s*onmouseover=/)
+  })
+})
+
+describe('formatPublicKey', () => {
+  it('shortens long keys', () => {
+    expect(formatPublicKey('3q2+7wABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789ab=')).toBe('3q2+7w…9ab=')
+    expect(formatPublicKey('short')).toBe('short')
+  })
+})
@@ -0,0 +1,118 @@
+export const formatTimecode = (seconds: number): string => {
+  const totalMilliseconds = Number.isFinite(seconds) ? Math.max(0, Math.round(seconds * 1000)) : 0
+  const minutes = Math.floor(totalMilliseconds / 60000)
+  const remainingSeconds = Math.floor(totalMilliseconds / 1000) % 60
+  const milliseconds = totalMilliseconds % 1000
+
+  const paddedSeconds = remainingSeconds.toString().padStart(2, '0')
+  const paddedMilliseconds = milliseconds.toString().padStart(3, '0')
+
+  return `${minutes}:${paddedSeconds}.${paddedMilliseconds}`
+}
+
+/**
+ * Reads `m:ss.mmm` as written by `formatTimecode`, as well as `m:ss` and plain
+ * seconds. Returns null for anything else.
+ */
+export const parseTimecode = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):(?=[0-5]\d(?:\.\d+)?$))?(\d+(?:\.\d+)?)$/)
+  if (!match) {
+    return null
+  }
+
+  const [, minutes = '0', seconds] = match
+  return Number(minutes) * 60 + Number(seconds)
+}
+
+const escapeHtml = (value: string): string =>
+  value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;')
+
+export const normalizeLinkHref = (href: string): string | null => {
+  const trimmed = href.trim()
+  if (!trimmed) {
+    return null
+  }
+
+  const candidate = trimmed.startsWith('http://') || trimmed.startsWith('https://')
+    ? trimmed
+    : `https://${trimmed}`
+
+  try {
+    const url = new URL(candidate)
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      return null
+    }
+
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+export const formatMemoHtml = (memo: string): string => {
+  const escaped = escapeHtml(memo)
+  const anchorPlaceholders: string[] = []
+
+  const withMarkdownLinks = escaped.replace(/\[([^\]]+)]\(([^)]+)\)/g, (_, label, href) => {
+    const normalized = normalizeLinkHref(href)
+    if (!normalized) {
+      return label
+    }
+
+    const anchor = `<a href="${normalized}" target="_blank" rel="noreferrer">${label}</a>`
+    anchorPlaceholders.push(anchor)
+    return `[[[ANCHOR_${anchorPlaceholders.length - 1}]]]`
+  })
+
+  const withBold = withMarkdownLinks.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+  const withItalics = withBold
+    .replace(/(^|\s)_(.+?)_([^\w]|$)/g, '$1<em>$2</em>$3')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+
+  const withLinks = withItalics.replace(
+    /(https?:\/\/[\w\-.~%/?#[\]@!$&'()*+,;=:]+)|(www\.[\w\-.~%/?#[\]@!$&'()*+,;=:]+)/gi,
+    (match) => {
+      const href = normalizeLinkHref(match)
+      if (!href) {
+        return match
+      }
+
+      return `<a href="${href}" target="_blank" rel="noreferrer">${match}</a>`
+    },
+  )
+
+  const withBreaks = withLinks.replace(/\n/g, '<br />')
+
+  return withBreaks.replace(/\[\[\[ANCHOR_(\d+)]]]/g, (_, index) => {
+    const anchorIndex = Number.parseInt(index, 10)
+    return Number.isNaN(anchorIndex) ? '' : anchorPlaceholders[anchorIndex] ?? ''
+  })
+}
+
+export const normalizeSocketUrl = (value: string): string | null => {
+  const trimmed = value.trim()
+  if (!trimmed) {
+    return null
+  }
+
+  const hasProtocol = trimmed.startsWith('ws://') || trimmed.startsWith('wss://')
+  if (!hasProtocol && /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed)) {
+    return null
+  }
+
+  const candidate = hasProtocol ? trimmed : `wss://${trimmed}`
+
+  try {
+    const url = new URL(candidate)
+    if (!url.protocol.startsWith('ws')) {
+      return null
+    }
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+/** A public key shortened to its first and last characters, for labels. */
+export const formatPublicKey = (publicKey: string): string =>
+  publicKey.length > 12 ? `${publicKey.slice(0, 6)}…${publicKey.slice(-4)}` : publicKey
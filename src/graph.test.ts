@@ -0,0 +1,623 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyGraphDelta,
+  applyGraphDeltaToSnapshots,
+  buildReplyPubkey,
+  buildTagPubkey,
+  createPublishReplyMessage,
+  createPublishTagMessage,
+  mergeGraphs,
+  mergeTagPoints,
+  parseGraph,
+  parseGraphDelta,
+  parseGraphNodes,
+  parseGraphVideos,
+  parseTagPointsForNamespace,
+  reconcileGraphTracks,
+} from './graph'
+import type { GraphEdge, GraphNode } from './graph'
+import { deriveNamespacePublicKey } from './hdWallet'
+import { createMediaTrack } from './media'
+import { createPoint } from './testFixtures'
+import type { AnnotationReply } from './types'
+
+const WALLET = {
+  mnemonic:
+    'desert maximum repair joke occur sustain joy private leg plug empty total blood detail meadow force news walnut anchor build habit joke upon soda',
+  passphrase: '',
+}
+
+const node = (attributes: Record<string, string>): GraphNode => ({
+  id: attributes.pubkey ?? attributes.memo ?? 'node',
+  attributes,
+})
+
+describe('parseGraphNodes', () => {
+  it('returns node IDs with their attributes', () => {
+    const graph = `digraph {
+  "a" [namespace="feed", memo="https://example.com/a.mp4"];
+  "b" [pubkey="feed/T+3s/2x5/", memo="hello"];
+}`
+
+    expect(parseGraphNodes(graph)).toEqual([
+      { id: 'a', attributes: { namespace: 'feed', memo: 'https://example.com/a.mp4' } },
+      { id: 'b', attributes: { pubkey: 'feed/T+3s/2x5/', memo: 'hello' } },
+    ])
+  })
+
+  it('keeps quotes and newlines inside memos', () => {
+    const graph = String.raw`digraph { "say \"hi\"" [memo="she said \"hi\" [twice]
+then left"]; }`
+
+    expect(parseGraphNodes(graph)).toEqual([{ id: 'say "hi"', attributes: { memo: 'she said "hi" [twice]\nthen left' } }])
+  })
+})
+
+describe('parseGraph', () => {
+  it('returns edges between nodes', () => {
+    expect(parseGraph('digraph { "a" [memo="x"] "b" [memo="y"] a -> b }').edges).toEqual([
+      { from: 'a', to: 'b', attributes: {} },
+    ])
+  })
+})
+
+describe('parseGraphVideos', () => {
+  it('creates a track for every namespaced node whose memo is a URL', () => {
+    const tracks = parseGraphVideos([
+      node({ namespace: 'feed', memo: 'https://example.com/clip.webm' }),
+      node({ namespace: 'feed', memo: 'example.com/page' }),
+      node({ memo: 'https://example.com/no-namespace.mp4' }),
+      node({ namespace: 'feed', memo: '' }),
+    ])
+
+    expect(tracks.map(({ url, kind, namespace }) => ({ url, kind, namespace }))).toEqual([
+      { url: 'https://example.com/clip.webm', kind: 'video', namespace: 'feed' },
+      { url: 'https://example.com/page', kind: 'document', namespace: 'feed' },
+    ])
+  })
+  it('reads a declared grid as columns x rows and ignores invalid ones', () => {
+    const tracks = parseGraphVideos([
+      node({ namespace: 'feed', memo: 'https://example.com/a.mp4', grid: '16x9' }),
+      node({ namespace: 'feed', memo: 'https://example.com/b.mp4', grid: '0x9' }),
+      node({ namespace: 'feed', memo: 'https://example.com/c.mp4', grid: 'wide' }),
+    ])
+
+    expect(tracks.map((track) => track.grid)).toEqual([{ rows: 9, columns: 16 }, undefined, undefined])
+  })
+})
+
+describe('parseTagPointsForNamespace', () => {
+  it('maps tag pubkeys onto the base grid, sorted by time', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+8s/9x16/', memo: 'corner' }),
+      node({ pubkey: 'feed/T+2s/1x1/', memo: 'origin' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'feed')).toEqual([
+      expect.objectContaining({ time: 2, column: 1, row: 1, xPercent: (0.5 / 9) * 100, note: 'origin' }),
+      expect.objectContaining({ time: 8, column: 9, row: 16, yPercent: (15.5 / 16) * 100, isReadOnly: true }),
+    ])
+  })
+
+  it('reads cells against the grid they were written on', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+1s/16x9@16x9/', memo: 'landscape corner' }),
+      node({ pubkey: 'feed/T+2s/17x1@16x9/', memo: 'column outside grid' }),
+      node({ pubkey: 'feed/T+3s/29x29@32x32/', memo: 'fine grid' }),
+      node({ pubkey: 'feed/T+4s/9x16/', memo: 'default grid' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'feed')).toEqual([
+      expect.objectContaining({ column: 9, row: 16, xPercent: (15.5 / 16) * 100, yPercent: (8.5 / 9) * 100 }),
+      expect.objectContaining({ column: 9, row: 15, xPercent: (28.5 / 32) * 100, yPercent: (28.5 / 32) * 100 }),
+      expect.objectContaining({ column: 9, row: 16 }),
+    ])
+    expect(parseTagPointsForNamespace(nodes, 'feed', [], { rows: 9, columns: 16 })).toEqual([
+      expect.objectContaining({ column: 16, row: 9 }),
+      expect.objectContaining({ column: 15, row: 9 }),
+      expect.objectContaining({ column: 16, row: 9, xPercent: (8.5 / 9) * 100, yPercent: (15.5 / 16) * 100 }),
+    ])
+  })
+
+  it('reads region tags and anchors them at the centre of their shape', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+3s/2x3/rect/10,20,30,20/', memo: 'box' }),
+      node({ pubkey: 'feed/T+4s/2x3/poly/1,2,3/', memo: 'broken polygon' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'feed')).toEqual([
+      expect.objectContaining({
+        note: 'box',
+        column: 2,
+        row: 3,
+        xPercent: 25,
+        yPercent: 30,
+        shape: { type: 'rectangle', xPercent: 10, yPercent: 20, widthPercent: 30, heightPercent: 20 },
+      }),
+    ])
+  })
+
+  it('reads the end time of ranged tags and skips ranges that end before they start', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+3s/2x3/until/T+8s/', memo: 'range' }),
+      node({ pubkey: 'feed/T+4s/2x3/rect/10,20,30,20/until/T+6s/', memo: 'ranged region' }),
+      node({ pubkey: 'feed/T+5s/2x3/until/T+5s/', memo: 'empty range' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'feed')).toEqual([
+      expect.objectContaining({ note: 'range', time: 3, endTime: 8 }),
+      expect.objectContaining({ note: 'ranged region', time: 4, endTime: 6, shape: expect.any(Object) }),
+    ])
+  })
+
+  it('reads the keyframes of tracked tags and anchors them at the first one', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+3s/2x3/track/3,20,15,5.5,60,40/until/T+6s/', memo: 'tracked' }),
+      node({ pubkey: 'feed/T+4s/2x3/track/4,20,15/', memo: 'single keyframe' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'feed')).toEqual([
+      expect.objectContaining({
+        note: 'tracked',
+        xPercent: 20,
+        yPercent: 15,
+        endTime: 6,
+        keyframes: [
+          { time: 3, xPercent: 20, yPercent: 15 },
+          { time: 5.5, xPercent: 60, yPercent: 40 },
+        ],
+      }),
+    ])
+  })
+
+  it('ignores other namespaces and escapes regular expression characters', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'a.b/T+1s/1x1/', memo: 'match' }),
+      node({ pubkey: 'axb/T+1s/1x1/', memo: 'wildcard' }),
+      node({ pubkey: 'a.b.c/T+1s/1x1/', memo: 'longer namespace' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'a.b').map((point) => point.note)).toEqual(['match'])
+  })
+
+  it('skips malformed tag pubkeys', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+s/1x1/', memo: 'missing time' }),
+      node({ pubkey: 'feed/T+-1s/1x1/', memo: 'negative time' }),
+      node({ pubkey: 'feed/T+1.5s/1x1/', memo: 'fractional time' }),
+      node({ pubkey: 'feed/T+1s/0x1/', memo: 'zero column' }),
+      node({ pubkey: 'feed/T+1s/10x1/', memo: 'column outside grid' }),
+      node({ pubkey: 'feed/T+1s/1x17/', memo: 'row outside grid' }),
+      node({ pubkey: 'feed/T+1s/1x1', memo: 'missing trailing slash' }),
+      node({ pubkey: 'feed/T+1s/1x1/', memo: '   ' }),
+      node({ memo: 'no pubkey' }),
+    ]
+
+    expect(parseTagPointsForNamespace(nodes, 'feed')).toEqual([])
+    expect(parseTagPointsForNamespace(nodes)).toEqual([])
+  })
+
+  it('reports signature status for signed and unsigned tags', () => {
+    const message = createPublishTagMessage('req-1', WALLET, 'feed', { account: 0, address: 0 }, createPoint())
+    const { public_key: pubkey, memo, signer, signature } = message.body
+
+    const [signed, tampered, unsigned] = parseTagPointsForNamespace(
+      [
+        node({ pubkey, memo, signer, signature }),
+        node({ pubkey: pubkey.replace('T+1s', 'T+2s'), memo, signer, signature }),
+        node({ pubkey: 'feed/T+14s/1x1/', memo: 'legacy' }),
+      ],
+      'feed',
+    )
+
+    expect(signed).toEqual(expect.objectContaining({ signatureStatus: 'signed', signer }))
+    expect(tampered.signatureStatus).toBe('invalid')
+    expect(unsigned.signatureStatus).toBe('unsigned')
+  })
+
+  it('verifies only tags signed by a key the namespace lists as an owner', () => {
+    const message = createPublishTagMessage('req-1', WALLET, 'feed', { account: 0, address: 0 }, createPoint())
+    const { public_key: pubkey, memo, signer, signature } = message.body
+    const tag = node({ pubkey, memo, signer, signature, path: 'm/0/0' })
+    const media = (owners: string) => ({
+      id: 'v',
+      attributes: { namespace: 'feed', memo: 'https://example.com/a.mp4', owners },
+    })
+    const namespaceKey = deriveNamespacePublicKey('feed').publicKey
+
+    expect(parseTagPointsForNamespace([media(`other, ${signer}`), tag], 'feed')[0].signatureStatus).toBe('verified')
+    expect(parseTagPointsForNamespace([media(namespaceKey), tag], 'feed')[0]).toEqual(
+      expect.objectContaining({ signatureStatus: 'signed', signer }),
+    )
+    expect(parseTagPointsForNamespace([tag], 'feed')[0].signatureStatus).toBe('signed')
+  })
+})
+
+describe('parseTagPointsForNamespace replies', () => {
+  const edge = (from: string, to: string): GraphEdge => ({ from, to, attributes: {} })
+
+  it('nests edge targets under the tag that starts the thread', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+4s/2x2/', memo: 'root' }),
+      node({ pubkey: 'feed/T+4s/2x2/re/a/', memo: 'first reply' }),
+      node({ pubkey: 'feed/T+4s/2x2/re/a/re/b/', memo: 'nested reply' }),
+      node({ pubkey: 'feed/T+9s/3x3/', memo: 'other' }),
+    ]
+    const edges = [
+      edge('feed/T+4s/2x2/', 'feed/T+4s/2x2/re/a/'),
+      edge('feed/T+4s/2x2/re/a/', 'feed/T+4s/2x2/re/a/re/b/'),
+    ]
+
+    const [root, other] = parseTagPointsForNamespace(nodes, 'feed', edges)
+
+    expect(root.replies).toEqual([
+      expect.objectContaining({ id: 'feed/T+4s/2x2/re/a/', parentId: 'feed/T+4s/2x2/', depth: 1, note: 'first reply' }),
+      expect.objectContaining({
+        id: 'feed/T+4s/2x2/re/a/re/b/',
+        parentId: 'feed/T+4s/2x2/re/a/',
+        depth: 2,
+        note: 'nested reply',
+      }),
+    ])
+    expect(other.note).toBe('other')
+    expect(other.replies).toBeUndefined()
+  })
+
+  it('ignores self-loops, edges to unknown nodes and cycles', () => {
+    const nodes: GraphNode[] = [
+      node({ pubkey: 'feed/T+1s/1x1/', memo: 'root' }),
+      node({ pubkey: 'feed/T+1s/1x1/re/a/', memo: 'a' }),
+      node({ pubkey: 'feed/T+1s/1x1/re/b/', memo: 'b' }),
+    ]
+    const edges = [
+      edge('feed/T+1s/1x1/', 'feed/T+1s/1x1/'),
+      edge('feed/T+1s/1x1/', 'missing'),
+      edge('feed/T+1s/1x1/', 'feed/T+1s/1x1/re/a/'),
+      edge('feed/T+1s/1x1/re/a/', 'feed/T+1s/1x1/re/b/'),
+      edge('feed/T+1s/1x1/re/b/', 'feed/T+1s/1x1/re/a/'),
+    ]
+
+    const points = parseTagPointsForNamespace(nodes, 'feed', edges)
+
+    expect(points).toHaveLength(1)
+    expect(points[0].replies?.map((reply) => [reply.note, reply.depth])).toEqual([
+      ['a', 1],
+      ['b', 2],
+    ])
+  })
+})
+
+describe('buildTagPubkey', () => {
+  const POSITION = { time: 12.4, xPercent: 40, yPercent: 55 }
+
+  it('uses whole seconds and base-grid cells', () => {
+    expect(buildTagPubkey('feed', createPoint(POSITION))).toBe('feed/T+12s/4x9@9x16/')
+  })
+
+  it('clamps points on the frame edges into the grid', () => {
+    expect(buildTagPubkey('feed', createPoint({ time: -1, xPercent: 0, yPercent: 100 }))).toBe('feed/T+0s/1x16@9x16/')
+  })
+
+  it('uses cells of the given grid', () => {
+    expect(buildTagPubkey('feed', createPoint(POSITION), { rows: 9, columns: 16 })).toBe('feed/T+12s/7x5@16x9/')
+  })
+
+  it('appends the shape of regions after the anchor cell', () => {
+    const shape = { type: 'rectangle' as const, xPercent: 10, yPercent: 20, widthPercent: 30, heightPercent: 20 }
+    const pubkey = buildTagPubkey('feed', createPoint({ ...POSITION, xPercent: 25, yPercent: 30, shape }))
+
+    expect(pubkey).toBe('feed/T+12s/3x5@9x16/rect/10,20,30,20/')
+    expect(parseTagPointsForNamespace([node({ pubkey, memo: 'x' })], 'feed')[0].shape).toEqual(shape)
+  })
+
+  it('appends the end time of ranged points and keeps it after the start', () => {
+    expect(buildTagPubkey('feed', createPoint({ ...POSITION, endTime: 20.6 }))).toBe('feed/T+12s/4x9@9x16/until/T+21s/')
+    expect(buildTagPubkey('feed', createPoint({ ...POSITION, endTime: 12.6 }))).toBe('feed/T+12s/4x9@9x16/until/T+13s/')
+  })
+
+  it('appends keyframes between the shape and the end time', () => {
+    const keyframes = [
+      { time: 12.4, xPercent: 40, yPercent: 55 },
+      { time: 14.25, xPercent: 50.5, yPercent: 60 },
+    ]
+    const pubkey = buildTagPubkey('feed', createPoint({ ...POSITION, endTime: 14.25, keyframes }))
+
+    expect(pubkey).toBe('feed/T+12s/4x9@9x16/track/12.4,40,55,14.25,50.5,60/until/T+14s/')
+    expect(parseTagPointsForNamespace([node({ pubkey, memo: 'x' })], 'feed')[0].keyframes).toEqual(keyframes)
+  })
+
+  it('round-trips through parseTagPointsForNamespace', () => {
+    const pubkey = buildTagPubkey('feed', createPoint(POSITION))
+    const [point] = parseTagPointsForNamespace([node({ pubkey, memo: 'x' })], 'feed')
+
+    expect(point).toEqual(expect.objectContaining({ time: 12, column: 4, row: 9 }))
+  })
+})
+
+describe('buildReplyPubkey', () => {
+  it('nests the sanitized reply ID under the parent pubkey', () => {
+    expect(buildReplyPubkey('feed/T+12s/4x9/', 'reply-1234')).toBe('feed/T+12s/4x9/re/reply-1234/')
+    expect(buildReplyPubkey('feed/T+12s/4x9', 'a/b c')).toBe('feed/T+12s/4x9/re/abc/')
+  })
+})
+
+describe('createPublishReplyMessage', () => {
+  it('signs the reply pubkey and names the parent', () => {
+    const reply: AnnotationReply = { id: 'reply-1', parentId: 'local-1', depth: 1, note: ' thanks ' }
+    const message = createPublishReplyMessage(
+      'req-2',
+      WALLET,
+      'feed',
+      { account: 0, address: 0 },
+      'feed/T+12s/4x9/',
+      reply,
+    )
+    const { public_key: pubkey, memo, signer, signature, parent } = message.body
+
+    expect(pubkey).toBe('feed/T+12s/4x9/re/reply-1/')
+    expect(memo).toBe('thanks')
+    expect(parent).toBe('feed/T+12s/4x9/')
+
+    const [point] = parseTagPointsForNamespace([node({ pubkey, memo, signer, signature })], 'feed')
+    expect(point.signatureStatus).toBe('signed')
+  })
+})
+
+describe('mergeTagPoints', () => {
+  it('replaces graph tags, keeps local points and drops published duplicates', () => {
+    const oldTag = createPoint({ id: 'feed/T+1s/1x1/', isReadOnly: true })
+    const draft = createPoint({ id: 'draft' })
+    const published = createPoint({
+      id: 'published',
+      isReadOnly: true,
+      publishStatus: 'published',
+      tagPubkey: 'feed/T+12s/4x9/',
+    })
+    const awaitingGraph = createPoint({
+      id: 'awaiting',
+      time: 20,
+      isReadOnly: true,
+      publishStatus: 'published',
+      tagPubkey: 'feed/T+20s/4x9/',
+    })
+    const newTag = createPoint({ id: 'feed/T+12s/4x9/', isReadOnly: true })
+
+    expect(mergeTagPoints([oldTag, draft, published, awaitingGraph], [newTag]).map((point) => point.id)).toEqual([
+      'feed/T+12s/4x9/',
+      'draft',
+      'awaiting',
+    ])
+  })
+  it('carries local replies onto the matching graph tag until the graph has them', () => {
+    const pending: AnnotationReply = {
+      id: 'pending',
+      parentId: 'feed/T+1s/1x1/',
+      depth: 1,
+      note: 'p',
+      publishStatus: 'pending',
+    }
+    const published: AnnotationReply = {
+      id: 'published',
+      parentId: 'feed/T+1s/1x1/',
+      depth: 1,
+      note: 'q',
+      isReadOnly: true,
+      publishStatus: 'published',
+      tagPubkey: 'feed/T+1s/1x1/re/published/',
+    }
+    const oldTag = createPoint({ id: 'feed/T+1s/1x1/', isReadOnly: true, replies: [pending, published] })
+    const graphReply: AnnotationReply = {
+      id: 'feed/T+1s/1x1/re/published/',
+      parentId: 'feed/T+1s/1x1/',
+      depth: 1,
+      note: 'q',
+      isReadOnly: true,
+    }
+    const newTag = createPoint({ id: 'feed/T+1s/1x1/', isReadOnly: true, replies: [graphReply] })
+
+    const [merged] = mergeTagPoints([oldTag], [newTag])
+
+    expect(merged.replies?.map((reply) => reply.id)).toEqual(['feed/T+1s/1x1/re/published/', 'pending'])
+  })
+})
+
+describe('parseGraphDelta', () => {
+  it('accepts node and edge changes', () => {
+    expect(
+      parseGraphDelta([
+        { op: 'node_added', id: 'a', attributes: { memo: 'x' } },
+        { op: 'node_removed', id: 'b' },
+        { op: 'edge_added', from: 'a', to: 'c' },
+      ]),
+    ).toEqual([
+      { op: 'node_added', id: 'a', attributes: { memo: 'x' } },
+      { op: 'node_removed', id: 'b' },
+      { op: 'edge_added', from: 'a', to: 'c', attributes: {} },
+    ])
+  })
+
+  it('rejects the whole batch when any change is malformed', () => {
+    expect(
+      parseGraphDelta([
+        { op: 'node_removed', id: 'a' },
+        { op: 'node_changed', id: 'b', attributes: { n: 1 } },
+      ]),
+    ).toBeNull()
+    expect(parseGraphDelta([{ op: 'rename', id: 'a' }])).toBeNull()
+    expect(parseGraphDelta('node_added')).toBeNull()
+  })
+})
+
+describe('applyGraphDelta', () => {
+  it('adds, changes and removes nodes and reports touched namespaces', () => {
+    const graph = parseGraph(`digraph {
+  "v" [namespace="feed", memo="https://example.com/a.mp4"]
+  "t" [pubkey="feed/T+1s/1x1/", memo="first"]
+  "r" [pubkey="feed/T+1s/1x1/re/a/", memo="reply"]
+  "o" [pubkey="other/T+1s/1x1/", memo="untouched"]
+  t -> r
+}`)
+
+    const { graph: next, namespaces } = applyGraphDelta(graph, [
+      { op: 'node_changed', id: 't', attributes: { pubkey: 'feed/T+1s/1x1/', memo: 'edited' } },
+      { op: 'node_removed', id: 'r' },
+      { op: 'node_added', id: 'n', attributes: { pubkey: 'new/T+2s/1x1/', memo: 'new' } },
+    ])
+
+    expect(next.nodes.map((node) => [node.id, node.attributes.memo])).toEqual([
+      ['v', 'https://example.com/a.mp4'],
+      ['t', 'edited'],
+      ['o', 'untouched'],
+      ['n', 'new'],
+    ])
+    expect(next.edges).toEqual([])
+    expect(Array.from(namespaces).sort()).toEqual(['feed', 'new'])
+    expect(graph.nodes).toHaveLength(4)
+  })
+
+  it('starts from an empty graph when there is no snapshot yet', () => {
+    const { graph } = applyGraphDelta(null, [{ op: 'edge_added', from: 'a', to: 'b', attributes: {} }])
+    expect(graph.edges).toEqual([{ from: 'a', to: 'b', attributes: {} }])
+  })
+})
+
+describe('graph snapshots per public key', () => {
+  const snapshots = () =>
+    new Map([
+      ['key-a', parseGraph('digraph { "a" [namespace="a", memo="https://example.com/a.mp4"]; "a/T+1s/1x1/" }')],
+      ['key-b', parseGraph('digraph { "b" [namespace="b", memo="https://example.com/b.mp4"]; "b/T+1s/1x1/" }')],
+    ])
+  const tagB = { op: 'node_added' as const, id: 'b/T+2s/1x1/', attributes: { pubkey: 'b/T+2s/1x1/', memo: 'new' } }
+
+  it('merges the graphs of every key, keeping repeated edges once', () => {
+    const first = parseGraph('digraph { x -> y; a }')
+    const second = parseGraph('digraph { x -> y; b }')
+
+    const merged = mergeGraphs([first, second])
+    expect(merged?.nodes.map((node) => node.id)).toEqual(['x', 'y', 'a', 'b'])
+    expect(merged?.edges).toHaveLength(1)
+    expect(mergeGraphs([])).toBeNull()
+  })
+
+  it('applies a delta for one key without losing the other snapshots', () => {
+    const graphs = snapshots()
+    const namespaces = applyGraphDeltaToSnapshots(graphs, [tagB], 'key-b')
+
+    expect(Array.from(namespaces)).toEqual(['b'])
+    expect(graphs.get('key-a')?.nodes).toHaveLength(2)
+    expect(graphs.get('key-b')?.nodes.map((node) => node.id)).toContain('b/T+2s/1x1/')
+
+    const ids = mergeGraphs(Array.from(graphs.values()))?.nodes.map((node) => node.id)
+    expect(ids).toEqual(expect.arrayContaining(['a/T+1s/1x1/', 'b/T+1s/1x1/', 'b/T+2s/1x1/']))
+  })
+
+  it('applies a delta that names no key to every snapshot', () => {
+    const graphs = snapshots()
+    applyGraphDeltaToSnapshots(graphs, [tagB])
+
+    expect(graphs.get('key-a')?.nodes).toHaveLength(3)
+    expect(graphs.get('key-b')?.nodes).toHaveLength(3)
+  })
+
+  it('keeps existing tags of the delta namespace when reconciling the merged graph', () => {
+    const graphs = new Map([
+      ['key-a', parseGraph('digraph { "a" [namespace="a", memo="https://example.com/a.mp4"] }')],
+      [
+        'key-b',
+        parseGraph(`digraph {
+  "b" [namespace="b", memo="https://example.com/b.mp4"]
+  "b/T+1s/1x1/" [pubkey="b/T+1s/1x1/", memo="old"]
+}`),
+      ],
+    ])
+    const merge = () => mergeGraphs(Array.from(graphs.values())) ?? parseGraph('digraph {}')
+    const tracks = reconcileGraphTracks([], merge())
+    const namespaces = applyGraphDeltaToSnapshots(graphs, [tagB], 'key-b')
+    const next = reconcileGraphTracks(tracks, merge(), namespaces)
+
+    expect(next.find((track) => track.namespace === 'b')?.points.map((point) => point.note)).toEqual(['old', 'new'])
+  })
+})
+
+describe('reconcileGraphTracks', () => {
+  const feedGraph = (tags: string) =>
+    parseGraph(`digraph {
+  "v" [namespace="feed", memo="https://example.com/a.mp4"]
+  ${tags}
+}`)
+
+  it('keeps the key and local points of tracks that are still in the graph', () => {
+    const track = {
+      ...createMediaTrack('https://example.com/a.mp4', 'https://example.com/a.mp4', 'video', 'feed'),
+      points: [createPoint({ id: 'draft', time: 30 })],
+    }
+    const stale = createMediaTrack('https://example.com/stale.mp4', 'stale', 'video', 'feed')
+
+    const [next, ...rest] = reconcileGraphTracks([stale, track], feedGraph('"t" [pubkey="feed/T+2s/1x1/", memo="tag"]'))
+
+    expect(rest).toEqual([])
+    expect(next.key).toBe(track.key)
+    expect(next.points.map((point) => point.id)).toEqual(['feed/T+2s/1x1/', 'draft'])
+  })
+
+  it('keeps tracks that left the graph while they hold local points', () => {
+    const drafted = {
+      ...createMediaTrack('https://example.com/gone.mp4', 'gone', 'video', 'feed'),
+      points: [createPoint({ id: 'draft' }), createPoint({ id: 'feed/T+1s/1x1/', isReadOnly: true })],
+    }
+    const published = {
+      ...createMediaTrack('https://example.com/old.mp4', 'old', 'video', 'feed'),
+      points: [createPoint({ id: 'feed/T+1s/1x1/', isReadOnly: true })],
+    }
+
+    const tracks = reconcileGraphTracks([drafted, published], feedGraph(''))
+
+    expect(tracks.map((track) => track.source)).toEqual(['gone', 'https://example.com/a.mp4'])
+    expect(tracks[0]).toBe(drafted)
+  })
+
+  it('adopts a grid declared by the graph only for tracks without one and reads tags on it', () => {
+    const graph = parseGraph(`digraph {
+  "a" [namespace="feed", memo="https://example.com/a.mp4", grid="16x9"]
+  "b" [namespace="feed", memo="https://example.com/b.mp4", grid="16x9"]
+  "t" [pubkey="feed/T+2s/16x1/", memo="tag"]
+}`)
+    const chosen = {
+      ...createMediaTrack('https://example.com/b.mp4', 'b', 'video', 'feed'),
+      grid: { rows: 4, columns: 4 },
+    }
+
+    const [adopted, kept] = reconcileGraphTracks([chosen], graph)
+
+    expect(adopted.grid).toEqual({ rows: 9, columns: 16 })
+    expect(adopted.points.map((point) => point.id)).toEqual(['feed/T+2s/16x1/'])
+    expect(kept.key).toBe(chosen.key)
+    expect(kept.grid).toEqual({ rows: 4, columns: 4 })
+    expect(kept.points).toEqual([expect.objectContaining({ column: 4, row: 1 })])
+  })
+
+  it('keeps tracks the user added in front of the graph tracks', () => {
+    const added = { ...createMediaTrack('https://example.com/mine.mp4', 'mine', 'video'), isUserAdded: true }
+    const placeholder = createMediaTrack('https://example.com/default.mp4', 'default', 'video')
+
+    const tracks = reconcileGraphTracks([placeholder, added], feedGraph(''))
+
+    expect(tracks.map((track) => track.source)).toEqual(['mine', 'https://example.com/a.mp4'])
+  })
+
+  it('returns the previous array when nothing changed', () => {
+    const graph = feedGraph('"t" [pubkey="feed/T+2s/1x1/", memo="tag"]')
+    const tracks = reconcileGraphTracks([], graph)
+
+    expect(reconcileGraphTracks(tracks, graph)).toBe(tracks)
+  })
+
+  it('only clears removed tags for namespaces touched by a delta', () => {
+    const tracks = reconcileGraphTracks([], feedGraph('"t" [pubkey="feed/T+2s/1x1/", memo="tag"]'))
+    const emptied = feedGraph('')
+
+    expect(reconcileGraphTracks(tracks, emptied)).toBe(tracks)
+    expect(reconcileGraphTracks(tracks, emptied, new Set(['other']))).toBe(tracks)
+    expect(reconcileGraphTracks(tracks, emptied, new Set(['feed']))[0].points).toEqual([])
+  })
+})
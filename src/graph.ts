@@ -0,0 +1,597 @@
+import {
+  createTagSignaturePayload,
+  formatDerivationPath,
+  signWalletNamespaceMessage,
+  verifyGraphNodeSignature,
+} from './hdWallet'
+import type { DerivationPath, Wallet } from './hdWallet'
+import { parseDot } from './dot'
+import type { DotAttributes, DotEdge, DotGraph, DotNode } from './dot'
+import { normalizeLinkHref } from './format'
+import { DEFAULT_GRID, getCellAt, getCellCenter, getTrackGrid, parseGridDimensions } from './grid'
+import { formatKeyframesSegment, parseKeyframesSegment } from './keyframes'
+import { createMediaTrack, inferMediaKind } from './media'
+import { formatShapeSegment, getShapeCenter, parseShapeSegment } from './shapes'
+import type { AnnotationPublishState, AnnotationReply, GridDimensions, MediaTrack, PointOfInterest } from './types'
+
+export type GraphNode = DotNode
+export type GraphEdge = DotEdge
+export type Graph = DotGraph
+
+export type GraphDeltaChange =
+  | { op: 'node_added' | 'node_changed'; id: string; attributes: DotAttributes }
+  | { op: 'node_removed'; id: string }
+  | { op: 'edge_added'; from: string; to: string; attributes: DotAttributes }
+  | { op: 'edge_removed'; from: string; to: string }
+
+const EMPTY_GRAPH: Graph = { strict: false, directed: true, attributes: {}, nodes: [], edges: [] }
+
+export const parseGraph = (dotGraph: string): Graph => parseDot(dotGraph)
+
+export const parseGraphNodes = (dotGraph: string): GraphNode[] => parseGraph(dotGraph).nodes
+
+export const parseGraphVideos = (nodes: GraphNode[]): MediaTrack[] => {
+  const tracks: MediaTrack[] = []
+
+  nodes.forEach(({ attributes }) => {
+    const namespace = attributes.namespace?.trim()
+    const memo = attributes.memo?.trim()
+
+    if (!namespace || !memo) {
+      return
+    }
+
+    const normalizedUrl = normalizeLinkHref(memo)
+    if (normalizedUrl) {
+      const track = createMediaTrack(normalizedUrl, memo, inferMediaKind(normalizedUrl), namespace)
+      const grid = parseGridDimensions(attributes.grid)
+      tracks.push(grid ? { ...track, grid } : track)
+    }
+  })
+
+  return tracks
+}
+
+export const getTrackIdentity = (track: Pick<MediaTrack, 'namespace' | 'url'>): string =>
+  `${track.namespace ?? ''}\u0000${track.url}`
+
+const TAG_NAMESPACE_PATTERN = /^(.+?)\/T\+\d+s\//
+
+/**
+ * The namespace a node contributes to: its own `namespace` attribute for
+ * media nodes, or the prefix of its pubkey for tags and replies.
+ */
+const getNodeNamespace = ({ attributes }: GraphNode): string | undefined =>
+  attributes.namespace?.trim() || attributes.pubkey?.trim().match(TAG_NAMESPACE_PATTERN)?.[1]
+
+const isAttributeRecord = (value: unknown): value is DotAttributes =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((entry) => typeof entry === 'string')
+
+const parseGraphDeltaChange = (value: unknown): GraphDeltaChange | null => {
+  if (typeof value !== 'object' || value === null) {
+    return null
+  }
+
+  const change = value as Record<string, unknown>
+  switch (change.op) {
+    case 'node_added':
+    case 'node_changed':
+      return typeof change.id === 'string' && isAttributeRecord(change.attributes)
+        ? { op: change.op, id: change.id, attributes: change.attributes }
+        : null
+    case 'node_removed':
+      return typeof change.id === 'string' ? { op: change.op, id: change.id } : null
+    case 'edge_added':
+      return typeof change.from === 'string' &&
+        typeof change.to === 'string' &&
+        (change.attributes === undefined || isAttributeRecord(change.attributes))
+        ? { op: change.op, from: change.from, to: change.to, attributes: change.attributes ?? {} }
+        : null
+    case 'edge_removed':
+      return typeof change.from === 'string' && typeof change.to === 'string'
+        ? { op: change.op, from: change.from, to: change.to }
+        : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Validates the `changes` array of a `graph_delta` message. Returns null when
+ * any change is malformed so a bad batch is never half-applied.
+ */
+export const parseGraphDelta = (changes: unknown): GraphDeltaChange[] | null => {
+  if (!Array.isArray(changes)) {
+    return null
+  }
+
+  const parsed = changes.map(parseGraphDeltaChange)
+  return parsed.every((change) => change !== null) ? (parsed as GraphDeltaChange[]) : null
+}
+
+/**
+ * Applies delta changes to a graph snapshot. Also returns the namespaces whose
+ * tracks or tags were touched so only those need to be reconciled.
+ */
+export const applyGraphDelta = (
+  graph: Graph | null,
+  changes: GraphDeltaChange[],
+): { graph: Graph; namespaces: Set<string> } => {
+  const base = graph ?? EMPTY_GRAPH
+  const nodesById = new Map(base.nodes.map((node) => [node.id, node]))
+  let edges = base.edges
+  const namespaces = new Set<string>()
+
+  const touch = (node: GraphNode | undefined) => {
+    const namespace = node && getNodeNamespace(node)
+    if (namespace) {
+      namespaces.add(namespace)
+    }
+  }
+
+  changes.forEach((change) => {
+    switch (change.op) {
+      case 'node_added':
+      case 'node_changed': {
+        const node = { id: change.id, attributes: { ...change.attributes } }
+        touch(nodesById.get(change.id))
+        touch(node)
+        nodesById.set(change.id, node)
+        break
+      }
+      case 'node_removed':
+        touch(nodesById.get(change.id))
+        nodesById.delete(change.id)
+        edges = edges.filter((edge) => edge.from !== change.id && edge.to !== change.id)
+        break
+      case 'edge_added':
+        touch(nodesById.get(change.from))
+        touch(nodesById.get(change.to))
+        if (!base.strict || !edges.some((edge) => edge.from === change.from && edge.to === change.to)) {
+          edges = [...edges, { from: change.from, to: change.to, attributes: { ...change.attributes } }]
+        }
+        break
+      case 'edge_removed':
+        touch(nodesById.get(change.from))
+        touch(nodesById.get(change.to))
+        edges = edges.filter((edge) => edge.from !== change.from || edge.to !== change.to)
+        break
+    }
+  })
+
+  return { graph: { ...base, nodes: Array.from(nodesById.values()), edges }, namespaces }
+}
+
+/**
+ * Applies a delta to the snapshots kept per subscribed public key: only to
+ * the named key's snapshot when the delta names one the client has, and to
+ * every snapshot otherwise. Returns the touched namespaces across all of them.
+ */
+export const applyGraphDeltaToSnapshots = (
+  snapshots: Map<string, Graph>,
+  changes: GraphDeltaChange[],
+  publicKey?: string,
+): Set<string> => {
+  const keys =
+    publicKey !== undefined && snapshots.has(publicKey)
+      ? [publicKey]
+      : snapshots.size
+        ? Array.from(snapshots.keys())
+        : [publicKey ?? '']
+  const namespaces = new Set<string>()
+
+  keys.forEach((key) => {
+    const result = applyGraphDelta(snapshots.get(key) ?? null, changes)
+    snapshots.set(key, result.graph)
+    result.namespaces.forEach((namespace) => namespaces.add(namespace))
+  })
+
+  return namespaces
+}
+
+/**
+ * Combines the graphs served for several public keys into one. A node served
+ * under more than one key keeps the attributes of the last graph, and edges
+ * repeated across graphs are kept once.
+ */
+export const mergeGraphs = (graphs: Graph[]): Graph | null => {
+  if (graphs.length <= 1) {
+    return graphs[0] ?? null
+  }
+
+  const nodesById = new Map<string, GraphNode>()
+  const edges: GraphEdge[] = []
+  const edgeKeys = new Set<string>()
+
+  graphs.forEach((graph) => {
+    graph.nodes.forEach((node) => nodesById.set(node.id, node))
+    const graphEdgeKeys = new Set<string>()
+    graph.edges.forEach((edge) => {
+      const key = `${edge.from}\u0000${edge.to}`
+      if (!edgeKeys.has(key)) {
+        edges.push(edge)
+        graphEdgeKeys.add(key)
+      }
+    })
+    graphEdgeKeys.forEach((key) => edgeKeys.add(key))
+  })
+
+  return { ...graphs[0], nodes: Array.from(nodesById.values()), edges }
+}
+
+/**
+ * The keys a namespace's media nodes list in their `owners` attribute
+ * (separated by spaces or commas). Only tags signed by one of them are
+ * `verified`; a key derived from the namespace string itself is never trusted.
+ */
+export const getNamespaceOwnerKeys = (nodes: GraphNode[], namespace: string): Set<string> =>
+  new Set(
+    nodes.flatMap(({ attributes }) =>
+      attributes.namespace?.trim() === namespace ? (attributes.owners?.split(/[\s,]+/).filter(Boolean) ?? []) : [],
+    ),
+  )
+
+/** The grid a namespace's media node declares in its `grid` attribute, if any. */
+const getNamespaceGrid = (nodes: GraphNode[], namespace: string): GridDimensions | undefined =>
+  nodes
+    .filter(({ attributes }) => attributes.namespace?.trim() === namespace)
+    .map(({ attributes }) => parseGridDimensions(attributes.grid))
+    .find((grid) => grid !== undefined)
+
+const isSameGrid = (first: GridDimensions, second: GridDimensions): boolean =>
+  first.rows === second.rows && first.columns === second.columns
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Reads tag nodes for a namespace. Edges between two tag nodes mark the
+ * target as a reply to the source, so replies are nested under the tag that
+ * starts their thread instead of being returned as points of their own.
+ * A cell may name the grid it was written on (`<column>x<row>@<columns>x<rows>`);
+ * cells without one use the grid the namespace's media node declares, or the
+ * default grid. Points are returned in cells of `grid`, the track's own grid.
+ * A `rect/…` or `poly/…` segment after the cell makes the tag a region, a
+ * `track/…` segment gives it keyframes to move along, and a trailing
+ * `until/T+<seconds>s/` segment gives it an end time.
+ */
+export const parseTagPointsForNamespace = (
+  nodes: GraphNode[],
+  namespace?: string,
+  edges: GraphEdge[] = [],
+  grid: GridDimensions = DEFAULT_GRID,
+): PointOfInterest[] => {
+  if (!namespace) {
+    return []
+  }
+
+  const pattern = new RegExp(
+    `^${escapeRegExp(namespace)}/T\\+(\\d+)s/(\\d+)x(\\d+)(?:@(\\d+x\\d+))?/` +
+      '(?:((?:rect|poly)/[^/]*)/)?(?:(track/[^/]*)/)?(?:until/T\\+(\\d+)s/)?',
+  )
+  const pointsByNodeId = new Map<string, PointOfInterest>()
+  const ownerKeys = getNamespaceOwnerKeys(nodes, namespace)
+  const declaredGrid = getNamespaceGrid(nodes, namespace) ?? DEFAULT_GRID
+
+  nodes.forEach(({ id, attributes }) => {
+    const memo = attributes.memo?.trim()
+    const pubkey = attributes.pubkey?.trim()
+
+    if (!memo || !pubkey) {
+      return
+    }
+
+    const match = pubkey.match(pattern)
+    if (!match) {
+      return
+    }
+
+    const [, timeString, columnString, rowString, gridString, shapeSegment, keyframesSegment, endTimeString] = match
+    const time = Number.parseInt(timeString, 10)
+    const column = Number.parseInt(columnString, 10)
+    const row = Number.parseInt(rowString, 10)
+    const tagGrid = gridString === undefined ? declaredGrid : parseGridDimensions(gridString)
+
+    if (
+      !tagGrid ||
+      Number.isNaN(time) ||
+      column < 1 ||
+      column > tagGrid.columns ||
+      row < 1 ||
+      row > tagGrid.rows
+    ) {
+      return
+    }
+
+    const shape = shapeSegment === undefined ? undefined : parseShapeSegment(shapeSegment)
+    if (shapeSegment !== undefined && !shape) {
+      return
+    }
+
+    const keyframes = keyframesSegment === undefined ? undefined : parseKeyframesSegment(keyframesSegment)
+    if (keyframesSegment !== undefined && !keyframes) {
+      return
+    }
+
+    const endTime = endTimeString === undefined ? undefined : Number.parseInt(endTimeString, 10)
+    if (endTime !== undefined && endTime <= time) {
+      return
+    }
+
+    const anchor = getCellCenter({ row, column }, tagGrid)
+    const { xPercent, yPercent } = keyframes?.[0] ?? (shape ? getShapeCenter(shape) : anchor)
+    const cell = isSameGrid(tagGrid, grid) ? { row, column } : getCellAt(anchor.xPercent, anchor.yPercent, grid)
+
+    pointsByNodeId.set(id, {
+      id: pubkey,
+      time,
+      ...(endTime === undefined ? {} : { endTime }),
+      ...cell,
+      xPercent,
+      yPercent,
+      note: memo,
+      ...(shape ? { shape } : {}),
+      ...(keyframes ? { keyframes } : {}),
+      isReadOnly: true,
+      signatureStatus: verifyGraphNodeSignature(attributes, ownerKeys),
+      ...(attributes.signer ? { signer: attributes.signer.trim() } : {}),
+    })
+  })
+
+  const childNodeIds = new Map<string, string[]>()
+  const replyNodeIds = new Set<string>()
+
+  edges.forEach(({ from, to }) => {
+    if (from === to || !pointsByNodeId.has(from) || !pointsByNodeId.has(to)) {
+      return
+    }
+
+    childNodeIds.set(from, [...(childNodeIds.get(from) ?? []), to])
+    replyNodeIds.add(to)
+  })
+
+  const collectReplies = (nodeId: string, depth: number, visited: Set<string>): AnnotationReply[] => {
+    const parent = pointsByNodeId.get(nodeId)
+    if (!parent) {
+      return []
+    }
+
+    return (childNodeIds.get(nodeId) ?? []).flatMap((childId) => {
+      const child = pointsByNodeId.get(childId)
+      if (!child || visited.has(childId)) {
+        return []
+      }
+
+      visited.add(childId)
+      const reply: AnnotationReply = {
+        id: child.id,
+        parentId: parent.id,
+        depth,
+        note: child.note,
+        isReadOnly: true,
+        signatureStatus: child.signatureStatus,
+        ...(child.signer ? { signer: child.signer } : {}),
+      }
+
+      return [reply, ...collectReplies(childId, depth + 1, visited)]
+    })
+  }
+
+  return Array.from(pointsByNodeId.entries())
+    .filter(([nodeId]) => !replyNodeIds.has(nodeId))
+    .map(([nodeId, point]) => {
+      const replies = collectReplies(nodeId, 1, new Set([nodeId]))
+      return replies.length ? { ...point, replies } : point
+    })
+    .sort((a, b) => a.time - b.time)
+}
+
+export const buildTagPubkey = (
+  namespace: string,
+  point: PointOfInterest,
+  grid: GridDimensions = DEFAULT_GRID,
+): string => {
+  const seconds = Math.max(0, Math.floor(point.time))
+  const { column, row } = getCellAt(point.xPercent, point.yPercent, grid)
+  const shapeSegment = point.shape ? `${formatShapeSegment(point.shape)}/` : ''
+  const keyframesSegment = point.keyframes ? `${formatKeyframesSegment(point.keyframes)}/` : ''
+  const endSegment =
+    point.endTime === undefined ? '' : `until/T+${Math.max(seconds + 1, Math.round(point.endTime))}s/`
+
+  const cellSegment = `${column}x${row}@${grid.columns}x${grid.rows}`
+  return `${namespace}/T+${seconds}s/${cellSegment}/${shapeSegment}${keyframesSegment}${endSegment}`
+}
+
+export const buildReplyPubkey = (parentPubkey: string, replyId: string): string => {
+  const parentPath = parentPubkey.endsWith('/') ? parentPubkey : `${parentPubkey}/`
+  const replySegment = replyId.replace(/[^A-Za-z0-9-]/g, '').slice(-36) || 'reply'
+  return `${parentPath}re/${replySegment}/`
+}
+
+/**
+ * Returns the graph pubkey an annotation is known by, or undefined while it
+ * only exists locally.
+ */
+export const getAnnotationPubkey = (
+  annotation: AnnotationPublishState & { id: string },
+): string | undefined => {
+  if (annotation.publishStatus) {
+    return annotation.publishStatus === 'published' ? annotation.tagPubkey : undefined
+  }
+
+  return annotation.isReadOnly ? annotation.id : undefined
+}
+
+export type PublishTagMessage = {
+  type: 'publish_tag'
+  body: {
+    request_id: string
+    public_key: string
+    memo: string
+    path: string
+    signer: string
+    signature: string
+    parent?: string
+  }
+}
+
+const createSignedTagMessage = (
+  requestId: string,
+  wallet: Wallet,
+  namespace: string,
+  derivationPath: DerivationPath,
+  tagPubkey: string,
+  memo: string,
+  parent?: string,
+): PublishTagMessage => {
+  const { publicKey, signature } = signWalletNamespaceMessage(
+    wallet,
+    namespace,
+    createTagSignaturePayload(tagPubkey, memo),
+    derivationPath,
+  )
+
+  return {
+    type: 'publish_tag',
+    body: {
+      request_id: requestId,
+      public_key: tagPubkey,
+      memo,
+      path: formatDerivationPath(derivationPath),
+      signer: publicKey,
+      signature,
+      ...(parent ? { parent } : {}),
+    },
+  }
+}
+
+export const createPublishTagMessage = (
+  requestId: string,
+  wallet: Wallet,
+  namespace: string,
+  derivationPath: DerivationPath,
+  point: PointOfInterest,
+  grid: GridDimensions = DEFAULT_GRID,
+): PublishTagMessage =>
+  createSignedTagMessage(
+    requestId,
+    wallet,
+    namespace,
+    derivationPath,
+    buildTagPubkey(namespace, point, grid),
+    point.note.trim(),
+  )
+
+export const createPublishReplyMessage = (
+  requestId: string,
+  wallet: Wallet,
+  namespace: string,
+  derivationPath: DerivationPath,
+  parentPubkey: string,
+  reply: AnnotationReply,
+): PublishTagMessage =>
+  createSignedTagMessage(
+    requestId,
+    wallet,
+    namespace,
+    derivationPath,
+    buildReplyPubkey(parentPubkey, reply.id),
+    reply.note.trim(),
+    parentPubkey,
+  )
+
+const isLocalAnnotation = (annotation: AnnotationPublishState): boolean =>
+  !annotation.isReadOnly || Boolean(annotation.publishStatus)
+
+export const mergeTagPoints = (localPoints: PointOfInterest[], tagPoints: PointOfInterest[]): PointOfInterest[] => {
+  const tagIds = new Set(tagPoints.map((point) => point.id))
+  const retainedPoints = localPoints.filter(
+    (point) => isLocalAnnotation(point) && !(point.tagPubkey && tagIds.has(point.tagPubkey)),
+  )
+
+  const localRepliesByPubkey = new Map<string, AnnotationReply[]>()
+  localPoints.forEach((point) => {
+    const localReplies = (point.replies ?? []).filter(isLocalAnnotation)
+    const pubkey = getAnnotationPubkey(point)
+    if (localReplies.length && pubkey) {
+      localRepliesByPubkey.set(pubkey, localReplies)
+    }
+  })
+
+  const mergedTagPoints = tagPoints.map((point) => {
+    const graphReplyIds = new Set((point.replies ?? []).map((reply) => reply.id))
+    const carriedReplies = (localRepliesByPubkey.get(point.id) ?? []).filter(
+      (reply) => !(reply.tagPubkey && graphReplyIds.has(reply.tagPubkey)),
+    )
+
+    return carriedReplies.length ? { ...point, replies: [...(point.replies ?? []), ...carriedReplies] } : point
+  })
+
+  return [...mergedTagPoints, ...retainedPoints].sort((a, b) => a.time - b.time)
+}
+
+const hasLocalPoints = (track: MediaTrack): boolean => track.points.some((point) => !point.isReadOnly)
+
+const arePointListsEqual = (a: PointOfInterest[], b: PointOfInterest[]): boolean =>
+  a.length === b.length &&
+  a.every((point, index) => point === b[index] || JSON.stringify(point) === JSON.stringify(b[index]))
+
+/**
+ * Folds a graph snapshot into the current tracks. Tracks are matched by
+ * namespace and URL so they keep their key, local points and playback state.
+ * Tracks the user added stay in front of the graph's, as do tracks that left
+ * the graph but still hold local points, so no draft is lost. Unchanged
+ * tracks keep their identity and the previous array is returned when nothing
+ * changed at all. A full graph only updates the tags of
+ * namespaces it has tags for, while `namespaces` (from a delta) limits the
+ * update to those namespaces and also clears tags that were removed. A grid
+ * declared on a media node is only adopted by tracks that have none yet, so
+ * a grid chosen locally is kept.
+ */
+export const reconcileGraphTracks = (
+  previous: MediaTrack[],
+  graph: Graph,
+  namespaces?: Set<string>,
+): MediaTrack[] => {
+  const graphTracks = parseGraphVideos(graph.nodes)
+  const previousByIdentity = new Map(previous.map((track) => [getTrackIdentity(track), track]))
+  const seenIdentities = new Set<string>()
+  const matchedGraphTracks = graphTracks.flatMap((track) => {
+    const identity = getTrackIdentity(track)
+    if (seenIdentities.has(identity)) {
+      return []
+    }
+    seenIdentities.add(identity)
+    const existing = previousByIdentity.get(identity)
+    if (!existing) {
+      return [track]
+    }
+    return [existing.grid || !track.grid ? existing : { ...existing, grid: track.grid }]
+  })
+  const baseTracks = graphTracks.length
+    ? [
+        ...previous.filter(
+          (track) => (track.isUserAdded || hasLocalPoints(track)) && !seenIdentities.has(getTrackIdentity(track)),
+        ),
+        ...matchedGraphTracks,
+      ]
+    : previous
+
+  const next = baseTracks.map((track) => {
+    if (!track.namespace || (namespaces && !namespaces.has(track.namespace))) {
+      return track
+    }
+
+    const tagPoints = parseTagPointsForNamespace(graph.nodes, track.namespace, graph.edges, getTrackGrid(track))
+    if (!namespaces && !tagPoints.length) {
+      return track
+    }
+
+    const points = mergeTagPoints(track.points, tagPoints)
+    return arePointListsEqual(track.points, points) ? track : { ...track, points }
+  })
+
+  return next.length === previous.length && next.every((track, index) => track === previous[index]) ? previous : next
+}
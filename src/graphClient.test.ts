@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createGraphClient, getRetryDelay } from './graphClient'
+import type { GraphClientOptions, GraphConnectionStatus } from './graphClient'
+
+type Listener = (event: { data?: unknown }) => void
+
+class FakeSocket {
+  readyState = 0
+  sent: unknown[] = []
+  private listeners = new Map<string, Listener[]>()
+
+  addEventListener(type: string, listener: Listener) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener])
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.readyState = 3
+  }
+
+  emit(type: string, event: { data?: unknown } = {}) {
+    if (type === 'open') {
+      this.readyState = 1
+    }
+    if (type === 'close') {
+      this.readyState = 3
+    }
+    this.listeners.get(type)?.forEach((listener) => listener(event))
+  }
+}
+
+const setup = (options: Partial<GraphClientOptions> = {}) => {
+  const sockets: FakeSocket[] = []
+  const statuses: GraphConnectionStatus[] = []
+  const onMessage = vi.fn()
+  const onDisconnect = vi.fn()
+
+  const client = createGraphClient({
+    url: 'wss://graph.example',
+    onMessage,
+    onDisconnect,
+    onStateChange: (state) => statuses.push(state.status),
+    createSocket: () => {
+      const socket = new FakeSocket()
+      sockets.push(socket)
+      return socket as unknown as WebSocket
+    },
+    initialRetryDelayMs: 100,
+    maxRetryDelayMs: 1000,
+    heartbeatIntervalMs: 5000,
+    heartbeatTimeoutMs: 1000,
+    random: () => 1,
+    ...options,
+  })
+
+  return { client, sockets, statuses, onMessage, onDisconnect }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'error').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('getRetryDelay', () => {
+  it('doubles per attempt up to the maximum', () => {
+    const delays = [1, 2, 3, 4, 5, 6].map((attempt) => getRetryDelay(attempt, 1000, 10000, () => 1))
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 10000, 10000])
+  })
+
+  it('applies jitter down to half the delay', () => {
+    expect(getRetryDelay(2, 1000, 10000, () => 0)).toBe(1000)
+  })
+})
+
+describe('createGraphClient', () => {
+  it('queues requests until the socket opens and subscribes first', () => {
+    const { client, sockets } = setup()
+    client.setSubscriptions(['key-a'])
+    client.request({ type: 'get_graph', body: { public_key: 'queued' } })
+
+    expect(sockets[0].sent).toEqual([])
+
+    sockets[0].emit('open')
+
+    expect(sockets[0].sent).toEqual([
+      { type: 'get_graph', body: { public_key: 'key-a' } },
+      { type: 'get_graph', body: { public_key: 'queued' } },
+    ])
+  })
+
+  it('reports when a queued request is actually sent', () => {
+    const { client, sockets } = setup()
+    const onSent = vi.fn()
+
+    client.request({ type: 'publish_tag' }, onSent)
+    expect(onSent).not.toHaveBeenCalled()
+
+    sockets[0].emit('open')
+    expect(onSent).toHaveBeenCalledTimes(1)
+
+    client.request({ type: 'publish_tag' }, onSent)
+    expect(onSent).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps queued requests across failed connection attempts', () => {
+    const { client, sockets } = setup()
+    client.request({ type: 'publish_tag' })
+
+    sockets[0].emit('close')
+    vi.advanceTimersByTime(100)
+    sockets[1].emit('open')
+
+    expect(sockets[1].sent).toEqual([{ type: 'publish_tag' }])
+  })
+
+  it('does not queue messages passed to send', () => {
+    const { client, sockets } = setup()
+
+    expect(client.send({ type: 'publish_tag' })).toBe(false)
+    sockets[0].emit('open')
+
+    expect(sockets[0].sent).toEqual([])
+    expect(client.send({ type: 'publish_tag' })).toBe(true)
+  })
+
+  it('requests only new subscriptions while connected', () => {
+    const { client, sockets } = setup()
+    client.setSubscriptions(['key-a'])
+    sockets[0].emit('open')
+    sockets[0].sent = []
+
+    client.setSubscriptions(['key-a', 'key-b'])
+
+    expect(sockets[0].sent).toEqual([{ type: 'get_graph', body: { public_key: 'key-b' } }])
+  })
+
+  it('reconnects with backoff and re-subscribes after a drop', () => {
+    const { client, sockets, statuses, onDisconnect } = setup()
+    client.setSubscriptions(['key-a', 'key-b'])
+    sockets[0].emit('open')
+    sockets[0].emit('close')
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1)
+    expect(client.getState()).toEqual(expect.objectContaining({ status: 'reconnecting', attempt: 1 }))
+
+    vi.advanceTimersByTime(100)
+    sockets[1].emit('close')
+    expect(client.getState().attempt).toBe(2)
+
+    vi.advanceTimersByTime(199)
+    expect(sockets).toHaveLength(2)
+    vi.advanceTimersByTime(1)
+    sockets[2].emit('open')
+
+    expect(sockets[2].sent).toEqual([
+      { type: 'get_graph', body: { public_key: 'key-a' } },
+      { type: 'get_graph', body: { public_key: 'key-b' } },
+    ])
+    expect(client.getState()).toEqual(expect.objectContaining({ status: 'open', attempt: 0 }))
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'connecting', 'reconnecting', 'connecting', 'open'])
+  })
+
+  it('pings a silent connection and drops it when nothing arrives', () => {
+    const { sockets, onMessage } = setup()
+    sockets[0].emit('open')
+
+    vi.advanceTimersByTime(5000)
+    expect(sockets[0].sent).toEqual([{ type: 'ping' }])
+
+    sockets[0].emit('message', { data: JSON.stringify({ type: 'pong' }) })
+    expect(onMessage).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(5000 + 1000)
+    expect(sockets[0].readyState).toBe(3)
+
+    vi.advanceTimersByTime(100)
+    expect(sockets).toHaveLength(2)
+  })
+
+  it('forwards parsed messages and skips invalid JSON', () => {
+    const { sockets, onMessage } = setup()
+    sockets[0].emit('open')
+    sockets[0].emit('message', { data: 'not json' })
+    sockets[0].emit('message', { data: JSON.stringify({ type: 'graph', body: { graph: 'digraph {}' } }) })
+
+    expect(onMessage).toHaveBeenCalledTimes(1)
+    expect(onMessage).toHaveBeenCalledWith({ type: 'graph', body: { graph: 'digraph {}' } })
+  })
+
+  it('drops frames that are not messages', () => {
+    const { sockets, onMessage } = setup()
+    sockets[0].emit('open')
+    const frames = ['null', '42', '"graph"', '[]', '{}', '{"type":1}', '{"type":"graph","body":null}']
+    frames.forEach((data) => sockets[0].emit('message', { data }))
+
+    expect(onMessage).not.toHaveBeenCalled()
+  })
+
+  it('stops reconnecting once closed', () => {
+    const { client, sockets, onDisconnect } = setup()
+    sockets[0].emit('open')
+    client.close()
+    sockets[0].emit('close')
+    vi.advanceTimersByTime(10000)
+
+    expect(sockets).toHaveLength(1)
+    expect(onDisconnect).toHaveBeenCalledTimes(1)
+    expect(client.getState().status).toBe('closed')
+  })
+})
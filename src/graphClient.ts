@@ -0,0 +1,306 @@
+export type GraphConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+export type GraphConnectionState = {
+  status: GraphConnectionStatus
+  /** Consecutive failed connection attempts since the last successful open. */
+  attempt: number
+  /** When the next reconnect attempt is scheduled, in epoch milliseconds. */
+  retryAt: number | null
+  error: string | null
+}
+
+export type GraphClientMessage = {
+  type: string
+  body?: Record<string, unknown>
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** Whether a parsed frame has the `{ type, body? }` shape every server message has. */
+const isGraphClientMessage = (value: unknown): value is GraphClientMessage =>
+  isObject(value) && typeof value.type === 'string' && (value.body === undefined || isObject(value.body))
+
+type QueuedMessage = {
+  message: GraphClientMessage
+  onSent?: () => void
+}
+
+type GraphSocket = Pick<WebSocket, 'readyState' | 'send' | 'close' | 'addEventListener'>
+
+export type GraphClientOptions = {
+  url: string
+  protocols?: string[]
+  onMessage: (message: GraphClientMessage) => void
+  onStateChange?: (state: GraphConnectionState) => void
+  /** Called whenever an open connection is lost or closed. */
+  onDisconnect?: () => void
+  createSocket?: (url: string, protocols?: string[]) => GraphSocket
+  initialRetryDelayMs?: number
+  maxRetryDelayMs?: number
+  heartbeatIntervalMs?: number
+  heartbeatTimeoutMs?: number
+  random?: () => number
+}
+
+export type GraphClient = {
+  /**
+   * Sends immediately when connected, otherwise queues until the next open.
+   * `onSent` runs once the message has actually been written to a socket.
+   */
+  request: (message: GraphClientMessage, onSent?: () => void) => void
+  /** Sends only when connected; returns false instead of queueing. */
+  send: (message: GraphClientMessage) => boolean
+  /**
+   * Replaces the set of public keys the client asks graphs for. New keys are
+   * requested right away and every key is requested again after a reconnect.
+   */
+  setSubscriptions: (publicKeys: Iterable<string>) => void
+  getState: () => GraphConnectionState
+  close: () => void
+}
+
+const SOCKET_OPEN = 1
+const DEFAULT_INITIAL_RETRY_DELAY_MS = 1000
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 25000
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 10000
+
+export const createGraphRequest = (publicKey: string): GraphClientMessage => ({
+  type: 'get_graph',
+  body: {
+    public_key: publicKey,
+  },
+})
+
+/**
+ * Exponential backoff with jitter: the delay doubles with each failed attempt
+ * up to the maximum, and is then scaled into [50%, 100%] so that many clients
+ * dropped at once do not reconnect in lockstep.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  initialDelayMs = DEFAULT_INITIAL_RETRY_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+  random: () => number = Math.random,
+): number => {
+  const exponential = Math.min(maxDelayMs, initialDelayMs * 2 ** Math.max(0, attempt - 1))
+  return Math.round(exponential * (0.5 + random() / 2))
+}
+
+/**
+ * Keeps a `consequence.1` graph connection alive. Lost connections are
+ * retried with backoff, silent ones are probed with `ping` and dropped when
+ * nothing arrives before the heartbeat timeout, requests made while offline
+ * are queued and subscriptions are renewed on every open.
+ */
+export const createGraphClient = ({
+  url,
+  protocols,
+  onMessage,
+  onStateChange,
+  onDisconnect,
+  createSocket = (socketUrl, socketProtocols) => new WebSocket(socketUrl, socketProtocols),
+  initialRetryDelayMs = DEFAULT_INITIAL_RETRY_DELAY_MS,
+  maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+  heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS,
+  heartbeatTimeoutMs = DEFAULT_HEARTBEAT_TIMEOUT_MS,
+  random = Math.random,
+}: GraphClientOptions): GraphClient => {
+  let socket: GraphSocket | null = null
+  let state: GraphConnectionState = { status: 'connecting', attempt: 0, retryAt: null, error: null }
+  let isClosed = false
+  let retryTimeoutId: ReturnType<typeof setTimeout> | null = null
+  let heartbeatTimeoutId: ReturnType<typeof setTimeout> | null = null
+  const queue: QueuedMessage[] = []
+  const subscriptions = new Set<string>()
+
+  const setState = (changes: Partial<GraphConnectionState>) => {
+    state = { ...state, ...changes }
+    onStateChange?.(state)
+  }
+
+  const isOpen = () => socket !== null && socket.readyState === SOCKET_OPEN
+
+  const write = (message: GraphClientMessage): boolean => {
+    if (!socket || !isOpen()) {
+      return false
+    }
+
+    try {
+      socket.send(JSON.stringify(message))
+      return true
+    } catch (error) {
+      console.error('Error sending graph message', error)
+      return false
+    }
+  }
+
+  const clearHeartbeat = () => {
+    if (heartbeatTimeoutId !== null) {
+      clearTimeout(heartbeatTimeoutId)
+      heartbeatTimeoutId = null
+    }
+  }
+
+  const scheduleHeartbeat = () => {
+    clearHeartbeat()
+    heartbeatTimeoutId = setTimeout(() => {
+      write({ type: 'ping' })
+      heartbeatTimeoutId = setTimeout(() => {
+        setState({ error: 'The graph server stopped responding.' })
+        socket?.close()
+        handleDisconnect()
+      }, heartbeatTimeoutMs)
+    }, heartbeatIntervalMs)
+  }
+
+  const scheduleReconnect = () => {
+    const attempt = state.attempt + 1
+    const delay = getRetryDelay(attempt, initialRetryDelayMs, maxRetryDelayMs, random)
+    setState({ status: 'reconnecting', attempt, retryAt: Date.now() + delay })
+    retryTimeoutId = setTimeout(() => {
+      retryTimeoutId = null
+      connect()
+    }, delay)
+  }
+
+  const handleDisconnect = () => {
+    if (!socket) {
+      return
+    }
+
+    const wasOpen = state.status === 'open'
+    socket = null
+    clearHeartbeat()
+
+    if (wasOpen) {
+      onDisconnect?.()
+    }
+
+    if (!isClosed) {
+      scheduleReconnect()
+    }
+  }
+
+  const connect = () => {
+    setState({ status: 'connecting', retryAt: null })
+
+    let nextSocket: GraphSocket
+    try {
+      nextSocket = createSocket(url, protocols)
+    } catch (error) {
+      console.error('Error creating WebSocket', error)
+      setState({ status: 'closed', error: 'Unable to connect with the provided WebSocket URL.' })
+      return
+    }
+
+    socket = nextSocket
+
+    nextSocket.addEventListener('open', () => {
+      if (socket !== nextSocket) {
+        return
+      }
+
+      setState({ status: 'open', attempt: 0, retryAt: null, error: null })
+      subscriptions.forEach((publicKey) => write(createGraphRequest(publicKey)))
+      queue.splice(0).forEach((entry) => {
+        if (write(entry.message)) {
+          entry.onSent?.()
+        } else {
+          queue.push(entry)
+        }
+      })
+      scheduleHeartbeat()
+    })
+
+    nextSocket.addEventListener('message', (event) => {
+      if (socket !== nextSocket) {
+        return
+      }
+
+      scheduleHeartbeat()
+
+      let message: unknown
+      try {
+        message = JSON.parse(String(event.data))
+      } catch (error) {
+        console.error('Error parsing graph message', error)
+        return
+      }
+
+      if (!isGraphClientMessage(message)) {
+        console.error('Ignoring malformed graph message', message)
+        return
+      }
+
+      if (message.type === 'pong') {
+        return
+      }
+
+      onMessage(message)
+    })
+
+    nextSocket.addEventListener('error', (event) => {
+      if (socket !== nextSocket) {
+        return
+      }
+
+      console.error('WebSocket error', event)
+      setState({ error: 'WebSocket connection error.' })
+    })
+
+    nextSocket.addEventListener('close', () => {
+      if (socket !== nextSocket) {
+        return
+      }
+
+      handleDisconnect()
+    })
+  }
+
+  connect()
+
+  return {
+    request: (message, onSent) => {
+      if (write(message)) {
+        onSent?.()
+      } else {
+        queue.push({ message, onSent })
+      }
+    },
+    send: write,
+    setSubscriptions: (publicKeys) => {
+      const next = new Set(publicKeys)
+      subscriptions.forEach((publicKey) => {
+        if (!next.has(publicKey)) {
+          subscriptions.delete(publicKey)
+        }
+      })
+      next.forEach((publicKey) => {
+        if (!subscriptions.has(publicKey)) {
+          subscriptions.add(publicKey)
+          write(createGraphRequest(publicKey))
+        }
+      })
+    },
+    getState: () => state,
+    close: () => {
+      if (isClosed) {
+        return
+      }
+
+      isClosed = true
+      if (retryTimeoutId !== null) {
+        clearTimeout(retryTimeoutId)
+        retryTimeoutId = null
+      }
+
+      const activeSocket = socket
+      handleDisconnect()
+      activeSocket?.close()
+      queue.length = 0
+      setState({ status: 'closed', retryAt: null })
+    },
+  }
+}
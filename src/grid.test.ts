@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { detectAspectRatio, getCellAt, getCellCenter, getFramePadding, parseGridDimensions } from './grid'
+
+describe('parseGridDimensions', () => {
+  it('reads columns x rows within the supported range', () => {
+    expect(parseGridDimensions(' 16x9 ')).toEqual({ rows: 9, columns: 16 })
+    expect(parseGridDimensions('65x1')).toBeUndefined()
+    expect(parseGridDimensions('1.5x2')).toBeUndefined()
+    expect(parseGridDimensions(undefined)).toBeUndefined()
+  })
+})
+
+describe('getCellAt', () => {
+  it('maps coordinates onto the grid and clamps the frame edges', () => {
+    const grid = { rows: 9, columns: 16 }
+
+    expect(getCellAt(50, 50, grid)).toEqual({ column: 8, row: 5 })
+    expect(getCellAt(0, 100, grid)).toEqual({ column: 1, row: 9 })
+    expect(getCellAt(getCellCenter({ row: 3, column: 12 }, grid).xPercent, 30, grid)).toEqual({ column: 12, row: 3 })
+  })
+})
+
+describe('frame shape', () => {
+  it('pads the frame to the detected aspect ratio', () => {
+    expect(getFramePadding()).toBe('177.78%')
+    expect(getFramePadding(detectAspectRatio(1920, 1080))).toBe('56.25%')
+    expect(detectAspectRatio(0, 1080)).toBeUndefined()
+  })
+})
@@ -0,0 +1,58 @@
+import type { GridDimensions } from './types'
+
+export const DEFAULT_GRID: GridDimensions = { rows: 16, columns: 9 }
+export const DEFAULT_ASPECT_RATIO = 9 / 16
+export const MIN_GRID_DIMENSION = 1
+export const MAX_GRID_DIMENSION = 64
+
+const GRID_DIMENSIONS_PATTERN = /^(\d+)x(\d+)$/
+
+export const clampCellIndex = (value: number, max: number): number => Math.min(max, Math.max(1, value))
+
+export const clampGridDimension = (value: number): number =>
+  Math.min(MAX_GRID_DIMENSION, Math.max(MIN_GRID_DIMENSION, Math.round(value)))
+
+/**
+ * Reads `<columns>x<rows>`, the same order tag pubkeys use for cells. Returns
+ * undefined for anything outside the supported range.
+ */
+export const parseGridDimensions = (value: string | undefined): GridDimensions | undefined => {
+  const match = value?.trim().match(GRID_DIMENSIONS_PATTERN)
+  if (!match) {
+    return undefined
+  }
+
+  const columns = Number(match[1])
+  const rows = Number(match[2])
+  return clampGridDimension(columns) === columns && clampGridDimension(rows) === rows ? { rows, columns } : undefined
+}
+
+export const formatGridDimensions = ({ rows, columns }: GridDimensions): string => `${columns}x${rows}`
+
+export const getTrackGrid = (track: { grid?: GridDimensions }): GridDimensions => track.grid ?? DEFAULT_GRID
+
+/**
+ * Width divided by height of the media, or undefined when either side is
+ * unknown (metadata not loaded yet).
+ */
+export const detectAspectRatio = (width: number, height: number): number | undefined =>
+  width > 0 && height > 0 ? width / height : undefined
+
+export const getFramePadding = (aspectRatio = DEFAULT_ASPECT_RATIO): string => `${(100 / aspectRatio).toFixed(2)}%`
+
+export const getCellCenter = (
+  { row, column }: { row: number; column: number },
+  grid: GridDimensions,
+): { xPercent: number; yPercent: number } => ({
+  xPercent: ((column - 0.5) / grid.columns) * 100,
+  yPercent: ((row - 0.5) / grid.rows) * 100,
+})
+
+export const getCellAt = (
+  xPercent: number,
+  yPercent: number,
+  grid: GridDimensions,
+): { row: number; column: number } => ({
+  column: clampCellIndex(Math.ceil((xPercent / 100) * grid.columns), grid.columns),
+  row: clampCellIndex(Math.ceil((yPercent / 100) * grid.rows), grid.rows),
+})
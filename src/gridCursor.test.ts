@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { cycleAnnotation, getInitialCursor, isCursorKey, moveGridCursor } from './gridCursor'
+
+const GRID = { rows: 16, columns: 9 }
+
+describe('moveGridCursor', () => {
+  it('starts in the middle of the grid', () => {
+    expect(getInitialCursor(GRID)).toEqual({ row: 8, column: 5 })
+  })
+
+  it('moves one cell per arrow key', () => {
+    expect(moveGridCursor({ row: 8, column: 5 }, 'ArrowUp', GRID)).toEqual({ row: 7, column: 5 })
+    expect(moveGridCursor({ row: 8, column: 5 }, 'ArrowRight', GRID)).toEqual({ row: 8, column: 6 })
+  })
+
+  it('stops at the edges of the grid', () => {
+    expect(moveGridCursor({ row: 1, column: 9 }, 'ArrowUp', GRID)).toEqual({ row: 1, column: 9 })
+    expect(moveGridCursor({ row: 16, column: 9 }, 'ArrowRight', GRID)).toEqual({ row: 16, column: 9 })
+  })
+
+  it('ignores other keys', () => {
+    expect(isCursorKey('Enter')).toBe(false)
+    expect(moveGridCursor({ row: 2, column: 3 }, 'Enter', GRID)).toEqual({ row: 2, column: 3 })
+  })
+})
+
+describe('cycleAnnotation', () => {
+  const points = [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+
+  it('starts at the first or last annotation', () => {
+    expect(cycleAnnotation(points, undefined, 1)).toEqual({ id: 'a' })
+    expect(cycleAnnotation(points, 'gone', -1)).toEqual({ id: 'c' })
+  })
+
+  it('wraps around in both directions', () => {
+    expect(cycleAnnotation(points, 'c', 1)).toEqual({ id: 'a' })
+    expect(cycleAnnotation(points, 'a', -1)).toEqual({ id: 'c' })
+    expect(cycleAnnotation(points, 'a', 1)).toEqual({ id: 'b' })
+  })
+
+  it('returns undefined without annotations', () => {
+    expect(cycleAnnotation([], 'a', 1)).toBeUndefined()
+  })
+})
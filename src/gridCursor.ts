@@ -0,0 +1,54 @@
+import { clampCellIndex } from './grid'
+import type { GridDimensions, PointOfInterest } from './types'
+
+export type GridCell = {
+  row: number
+  column: number
+}
+
+const CURSOR_OFFSETS: Record<string, GridCell> = {
+  ArrowUp: { row: -1, column: 0 },
+  ArrowDown: { row: 1, column: 0 },
+  ArrowLeft: { row: 0, column: -1 },
+  ArrowRight: { row: 0, column: 1 },
+}
+
+export const isCursorKey = (key: string): boolean => key in CURSOR_OFFSETS
+
+/** The middle cell of a grid, where the keyboard cursor starts. */
+export const getInitialCursor = ({ rows, columns }: GridDimensions): GridCell => ({
+  row: Math.ceil(rows / 2),
+  column: Math.ceil(columns / 2),
+})
+
+/** Moves the cursor one cell for an arrow key, stopping at the edges of the grid. */
+export const moveGridCursor = (cell: GridCell, key: string, grid: GridDimensions): GridCell => {
+  const offset = CURSOR_OFFSETS[key]
+  return offset
+    ? {
+        row: clampCellIndex(cell.row + offset.row, grid.rows),
+        column: clampCellIndex(cell.column + offset.column, grid.columns),
+      }
+    : cell
+}
+
+/**
+ * The annotation after (or before, for a step of -1) the current one, wrapping
+ * around. Without a current annotation the first (or last) one is returned.
+ */
+export const cycleAnnotation = <T extends Pick<PointOfInterest, 'id'>>(
+  points: T[],
+  currentId: string | undefined,
+  step: 1 | -1,
+): T | undefined => {
+  if (!points.length) {
+    return undefined
+  }
+
+  const index = points.findIndex((point) => point.id === currentId)
+  if (index === -1) {
+    return step === 1 ? points[0] : points[points.length - 1]
+  }
+
+  return points[(index + step + points.length) % points.length]
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clearWalletCache,
+  deriveMnemonicKeypair,
+  deriveNamespacePublicKey,
+  deriveWalletNamespacePublicKey,
+  enumerateNamespacePublicKeys,
+  formatDerivationPath,
+  isValidMnemonic,
+  parseDerivationPath,
+  signMessage,
+  signMnemonicMessage,
+  verifyGraphNodeSignature,
+  verifyMessage,
+} from './hdWallet'
+
+const MNEMONIC =
+  'desert maximum repair joke occur sustain joy private leg plug empty total blood detail meadow force news walnut anchor build habit joke upon soda'
+
+describe('deriveNamespacePublicKey', () => {
+  it('matches known-answer vectors for single-byte paths', () => {
+    expect(deriveNamespacePublicKey('example')).toEqual({
+      path: 'm/0/0',
+      publicKey: 'gREVfM4vDfTfMkQ/sgubT6pLSZqIX7jX2rYYk8gS3+M=',
+    })
+    expect(deriveNamespacePublicKey('example', { account: 0, address: 1 }).publicKey).toBe(
+      '/Pa8l06bHkHjfQFtbH8jlHszTBDtTzXYW/gRfhKVrWQ=',
+    )
+    expect(deriveNamespacePublicKey('example', { account: 1, address: 2 }).publicKey).toBe(
+      'IxY85KdTsJ6+oGCiZXzojhoPITFeb1umCWF00ZtpNME=',
+    )
+    expect(deriveNamespacePublicKey('necessitated').publicKey).toBe(
+      '3+nhFJZzEBGiBslZDpPo/HhKd9lFzDxVMGc5trhTY4c=',
+    )
+  })
+
+  it('does not wrap indices above 255', () => {
+    const wrapped = deriveNamespacePublicKey('example', { account: 0, address: 256 })
+
+    expect(wrapped.path).toBe('m/0/256')
+    expect(wrapped.publicKey).not.toBe(deriveNamespacePublicKey('example').publicKey)
+    expect(deriveNamespacePublicKey('example', { account: 0xffffffff, address: 0xffffffff }).path).toBe(
+      'm/4294967295/4294967295',
+    )
+  })
+
+  it('rejects indices outside the uint32 range', () => {
+    expect(() => deriveNamespacePublicKey('example', { account: -1, address: 0 })).toThrow(RangeError)
+    expect(() => deriveNamespacePublicKey('example', { account: 0, address: 2 ** 32 })).toThrow(RangeError)
+    expect(() => deriveNamespacePublicKey('example', { account: 0.5, address: 0 })).toThrow(RangeError)
+  })
+
+  it('enumerates consecutive addresses', () => {
+    expect(enumerateNamespacePublicKeys('example', 0, 0, 2)).toEqual([
+      deriveNamespacePublicKey('example', { account: 0, address: 0 }),
+      deriveNamespacePublicKey('example', { account: 0, address: 1 }),
+    ])
+  })
+})
+
+describe('derivation paths', () => {
+  it('formats and parses m/account/address', () => {
+    expect(formatDerivationPath({ account: 3, address: 70000 })).toBe('m/3/70000')
+    expect(parseDerivationPath(' m/3/70000 ')).toEqual({ account: 3, address: 70000 })
+  })
+
+  it('rejects malformed paths', () => {
+    expect(parseDerivationPath('m/1')).toBeNull()
+    expect(parseDerivationPath('m/-1/0')).toBeNull()
+    expect(parseDerivationPath('m/4294967296/0')).toBeNull()
+    expect(parseDerivationPath("m/0'/0")).toBeNull()
+  })
+})
+
+describe('wallet keys', () => {
+  it('validates mnemonics', () => {
+    expect(isValidMnemonic(`  ${MNEMONIC.toUpperCase()}  `)).toBe(true)
+    expect(isValidMnemonic(MNEMONIC.replace('desert', 'dessert'))).toBe(false)
+  })
+
+  it('derives namespace keys that differ per namespace and passphrase', () => {
+    const wallet = { mnemonic: MNEMONIC, passphrase: '' }
+    const key = deriveWalletNamespacePublicKey(wallet, 'example').publicKey
+
+    expect(key).not.toBe(deriveNamespacePublicKey('example').publicKey)
+    expect(key).not.toBe(deriveWalletNamespacePublicKey(wallet, 'other').publicKey)
+    expect(key).not.toBe(deriveWalletNamespacePublicKey({ ...wallet, passphrase: 'secret' }, 'example').publicKey)
+    expect(deriveWalletNamespacePublicKey(wallet, 'example').publicKey).toBe(key)
+  })
+
+  it('derives the same keys after the wallet cache is cleared', () => {
+    const wallet = { mnemonic: MNEMONIC, passphrase: '' }
+    const key = deriveWalletNamespacePublicKey(wallet, 'example').publicKey
+
+    clearWalletCache()
+
+    expect(deriveWalletNamespacePublicKey(wallet, 'example').publicKey).toBe(key)
+  })
+})
+
+describe('signing', () => {
+  it('signs and verifies detached messages', () => {
+    const keypair = deriveMnemonicKeypair(MNEMONIC, 0, 1)
+    const { publicKey, signature } = signMessage(keypair, 'payload')
+
+    expect(publicKey).toBe(keypair.publicKey)
+    expect(verifyMessage('payload', signature, publicKey)).toBe(true)
+    expect(verifyMessage('payload!', signature, publicKey)).toBe(false)
+    expect(signMnemonicMessage(MNEMONIC, 'payload', 0, 1).signature).toBe(signature)
+  })
+
+  it('rejects malformed signatures and keys', () => {
+    const { publicKey, signature } = signMnemonicMessage(MNEMONIC, 'payload')
+
+    expect(verifyMessage('payload', 'not base64!', publicKey)).toBe(false)
+    expect(verifyMessage('payload', signature, 'c2hvcnQ=')).toBe(false)
+  })
+
+  it('verifies graph node signatures against their claimed signer', () => {
+    const memo = 'note'
+    const pubkey = 'feed/T+1s/1x1/'
+    const { publicKey, signature } = signMnemonicMessage(MNEMONIC, JSON.stringify({ public_key: pubkey, memo }))
+    const node = { pubkey, memo, signer: publicKey, signature }
+
+    expect(verifyGraphNodeSignature(node, new Set([publicKey]))).toBe('verified')
+    expect(verifyGraphNodeSignature(node)).toBe('signed')
+    expect(verifyGraphNodeSignature(node, new Set([deriveNamespacePublicKey('feed').publicKey]))).toBe('signed')
+    expect(verifyGraphNodeSignature({ ...node, memo: 'changed' })).toBe('invalid')
+    expect(verifyGraphNodeSignature({ pubkey, memo })).toBe('unsigned')
+  })
+})
@@ -1,15 +1,56 @@
-import * as nacl from 'tweetnacl'
+import nacl from 'tweetnacl'
 import { hmac } from '@noble/hashes/hmac.js'
 import { sha512 } from '@noble/hashes/sha2.js'
 import { utf8ToBytes } from '@noble/hashes/utils.js'
-import { entropyToMnemonic, mnemonicToSeedSync } from '@scure/bip39'
+import {
+  entropyToMnemonic,
+  generateMnemonic as generateRandomMnemonic,
+  mnemonicToSeedSync,
+  validateMnemonic,
+} from '@scure/bip39'
 import { wordlist } from '@scure/bip39/wordlists/english'
 
 const DOMAIN_LABEL = new TextEncoder().encode('necessitated/premises')
+const NAMESPACE_LABEL = new TextEncoder().encode('necessitated/namespace')
+const WALLET_MNEMONIC_STRENGTH = 256
 const ACCOUNT_INDEX = 0
 const ADDRESS_INDEX = 0
+const MAX_INDEX = 0xffffffff
+const LEGACY_MAX_INDEX = 0xff
 
-const bytesToBase64 = (bytes: Uint8Array): string => {
+/** Seeds of namespace mnemonics, which come from public namespace names and are safe to keep. */
+const namespaceSeedCache = new Map<string, Uint8Array>()
+/** Seeds of user wallets, kept only while the wallet is unlocked; see `clearWalletCache`. */
+const walletSeedCache = new Map<Wallet, Uint8Array>()
+
+/**
+ * `verified` tags are signed by a key the namespace lists as an owner; `signed`
+ * ones carry a valid signature from some other key, such as a user's wallet.
+ */
+export type SignatureStatus = 'verified' | 'signed' | 'invalid' | 'unsigned'
+
+export type DerivedKeypair = {
+  path: string
+  publicKey: string
+  secretKey: Uint8Array
+}
+
+export type Wallet = {
+  mnemonic: string
+  passphrase: string
+}
+
+export type DerivationPath = {
+  account: number
+  address: number
+}
+
+export type SignedMessage = {
+  publicKey: string
+  signature: string
+}
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
   let binary = ''
   bytes.forEach((byte) => {
     binary += String.fromCharCode(byte)
@@ -17,28 +58,118 @@ const bytesToBase64 = (bytes: Uint8Array): string => {
   return btoa(binary)
 }
 
+export const base64ToBytes = (value: string): Uint8Array | null => {
+  try {
+    const binary = atob(value.trim())
+    return Uint8Array.from(binary, (character) => character.charCodeAt(0))
+  } catch {
+    return null
+  }
+}
+
+const toMessageBytes = (message: string | Uint8Array): Uint8Array =>
+  typeof message === 'string' ? utf8ToBytes(message) : message
+
+const assertIndex = (label: string, value: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_INDEX) {
+    throw new RangeError(`${label} index must be an integer between 0 and ${MAX_INDEX}, received ${value}.`)
+  }
+}
+
+/**
+ * Paths whose indices both fit in a byte keep the original single-byte
+ * encoding so existing keys stay stable. Anything larger is encoded as two
+ * big-endian uint32 values; the differing input length keeps the two
+ * encodings from colliding.
+ */
+const encodePathIndices = (account: number, address: number): Uint8Array => {
+  if (account <= LEGACY_MAX_INDEX && address <= LEGACY_MAX_INDEX) {
+    return new Uint8Array([account, address])
+  }
+
+  const bytes = new Uint8Array(8)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, account)
+  view.setUint32(4, address)
+  return bytes
+}
+
 const deriveHDSeed = (
   seed: Uint8Array,
   account: number,
   address: number,
 ): Uint8Array => {
-  const indexBytes = new Uint8Array([account, address])
+  assertIndex('Account', account)
+  assertIndex('Address', address)
+
+  const indexBytes = encodePathIndices(account, address)
   const input = new Uint8Array([...seed, ...indexBytes])
   const digest = hmac(sha512, DOMAIN_LABEL, input)
   return digest.slice(0, 32)
 }
 
+const getMasterSeed = (mnemonic: string, passphrase = ''): Uint8Array =>
+  new Uint8Array(mnemonicToSeedSync(mnemonic, passphrase))
+
+const getNamespaceMasterSeed = (mnemonic: string): Uint8Array => {
+  const cached = namespaceSeedCache.get(mnemonic)
+  if (cached) {
+    return cached
+  }
+
+  const masterSeed = getMasterSeed(mnemonic)
+  namespaceSeedCache.set(mnemonic, masterSeed)
+  return masterSeed
+}
+
+const getWalletMasterSeed = (wallet: Wallet): Uint8Array => {
+  const cached = walletSeedCache.get(wallet)
+  if (cached) {
+    return cached
+  }
+
+  const masterSeed = getMasterSeed(wallet.mnemonic, wallet.passphrase)
+  walletSeedCache.set(wallet, masterSeed)
+  return masterSeed
+}
+
+/** Wipes and forgets the seeds of unlocked wallets. Call it when a wallet is locked or removed. */
+export const clearWalletCache = () => {
+  walletSeedCache.forEach((seed) => seed.fill(0))
+  walletSeedCache.clear()
+}
+
+const deriveSeedKeypair = (
+  seed: Uint8Array,
+  account: number,
+  address: number,
+): nacl.SignKeyPair => nacl.sign.keyPair.fromSeed(deriveHDSeed(seed, account, address))
+
+
+const deriveWalletNamespaceSeed = (wallet: Wallet, namespace: string): Uint8Array => {
+  const masterSeed = getWalletMasterSeed(wallet)
+  return hmac(sha512, NAMESPACE_LABEL, new Uint8Array([...masterSeed, ...utf8ToBytes(namespace)]))
+}
+
+const toDerivedKeypair = (
+  keypair: nacl.SignKeyPair,
+  account: number,
+  address: number,
+): DerivedKeypair => ({
+  path: formatDerivationPath({ account, address }),
+  publicKey: bytesToBase64(keypair.publicKey),
+  secretKey: keypair.secretKey,
+})
+
 const generateHDKeypair = (
   mnemonic: string,
   account: number,
   address: number,
 ): { path: string; publicKey: string } => {
-  const masterSeed = mnemonicToSeedSync(mnemonic)
-  const derivedSeed = deriveHDSeed(new Uint8Array(masterSeed), account, address)
-  const keypair = nacl.sign.keyPair.fromSeed(derivedSeed)
+  const keypair = deriveSeedKeypair(getNamespaceMasterSeed(mnemonic), account, address)
 
   return {
-    path: `m/${account}/${address}`,
+    path: formatDerivationPath({ account, address }),
     publicKey: bytesToBase64(keypair.publicKey),
   }
 }
@@ -49,9 +180,201 @@ const generateMnemonic = (passphrase: string): string => {
   return entropyToMnemonic(entropy, wordlist)
 }
 
+export const DEFAULT_DERIVATION_PATH: DerivationPath = {
+  account: ACCOUNT_INDEX,
+  address: ADDRESS_INDEX,
+}
+
+export const formatDerivationPath = ({ account, address }: DerivationPath): string =>
+  `m/${account}/${address}`
+
+export const parseDerivationPath = (value: string): DerivationPath | null => {
+  const match = value.trim().match(/^m\/(\d+)\/(\d+)$/)
+  if (!match) {
+    return null
+  }
+
+  const account = Number(match[1])
+  const address = Number(match[2])
+  if (account > MAX_INDEX || address > MAX_INDEX) {
+    return null
+  }
+
+  return { account, address }
+}
+
 export const deriveNamespacePublicKey = (
   namespace: string,
+  { account, address }: DerivationPath = DEFAULT_DERIVATION_PATH,
 ): { path: string; publicKey: string } => {
   const mnemonic = generateMnemonic(namespace)
-  return generateHDKeypair(mnemonic, ACCOUNT_INDEX, ADDRESS_INDEX)
+  return generateHDKeypair(mnemonic, account, address)
+}
+
+export const enumerateNamespacePublicKeys = (
+  namespace: string,
+  account: number,
+  startAddress: number,
+  count: number,
+): Array<{ path: string; publicKey: string }> => {
+  assertIndex('Account', account)
+  assertIndex('Address', startAddress)
+
+  const mnemonic = generateMnemonic(namespace)
+  const endAddress = Math.min(MAX_INDEX, startAddress + Math.max(0, count) - 1)
+  const keys: Array<{ path: string; publicKey: string }> = []
+
+  for (let address = startAddress; address <= endAddress; address += 1) {
+    keys.push(generateHDKeypair(mnemonic, account, address))
+  }
+
+  return keys
+}
+
+export const deriveMnemonicKeypair = (
+  mnemonic: string,
+  account = ACCOUNT_INDEX,
+  address = ADDRESS_INDEX,
+): DerivedKeypair =>
+  toDerivedKeypair(deriveSeedKeypair(getMasterSeed(mnemonic), account, address), account, address)
+
+export const createWalletMnemonic = (): string =>
+  generateRandomMnemonic(wordlist, WALLET_MNEMONIC_STRENGTH)
+
+export const normalizeMnemonic = (mnemonic: string): string =>
+  mnemonic.trim().toLowerCase().split(/\s+/).join(' ')
+
+export const isValidMnemonic = (mnemonic: string): boolean =>
+  validateMnemonic(normalizeMnemonic(mnemonic), wordlist)
+
+export const deriveWalletPublicKey = (wallet: Wallet): string => {
+  const keypair = deriveSeedKeypair(
+    getWalletMasterSeed(wallet),
+    ACCOUNT_INDEX,
+    ADDRESS_INDEX,
+  )
+  return bytesToBase64(keypair.publicKey)
+}
+
+/**
+ * Namespace keys are children of the wallet seed, so only the wallet holder
+ * can sign for their identity within a namespace.
+ */
+export const deriveWalletNamespaceKeypair = (
+  wallet: Wallet,
+  namespace: string,
+  { account, address }: DerivationPath = DEFAULT_DERIVATION_PATH,
+): DerivedKeypair =>
+  toDerivedKeypair(
+    deriveSeedKeypair(deriveWalletNamespaceSeed(wallet, namespace), account, address),
+    account,
+    address,
+  )
+
+export const deriveWalletNamespacePublicKey = (
+  wallet: Wallet,
+  namespace: string,
+  path: DerivationPath = DEFAULT_DERIVATION_PATH,
+): { path: string; publicKey: string } => {
+  const { path: formattedPath, publicKey } = deriveWalletNamespaceKeypair(wallet, namespace, path)
+  return { path: formattedPath, publicKey }
+}
+
+export const enumerateWalletNamespacePublicKeys = (
+  wallet: Wallet,
+  namespace: string,
+  account: number,
+  startAddress: number,
+  count: number,
+): Array<{ path: string; publicKey: string }> => {
+  assertIndex('Account', account)
+  assertIndex('Address', startAddress)
+
+  const namespaceSeed = deriveWalletNamespaceSeed(wallet, namespace)
+  const endAddress = Math.min(MAX_INDEX, startAddress + Math.max(0, count) - 1)
+  const keys: Array<{ path: string; publicKey: string }> = []
+
+  for (let address = startAddress; address <= endAddress; address += 1) {
+    const keypair = deriveSeedKeypair(namespaceSeed, account, address)
+    keys.push({
+      path: formatDerivationPath({ account, address }),
+      publicKey: bytesToBase64(keypair.publicKey),
+    })
+  }
+
+  return keys
+}
+
+export const signMessage = (
+  keypair: DerivedKeypair,
+  message: string | Uint8Array,
+): SignedMessage => {
+  const signature = nacl.sign.detached(toMessageBytes(message), keypair.secretKey)
+
+  return {
+    publicKey: keypair.publicKey,
+    signature: bytesToBase64(signature),
+  }
+}
+
+export const signMnemonicMessage = (
+  mnemonic: string,
+  message: string | Uint8Array,
+  account = ACCOUNT_INDEX,
+  address = ADDRESS_INDEX,
+): SignedMessage => signMessage(deriveMnemonicKeypair(mnemonic, account, address), message)
+
+export const signWalletNamespaceMessage = (
+  wallet: Wallet,
+  namespace: string,
+  message: string | Uint8Array,
+  path: DerivationPath = DEFAULT_DERIVATION_PATH,
+): SignedMessage => signMessage(deriveWalletNamespaceKeypair(wallet, namespace, path), message)
+
+export const verifyMessage = (
+  message: string | Uint8Array,
+  signature: string,
+  publicKey: string,
+): boolean => {
+  const signatureBytes = base64ToBytes(signature)
+  const publicKeyBytes = base64ToBytes(publicKey)
+
+  if (
+    !signatureBytes ||
+    !publicKeyBytes ||
+    signatureBytes.length !== nacl.sign.signatureLength ||
+    publicKeyBytes.length !== nacl.sign.publicKeyLength
+  ) {
+    return false
+  }
+
+  return nacl.sign.detached.verify(toMessageBytes(message), signatureBytes, publicKeyBytes)
+}
+
+export const createTagSignaturePayload = (pubkey: string, memo: string): string =>
+  JSON.stringify({ public_key: pubkey, memo })
+
+/**
+ * Checks the `signer`/`signature` attributes of a graph tag node. A valid
+ * signature only counts as `verified` when the signer is one of
+ * `trustedPublicKeys`; from any other key it is just `signed`.
+ */
+export const verifyGraphNodeSignature = (
+  node: Record<string, string | undefined>,
+  trustedPublicKeys: ReadonlySet<string> = new Set(),
+): SignatureStatus => {
+  const pubkey = node.pubkey?.trim()
+  const memo = node.memo?.trim()
+  const signer = node.signer?.trim()
+  const signature = node.signature?.trim()
+
+  if (!signer || !signature) {
+    return 'unsigned'
+  }
+
+  if (!pubkey || memo === undefined || !verifyMessage(createTagSignaturePayload(pubkey, memo), signature, signer)) {
+    return 'invalid'
+  }
+
+  return trustedPublicKeys.has(signer) ? 'verified' : 'signed'
 }
@@ -0,0 +1,61 @@
+import Hls from 'hls.js'
+import type { QualityLevel } from './playback'
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl'
+
+/** A `<video>` element playing an HLS stream through hls.js. */
+export type HlsSession = {
+  element: HTMLVideoElement
+  setQualityLevel: (index: number) => void
+  destroy: () => void
+}
+
+/** Whether an element needs hls.js to play HLS; Safari plays it natively. */
+export const needsHlsPlayer = (element: HTMLVideoElement): boolean =>
+  !element.canPlayType(HLS_MIME_TYPE) && Hls.isSupported()
+
+/**
+ * Streams `url` into `element` over Media Source Extensions. Live streams
+ * report an infinite duration, like native HLS, and fatal network or media
+ * errors are retried once each before giving up.
+ */
+export const attachHlsPlayer = (
+  element: HTMLVideoElement,
+  url: string,
+  onLevels: (levels: QualityLevel[]) => void,
+): HlsSession => {
+  const hls = new Hls({ liveDurationInfinity: true })
+  const recovered = new Set<string>()
+
+  hls.on(Hls.Events.MANIFEST_PARSED, (_, { levels }) => {
+    onLevels(levels.map(({ height, bitrate }, index) => ({ index, height: height || undefined, bitrate })))
+  })
+  hls.on(Hls.Events.ERROR, (_, { fatal, type }) => {
+    if (!fatal) {
+      return
+    }
+
+    if (recovered.has(type) || (type !== Hls.ErrorTypes.NETWORK_ERROR && type !== Hls.ErrorTypes.MEDIA_ERROR)) {
+      hls.destroy()
+      return
+    }
+
+    recovered.add(type)
+    if (type === Hls.ErrorTypes.NETWORK_ERROR) {
+      hls.startLoad()
+    } else {
+      hls.recoverMediaError()
+    }
+  })
+
+  hls.loadSource(url)
+  hls.attachMedia(element)
+
+  return {
+    element,
+    setQualityLevel: (index) => {
+      hls.currentLevel = index
+    },
+    destroy: () => hls.destroy(),
+  }
+}
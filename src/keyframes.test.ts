@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_KEYFRAMES,
+  applyKeyframes,
+  formatKeyframesSegment,
+  getAnnotationPosition,
+  insertKeyframe,
+  interpolateKeyframes,
+  parseKeyframesSegment,
+  parseKeyframesValue,
+} from './keyframes'
+import { createPoint } from './testFixtures'
+
+const GRID = { rows: 10, columns: 10 }
+
+const KEYFRAMES = [
+  { time: 2, xPercent: 10, yPercent: 20 },
+  { time: 4, xPercent: 50, yPercent: 20 },
+  { time: 8, xPercent: 50, yPercent: 60 },
+]
+
+describe('interpolateKeyframes', () => {
+  it('moves linearly between keyframes', () => {
+    expect(interpolateKeyframes(KEYFRAMES, 3)).toEqual({ xPercent: 30, yPercent: 20 })
+    expect(interpolateKeyframes(KEYFRAMES, 7)).toEqual({ xPercent: 50, yPercent: 50 })
+    expect(interpolateKeyframes(KEYFRAMES, 4)).toEqual({ xPercent: 50, yPercent: 20 })
+  })
+
+  it('holds the first and last positions outside the keyframes', () => {
+    expect(interpolateKeyframes(KEYFRAMES, 0)).toEqual({ xPercent: 10, yPercent: 20 })
+    expect(interpolateKeyframes(KEYFRAMES, 20)).toEqual({ xPercent: 50, yPercent: 60 })
+  })
+})
+
+describe('getAnnotationPosition', () => {
+  it('uses the fixed position of points without keyframes', () => {
+    expect(getAnnotationPosition(createPoint(), 5)).toEqual({ xPercent: 20, yPercent: 15 })
+    expect(getAnnotationPosition(createPoint({ keyframes: KEYFRAMES }), 3)).toEqual({ xPercent: 30, yPercent: 20 })
+  })
+})
+
+describe('insertKeyframe', () => {
+  it('adds keyframes in time order and replaces one at nearly the same time', () => {
+    expect(insertKeyframe(KEYFRAMES, { time: 3, xPercent: 0, yPercent: 0 }).map(({ time }) => time)).toEqual([
+      2, 3, 4, 8,
+    ])
+    expect(insertKeyframe(KEYFRAMES, { time: 4.02, xPercent: 1.234, yPercent: 120 })).toEqual([
+      KEYFRAMES[0],
+      { time: 4.02, xPercent: 1.23, yPercent: 100 },
+      KEYFRAMES[2],
+    ])
+  })
+
+  it('ignores new keyframes once the limit is reached', () => {
+    const full = Array.from({ length: MAX_KEYFRAMES }, (_, time) => ({ time, xPercent: 0, yPercent: 0 }))
+
+    expect(insertKeyframe(full, { time: 100, xPercent: 0, yPercent: 0 })).toBe(full)
+    const keyframe = { time: 1, xPercent: 5, yPercent: 5 }
+    expect(insertKeyframe(full, keyframe)[1]).toEqual(keyframe)
+  })
+})
+
+describe('applyKeyframes', () => {
+  it('anchors the annotation at the first keyframe and covers the last', () => {
+    const point = applyKeyframes(createPoint(), KEYFRAMES, GRID)
+
+    expect(point).toEqual(
+      expect.objectContaining({ time: 2, endTime: 8, xPercent: 10, row: 2, column: 1, keyframes: KEYFRAMES }),
+    )
+  })
+
+  it('carries the shape of regions along with the anchor', () => {
+    const shape = { type: 'rectangle' as const, xPercent: 0, yPercent: 10, widthPercent: 20, heightPercent: 20 }
+    const anchor = createPoint({ xPercent: 10, yPercent: 20, shape })
+    const point = applyKeyframes(anchor, [{ time: 1, xPercent: 30, yPercent: 40 }, ...KEYFRAMES], GRID)
+
+    expect(point.shape).toEqual({ ...shape, xPercent: 20, yPercent: 30 })
+    expect(point).toEqual(expect.objectContaining({ time: 1, row: 4, column: 3 }))
+  })
+
+  it('leaves a plain point for a single keyframe', () => {
+    const point = applyKeyframes(createPoint(), [{ time: 5, xPercent: 55, yPercent: 55 }], GRID)
+
+    expect(point).toEqual(expect.objectContaining({ time: 5, xPercent: 55, row: 6, column: 6, keyframes: undefined }))
+  })
+})
+
+describe('keyframe segments', () => {
+  it('round-trips through the pubkey segment', () => {
+    const segment = formatKeyframesSegment(KEYFRAMES)
+
+    expect(segment).toBe('track/2,10,20,4,50,20,8,50,60')
+    expect(parseKeyframesSegment(segment)).toEqual(KEYFRAMES)
+  })
+
+  it.each([
+    ['track/2,10,20'],
+    ['track/2,10,20,2,30,30'],
+    ['track/2,10,20,4,50'],
+    ['track/2,10,20,4,50,120'],
+    ['poly/2,10,20,4,50,20'],
+  ])('rejects %s', (segment) => {
+    expect(parseKeyframesSegment(segment)).toBeUndefined()
+  })
+
+  it('reads keyframes from imports', () => {
+    expect(parseKeyframesValue(undefined)).toBeUndefined()
+    expect(parseKeyframesValue([KEYFRAMES[2], KEYFRAMES[0]])).toEqual([KEYFRAMES[0], KEYFRAMES[2]])
+    expect(parseKeyframesValue([{ time: 1 }, { time: 2 }])).toBeNull()
+    expect(parseKeyframesValue('track/1')).toBeNull()
+  })
+})
@@ -0,0 +1,152 @@
+import { getCellAt } from './grid'
+import { clampPercent, translateShape } from './shapes'
+import type { AnnotationKeyframe, GridDimensions, PointOfInterest, RegionVertex } from './types'
+
+export const MIN_KEYFRAMES = 2
+export const MAX_KEYFRAMES = 64
+/** Seconds within which a new keyframe replaces an existing one. */
+export const KEYFRAME_TIME_TOLERANCE = 0.05
+
+const KEYFRAMES_SEGMENT_PATTERN = /^track\/([\d.]+(?:,[\d.]+)*)$/
+
+const roundHundredths = (value: number): number => Math.round(value * 100) / 100
+
+const normalizeKeyframe = ({ time, xPercent, yPercent }: AnnotationKeyframe): AnnotationKeyframe => ({
+  time: roundHundredths(Math.max(0, time)),
+  xPercent: roundHundredths(clampPercent(xPercent)),
+  yPercent: roundHundredths(clampPercent(yPercent)),
+})
+
+const isKeyframe = (value: unknown): value is AnnotationKeyframe => {
+  const candidate = value as Partial<AnnotationKeyframe> | null
+  return (
+    Number.isFinite(candidate?.time) && Number.isFinite(candidate?.xPercent) && Number.isFinite(candidate?.yPercent)
+  )
+}
+
+/**
+ * Sorts and rounds keyframes. Returns undefined when there are too few or too
+ * many, when two share a time, or when a position lies outside the frame.
+ */
+const normalizeKeyframes = (keyframes: AnnotationKeyframe[]): AnnotationKeyframe[] | undefined => {
+  if (keyframes.length < MIN_KEYFRAMES || keyframes.length > MAX_KEYFRAMES) {
+    return undefined
+  }
+  const isInside = (value: number) => value >= 0 && value <= 100
+  if (!keyframes.every(({ time, xPercent, yPercent }) => time >= 0 && isInside(xPercent) && isInside(yPercent))) {
+    return undefined
+  }
+
+  const sorted = keyframes.map(normalizeKeyframe).sort((a, b) => a.time - b.time)
+  return sorted.every((keyframe, index) => index === 0 || keyframe.time > sorted[index - 1].time) ? sorted : undefined
+}
+
+/** The keyframes of a tracked annotation, or its own position as the only one. */
+export const getAnnotationKeyframes = (point: PointOfInterest): AnnotationKeyframe[] =>
+  point.keyframes ?? [{ time: point.time, xPercent: point.xPercent, yPercent: point.yPercent }]
+
+/**
+ * Adds a keyframe in time order, replacing one within
+ * `KEYFRAME_TIME_TOLERANCE` of it. Keyframes beyond `MAX_KEYFRAMES` are
+ * ignored.
+ */
+export const insertKeyframe = (keyframes: AnnotationKeyframe[], keyframe: AnnotationKeyframe): AnnotationKeyframe[] => {
+  const next = normalizeKeyframe(keyframe)
+  const remaining = keyframes.filter((current) => Math.abs(current.time - next.time) > KEYFRAME_TIME_TOLERANCE)
+  if (remaining.length === keyframes.length && keyframes.length >= MAX_KEYFRAMES) {
+    return keyframes
+  }
+
+  return [...remaining, next].sort((a, b) => a.time - b.time)
+}
+
+/** Linear position between the surrounding keyframes, held before the first and after the last. */
+export const interpolateKeyframes = (keyframes: AnnotationKeyframe[], time: number): RegionVertex => {
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > time)
+  if (nextIndex <= 0) {
+    const { xPercent, yPercent } = nextIndex === 0 ? keyframes[0] : keyframes[keyframes.length - 1]
+    return { xPercent, yPercent }
+  }
+
+  const previous = keyframes[nextIndex - 1]
+  const next = keyframes[nextIndex]
+  const progress = (time - previous.time) / (next.time - previous.time)
+  return {
+    xPercent: previous.xPercent + (next.xPercent - previous.xPercent) * progress,
+    yPercent: previous.yPercent + (next.yPercent - previous.yPercent) * progress,
+  }
+}
+
+/** Where an annotation is drawn at `time`: its keyframed position, or its fixed one. */
+export const getAnnotationPosition = (point: PointOfInterest, time: number): RegionVertex =>
+  point.keyframes?.length
+    ? interpolateKeyframes(point.keyframes, time)
+    : { xPercent: point.xPercent, yPercent: point.yPercent }
+
+/**
+ * Moves an annotation onto new keyframes: it starts at the first one (taking
+ * its cell, and carrying a region's shape along) and its range is extended to
+ * cover the last one. A single keyframe leaves a plain point.
+ */
+export const applyKeyframes = (
+  point: PointOfInterest,
+  keyframes: AnnotationKeyframe[],
+  grid: GridDimensions,
+): PointOfInterest => {
+  const [first] = keyframes
+  const last = keyframes[keyframes.length - 1]
+  const offset = { xPercent: first.xPercent - point.xPercent, yPercent: first.yPercent - point.yPercent }
+  const isTracked = keyframes.length >= MIN_KEYFRAMES
+
+  return {
+    ...point,
+    ...getCellAt(first.xPercent, first.yPercent, grid),
+    time: first.time,
+    endTime: isTracked ? Math.max(point.endTime ?? last.time, last.time) : point.endTime,
+    xPercent: first.xPercent,
+    yPercent: first.yPercent,
+    ...(point.shape ? { shape: translateShape(point.shape, offset) } : {}),
+    keyframes: isTracked ? keyframes : undefined,
+  }
+}
+
+/**
+ * Encodes keyframes as the pubkey segment of a tracked tag:
+ * `track/<time1>,<x1>,<y1>,<time2>,<x2>,<y2>,…` with times in seconds.
+ */
+export const formatKeyframesSegment = (keyframes: AnnotationKeyframe[]): string =>
+  `track/${keyframes
+    .flatMap(({ time, xPercent, yPercent }) => [time, xPercent, yPercent])
+    .map((value) => String(roundHundredths(value)))
+    .join(',')}`
+
+export const parseKeyframesSegment = (segment: string): AnnotationKeyframe[] | undefined => {
+  const values = segment.trim().match(KEYFRAMES_SEGMENT_PATTERN)?.[1].split(',').map(Number)
+  if (!values || values.length % 3 || values.some((value) => !Number.isFinite(value))) {
+    return undefined
+  }
+
+  return normalizeKeyframes(
+    Array.from({ length: values.length / 3 }, (_, index) => ({
+      time: values[index * 3],
+      xPercent: values[index * 3 + 1],
+      yPercent: values[index * 3 + 2],
+    })),
+  )
+}
+
+/**
+ * Reads keyframes from an import: an array as written to JSON exports, or the
+ * pubkey segment text used by CSV and WebVTT. Returns undefined when there are
+ * none and null when they are invalid.
+ */
+export const parseKeyframesValue = (value: unknown): AnnotationKeyframe[] | undefined | null => {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  if (typeof value === 'string') {
+    return parseKeyframesSegment(value) ?? null
+  }
+
+  return Array.isArray(value) && value.every(isKeyframe) ? (normalizeKeyframes(value) ?? null) : null
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { createMediaTrack } from './media'
+import { describeLocalFile, findLocalFileTrack, getLocalFileKind, getLocalFileType, hashFile } from './localFiles'
+
+describe('getLocalFileKind', () => {
+  it('plays videos in the player and images and PDFs as documents', () => {
+    expect(getLocalFileKind({ name: 'clip.mov', type: 'video/quicktime' })).toBe('video')
+    expect(getLocalFileKind({ name: 'scan.pdf', type: 'application/pdf' })).toBe('document')
+    expect(getLocalFileKind({ name: 'frame.png', type: 'image/png' })).toBe('document')
+    expect(getLocalFileKind({ name: 'notes.txt', type: 'text/plain' })).toBeUndefined()
+  })
+
+  it('rejects SVG, which can run scripts', () => {
+    expect(getLocalFileKind({ name: 'logo.svg', type: 'image/svg+xml' })).toBeUndefined()
+    expect(getLocalFileKind({ name: 'logo.SVG', type: '' })).toBeUndefined()
+  })
+
+  it('falls back to the extension when the type is unknown', () => {
+    expect(getLocalFileKind({ name: 'CLIP.MKV', type: '' })).toBeUndefined()
+    expect(getLocalFileKind({ name: 'clip.m4v', type: '' })).toBe('video')
+    expect(getLocalFileKind({ name: 'photo.JPG', type: '' })).toBe('document')
+    expect(getLocalFileType({ name: 'photo.JPG', type: '' })).toBe('image/jpeg')
+  })
+})
+
+describe('hashFile', () => {
+  it('hashes the contents, not the name', async () => {
+    const hash = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+
+    await expect(hashFile(new Blob(['abc']))).resolves.toBe(hash)
+    await expect(hashFile(new Blob(['a', 'b', 'c'], { type: 'video/mp4' }))).resolves.toBe(hash)
+  })
+})
+
+describe('local file tracks', () => {
+  it('finds the track a file was loaded into before', () => {
+    const localFile = { name: 'clip.mp4', size: 3, contentHash: 'abc' }
+    const track = { ...createMediaTrack('', 'clip.mp4', 'video'), localFile }
+
+    expect(findLocalFileTrack([track], 'abc')).toBe(track)
+    expect(findLocalFileTrack([track], 'def')).toBeUndefined()
+  })
+
+  it('describes files with their size', () => {
+    expect(describeLocalFile({ name: 'clip.mp4', size: 5 * 1024 * 1024 })).toBe('clip.mp4 (5.0 MB)')
+    expect(describeLocalFile({ name: 'frame.png', size: 1500 })).toBe('frame.png (2 KB)')
+  })
+})
@@ -0,0 +1,82 @@
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex } from '@noble/hashes/utils.js'
+import type { LocalFile, MediaKind, MediaTrack } from './types'
+
+const LOCAL_FILE_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogg': 'video/ogg',
+  '.ogv': 'video/ogg',
+  '.mov': 'video/quicktime',
+  '.m4v': 'video/x-m4v',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+}
+
+/**
+ * SVG can carry scripts, and local documents render from `blob:` URLs, which
+ * share the app's origin; so only raster images are shown.
+ */
+const UNSAFE_IMAGE_TYPES = ['image/svg+xml']
+
+/** File types that can be added to the feed. */
+export const LOCAL_FILE_ACCEPT = ['video/*', 'image/*', 'application/pdf', ...Object.keys(LOCAL_FILE_TYPES)].join(',')
+
+/** The file's type, or the one its extension implies when the browser reports none. */
+export const getLocalFileType = ({ name, type }: Pick<File, 'name' | 'type'>): string | undefined => {
+  if (type) {
+    return type.toLowerCase()
+  }
+
+  const lowerName = name.toLowerCase()
+  const extension = Object.keys(LOCAL_FILE_TYPES).find((candidate) => lowerName.endsWith(candidate))
+  return extension ? LOCAL_FILE_TYPES[extension] : undefined
+}
+
+/**
+ * How a dropped file plays: videos in a `<video>` element, raster images and
+ * PDFs in a document frame. Anything else is unsupported.
+ */
+export const getLocalFileKind = (file: Pick<File, 'name' | 'type'>): MediaKind | undefined => {
+  const type = getLocalFileType(file)
+  if (!type) {
+    return undefined
+  }
+
+  return type.startsWith('video/')
+    ? 'video'
+    : (type.startsWith('image/') && !UNSAFE_IMAGE_TYPES.includes(type)) || type === 'application/pdf'
+      ? 'document'
+      : undefined
+}
+
+/**
+ * An object URL that always carries the file's type, so a file the browser
+ * could not type is never sniffed into something that runs scripts.
+ */
+export const createLocalFileUrl = (file: File): string =>
+  URL.createObjectURL(file.type ? file : new Blob([file], { type: getLocalFileType(file) }))
+
+/** The SHA-256 of a file's contents, read in chunks so large videos are never held in memory whole. */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const hash = sha256.create()
+  const reader = file.stream().getReader()
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    hash.update(chunk.value)
+  }
+
+  return bytesToHex(hash.digest())
+}
+
+/** The track a file with this content was loaded into before, whose annotations it should get back. */
+export const findLocalFileTrack = (tracks: MediaTrack[], contentHash: string): MediaTrack | undefined =>
+  tracks.find((track) => track.localFile?.contentHash === contentHash)
+
+export const describeLocalFile = ({ name, size }: Pick<LocalFile, 'name' | 'size'>): string =>
+  size >= 1024 * 1024 ? `${name} (${(size / (1024 * 1024)).toFixed(1)} MB)` : `${name} (${Math.ceil(size / 1024)} KB)`
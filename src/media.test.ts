@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  applyDetectedMedia,
+  createMediaTrack,
+  detectMedia,
+  expandMediaInput,
+  getKindFromContentType,
+  getMediaProvider,
+  inferMediaKind,
+  isHlsContentType,
+  isHlsTrack,
+  isHlsUrl,
+  parseVimeoId,
+  parseYouTubeId,
+} from './media'
+
+describe('parseYouTubeId', () => {
+  it.each([
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42',
+    'https://youtu.be/dQw4w9WgXcQ',
+    'https://m.youtube.com/shorts/dQw4w9WgXcQ',
+    'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ',
+  ])('reads %s', (url) => {
+    expect(parseYouTubeId(url)).toBe('dQw4w9WgXcQ')
+  })
+
+  it('rejects other hosts and malformed IDs', () => {
+    expect(parseYouTubeId('https://example.com/watch?v=dQw4w9WgXcQ')).toBeUndefined()
+    expect(parseYouTubeId('https://www.youtube.com/watch?v=short')).toBeUndefined()
+    expect(parseYouTubeId('not a url')).toBeUndefined()
+  })
+})
+
+describe('parseVimeoId', () => {
+  it('reads page and player links', () => {
+    expect(parseVimeoId('https://vimeo.com/76979871')).toBe('76979871')
+    expect(parseVimeoId('https://vimeo.com/channels/staffpicks/76979871')).toBe('76979871')
+    expect(parseVimeoId('https://player.vimeo.com/video/76979871?h=abc')).toBe('76979871')
+    expect(parseVimeoId('https://vimeo.com/about')).toBeUndefined()
+  })
+})
+
+describe('media kinds', () => {
+  it('treats provider links and media files as videos', () => {
+    expect(getMediaProvider('https://youtu.be/dQw4w9WgXcQ')).toBe('youtube')
+    expect(getMediaProvider('https://vimeo.com/76979871')).toBe('vimeo')
+    expect(getMediaProvider('https://example.com/a.mp4')).toBe('file')
+    expect(inferMediaKind('https://vimeo.com/76979871')).toBe('video')
+    expect(inferMediaKind('https://example.com/a.mp4')).toBe('video')
+    expect(inferMediaKind('https://example.com/article')).toBe('document')
+  })
+
+  it('expands bare YouTube IDs', () => {
+    expect(expandMediaInput(' dQw4w9WgXcQ ')).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ')
+    expect(expandMediaInput('https://example.com/a.mp4')).toBe('https://example.com/a.mp4')
+  })
+
+  it('recognises HLS playlists by path', () => {
+    expect(isHlsUrl('https://example.com/live/index.M3U8?token=1')).toBe(true)
+    expect(isHlsUrl('https://example.com/a.mp4?format=m3u8')).toBe(false)
+    expect(isHlsUrl('index.m3u8')).toBe(false)
+    expect(isHlsTrack({ url: 'https://example.com/live?id=1', isHls: true })).toBe(true)
+  })
+})
+
+describe('content sniffing', () => {
+  const respond = (status: number, contentType?: string) =>
+    new Response(null, { status, headers: contentType ? { 'Content-Type': contentType } : {} })
+
+  it('maps content types to kinds', () => {
+    expect(getKindFromContentType('video/mp4')).toBe('video')
+    expect(getKindFromContentType('application/vnd.apple.mpegURL')).toBe('video')
+    expect(getKindFromContentType('text/html; charset=utf-8')).toBe('document')
+    expect(getKindFromContentType('application/pdf')).toBe('document')
+    expect(getKindFromContentType('application/octet-stream')).toBeUndefined()
+    expect(getKindFromContentType(null)).toBeUndefined()
+    expect(isHlsContentType('application/x-mpegURL; charset=utf-8')).toBe(true)
+    expect(isHlsContentType('video/mp4')).toBe(false)
+  })
+
+  it('trusts the server over the extension', async () => {
+    const fetchImpl = vi.fn(async () => respond(200, 'video/webm'))
+
+    await expect(detectMedia('https://cdn.example.com/x?id=123', fetchImpl)).resolves.toEqual({
+      kind: 'video',
+      isHls: false,
+    })
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+    expect(fetchImpl).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ method: 'HEAD' }))
+  })
+
+  it('asks for a byte range when HEAD is rejected', async () => {
+    const fetchImpl = vi.fn(async (_: RequestInfo | URL, init?: RequestInit) =>
+      init?.method === 'HEAD' ? respond(403) : respond(206, 'video/mp4'),
+    )
+
+    await expect(detectMedia('https://bucket.s3.amazonaws.com/clip?X-Amz-Signature=abc', fetchImpl)).resolves.toEqual({
+      kind: 'video',
+      isHls: false,
+    })
+    expect(fetchImpl).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.objectContaining({ headers: { Range: 'bytes=0-0' } }),
+    )
+  })
+
+  it('falls back to the extension when the server cannot be asked', async () => {
+    const fetchImpl = vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    })
+
+    await expect(detectMedia('https://example.com/a.m3u8', fetchImpl)).resolves.toEqual({ kind: 'video', isHls: true })
+    await expect(detectMedia('https://example.com/article', fetchImpl)).resolves.toEqual({
+      kind: 'document',
+      isHls: false,
+    })
+    expect(fetchImpl).toHaveBeenCalledTimes(2)
+  })
+
+  it('flags HLS playlists served without the extension', async () => {
+    const fetchImpl = vi.fn(async () => respond(200, 'application/vnd.apple.mpegurl'))
+
+    await expect(detectMedia('https://cdn.example.com/stream?id=123', fetchImpl)).resolves.toEqual({
+      kind: 'video',
+      isHls: true,
+    })
+  })
+
+  it('does not ask about provider links', async () => {
+    const fetchImpl = vi.fn(async () => respond(200, 'text/html'))
+
+    await expect(detectMedia('https://youtu.be/dQw4w9WgXcQ', fetchImpl)).resolves.toEqual({
+      kind: 'video',
+      isHls: false,
+    })
+    expect(fetchImpl).not.toHaveBeenCalled()
+  })
+})
+
+describe('applyDetectedMedia', () => {
+  const url = 'https://cdn.example.com/stream?id=123'
+
+  it('updates every track with the URL and keeps kinds the user picked', () => {
+    const feedTrack = createMediaTrack(url, 'feed', 'document', 'namespace-a')
+    const pickedTrack = { ...createMediaTrack(url, 'picked', 'document'), isKindOverridden: true }
+    const otherTrack = createMediaTrack('https://example.com/a.mp4', 'other')
+
+    const next = applyDetectedMedia([feedTrack, pickedTrack, otherTrack], url, { kind: 'video', isHls: true })
+
+    expect(next[0]).toMatchObject({ kind: 'video', isHls: true })
+    expect(next[1]).toMatchObject({ kind: 'document', isHls: true })
+    expect(next[2]).toBe(otherTrack)
+  })
+
+  it('returns the same list when nothing changes', () => {
+    const tracks = [createMediaTrack(url, 'feed', 'video')]
+
+    expect(applyDetectedMedia(tracks, url, { kind: 'video', isHls: false })).toBe(tracks)
+  })
+})
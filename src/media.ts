@@ -0,0 +1,184 @@
+import type { DetectedMedia, MediaKind, MediaProvider, MediaTrack } from './types'
+
+export const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.ogg', '.mov', '.m3u8']
+
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/
+const YOUTUBE_PATH_PATTERN = /^\/(?:embed|shorts|live|v)\/([\w-]{11})/
+const VIMEO_PATH_PATTERN = /\/(\d+)(?:\/|$)/
+
+const parseUrl = (urlString: string): URL | undefined => {
+  try {
+    return new URL(urlString)
+  } catch {
+    return undefined
+  }
+}
+
+const getHostname = (url: URL): string => url.hostname.toLowerCase().replace(/^(?:www|m|music)\./, '')
+
+/** The video ID of a youtube.com, youtu.be or youtube-nocookie.com link. */
+export const parseYouTubeId = (urlString: string): string | undefined => {
+  const url = parseUrl(urlString)
+  if (!url) {
+    return undefined
+  }
+
+  const hostname = getHostname(url)
+  const id =
+    hostname === 'youtu.be'
+      ? url.pathname.split('/')[1]
+      : hostname === 'youtube.com' || hostname === 'youtube-nocookie.com'
+        ? (url.searchParams.get('v') ?? url.pathname.match(YOUTUBE_PATH_PATTERN)?.[1])
+        : undefined
+  return id && YOUTUBE_ID_PATTERN.test(id) ? id : undefined
+}
+
+/** The video ID of a vimeo.com or player.vimeo.com link. */
+export const parseVimeoId = (urlString: string): string | undefined => {
+  const url = parseUrl(urlString)
+  const hostname = url ? getHostname(url) : ''
+  return url && (hostname === 'vimeo.com' || hostname === 'player.vimeo.com')
+    ? url.pathname.match(VIMEO_PATH_PATTERN)?.[1]
+    : undefined
+}
+
+/** Which player a URL needs: a `<video>` element for files, or an embedded provider player. */
+export const getMediaProvider = (urlString: string): MediaProvider =>
+  parseYouTubeId(urlString) ? 'youtube' : parseVimeoId(urlString) ? 'vimeo' : 'file'
+
+/** Turns a bare YouTube video ID into a watch URL; anything else is returned trimmed. */
+export const expandMediaInput = (input: string): string => {
+  const trimmed = input.trim()
+  return YOUTUBE_ID_PATTERN.test(trimmed) && !/^\d+$/.test(trimmed)
+    ? `https://www.youtube.com/watch?v=${trimmed}`
+    : trimmed
+}
+
+/** Whether a URL points at an HLS playlist. */
+export const isHlsUrl = (urlString: string): boolean =>
+  parseUrl(urlString)?.pathname.toLowerCase().endsWith('.m3u8') ?? false
+
+/** Whether a track plays through an HLS player, by extension or by the type its server reported. */
+export const isHlsTrack = (track: Pick<MediaTrack, 'url' | 'isHls'>): boolean =>
+  Boolean(track.isHls) || isHlsUrl(track.url)
+
+export const inferMediaKind = (urlString: string): MediaKind => {
+  if (getMediaProvider(urlString) !== 'file') {
+    return 'video'
+  }
+
+  try {
+    const url = new URL(urlString)
+    const pathname = url.pathname.toLowerCase()
+    if (VIDEO_EXTENSIONS.some((extension) => pathname.endsWith(extension))) {
+      return 'video'
+    }
+  } catch {
+    // Ignore parse failures and treat as document fallback.
+  }
+
+  return 'document'
+}
+
+const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl']
+const DOCUMENT_CONTENT_TYPES = ['application/pdf', 'application/xhtml+xml']
+
+/** How long to wait for a server to report a URL's type before going by its extension. */
+export const MEDIA_SNIFF_TIMEOUT_MS = 5000
+
+/** The lower-cased MIME type of a `Content-Type` header, without its parameters. */
+const getMimeType = (contentType: string | null): string | undefined =>
+  contentType?.split(';')[0].trim().toLowerCase() || undefined
+
+/** Whether a `Content-Type` header names an HLS playlist. */
+export const isHlsContentType = (contentType: string | null): boolean =>
+  HLS_CONTENT_TYPES.includes(getMimeType(contentType) ?? '')
+
+/**
+ * The kind a `Content-Type` header implies, or undefined when it says nothing
+ * useful, as with `application/octet-stream`. Audio plays in the video player.
+ */
+export const getKindFromContentType = (contentType: string | null): MediaKind | undefined => {
+  const mimeType = getMimeType(contentType)
+  if (!mimeType) {
+    return undefined
+  }
+
+  if (mimeType.startsWith('video/') || mimeType.startsWith('audio/') || HLS_CONTENT_TYPES.includes(mimeType)) {
+    return 'video'
+  }
+
+  return mimeType.startsWith('text/') || mimeType.startsWith('image/') || DOCUMENT_CONTENT_TYPES.includes(mimeType)
+    ? 'document'
+    : undefined
+}
+
+const SNIFF_REQUESTS: RequestInit[] = [{ method: 'HEAD' }, { method: 'GET', headers: { Range: 'bytes=0-0' } }]
+
+/**
+ * Detects a URL's kind from the `Content-Type` its server sends: a HEAD
+ * request first, then a one-byte range request for servers that reject HEAD.
+ * Provider links need no request. When the server cannot be asked (CORS or
+ * network errors) or gives no useful type, the extension decides.
+ */
+export const detectMedia = async (urlString: string, fetchImpl: typeof fetch = fetch): Promise<DetectedMedia> => {
+  if (getMediaProvider(urlString) !== 'file') {
+    return { kind: 'video', isHls: false }
+  }
+
+  const signal = AbortSignal.timeout(MEDIA_SNIFF_TIMEOUT_MS)
+  for (const init of SNIFF_REQUESTS) {
+    let response: Response
+    try {
+      response = await fetchImpl(urlString, { ...init, signal })
+    } catch {
+      // A request that could not be made at all would fail the same way again.
+      break
+    }
+
+    response.body?.cancel().catch(() => undefined)
+    const contentType = response.ok ? response.headers.get('content-type') : null
+    const kind = getKindFromContentType(contentType)
+    if (kind) {
+      return { kind, isHls: isHlsContentType(contentType) || isHlsUrl(urlString) }
+    }
+  }
+
+  return { kind: inferMediaKind(urlString), isHls: isHlsUrl(urlString) }
+}
+
+/**
+ * Applies a detection to every track playing `urlString`, keeping kinds the
+ * user picked. Returns `tracks` itself when nothing changes.
+ */
+export const applyDetectedMedia = (
+  tracks: MediaTrack[],
+  urlString: string,
+  { kind, isHls }: DetectedMedia,
+): MediaTrack[] => {
+  let hasChanged = false
+  const next = tracks.map((track) => {
+    const nextKind = track.isKindOverridden ? track.kind : kind
+    if (track.url !== urlString || track.localFile || (nextKind === track.kind && Boolean(track.isHls) === isHls)) {
+      return track
+    }
+
+    hasChanged = true
+    return { ...track, kind: nextKind, isHls: isHls || undefined }
+  })
+  return hasChanged ? next : tracks
+}
+
+export const createMediaTrack = (url: string, source: string, kind?: MediaKind, namespace?: string): MediaTrack => {
+  const keyBase = crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)
+  const resolvedKind = kind ?? inferMediaKind(url)
+
+  return {
+    key: `media-${keyBase}`,
+    url,
+    source,
+    kind: resolvedKind,
+    namespace,
+    points: [],
+  }
+}
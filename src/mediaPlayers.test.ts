@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { INITIAL_VIMEO_STATE, applyVimeoMessage, readMediaClock } from './mediaPlayers'
+
+describe('readMediaClock', () => {
+  it('extrapolates while playing at the playback rate', () => {
+    expect(readMediaClock({ time: 10, at: 1000, isPlaying: true, rate: 2 }, 1500)).toBe(11)
+    expect(readMediaClock({ time: 10, at: 1000, isPlaying: false, rate: 2 }, 1500)).toBe(10)
+  })
+})
+
+describe('applyVimeoMessage', () => {
+  it('tracks time, duration and play state', () => {
+    let state = applyVimeoMessage(INITIAL_VIMEO_STATE, '{"event":"ready"}', 0)
+    state = applyVimeoMessage(state, { event: 'play', data: { seconds: 1 } }, 100)
+    state = applyVimeoMessage(state, { event: 'timeupdate', data: { seconds: 2.5, duration: 60 } }, 1600)
+
+    expect(state).toEqual({ time: 2.5, at: 1600, isPlaying: true, rate: 1, duration: 60, isReady: true })
+
+    state = applyVimeoMessage(state, { event: 'pause', data: { seconds: 3 } }, 2100)
+    expect(state).toEqual(expect.objectContaining({ time: 3, isPlaying: false }))
+  })
+
+  it('reads method responses and playback rate changes', () => {
+    const state = applyVimeoMessage(
+      applyVimeoMessage(INITIAL_VIMEO_STATE, { method: 'getDuration', value: 42 }, 0),
+      { event: 'playbackratechange', data: { playbackRate: 1.5 } },
+      0,
+    )
+
+    expect(state).toEqual(expect.objectContaining({ duration: 42, rate: 1.5 }))
+  })
+
+  it('ignores unrelated messages', () => {
+    expect(applyVimeoMessage(INITIAL_VIMEO_STATE, 'not json', 0)).toBe(INITIAL_VIMEO_STATE)
+    expect(applyVimeoMessage(INITIAL_VIMEO_STATE, { event: 'bufferstart' }, 0)).toBe(INITIAL_VIMEO_STATE)
+  })
+})
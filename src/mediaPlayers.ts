@@ -0,0 +1,239 @@
+import { getMediaDuration } from './playback'
+
+/**
+ * Playback controls shared by `<video>` elements and embedded provider
+ * players, so every video track is timed, seeked and autoplayed the same way.
+ */
+export type MediaPlayer = {
+  getCurrentTime: () => number
+  /** Seconds, or 0 while unknown. For live streams, the live edge. */
+  getDuration: () => number
+  isLive: () => boolean
+  isPaused: () => boolean
+  isSeeking: () => boolean
+  play: () => Promise<void>
+  pause: () => void
+  seek: (time: number) => void
+  setPlaybackRate: (rate: number) => void
+  /** The element the player renders into, when it is known synchronously. */
+  element?: HTMLVideoElement | HTMLIFrameElement
+  /** Receives `message` events from an embedded player's frame. */
+  handleMessage?: (data: unknown) => void
+}
+
+/**
+ * The last time reported by an embedded player. Between reports the time is
+ * extrapolated from the wall clock, since embeds only report a few times a
+ * second.
+ */
+export type MediaClock = {
+  time: number
+  at: number
+  isPlaying: boolean
+  rate: number
+}
+
+export const INITIAL_MEDIA_CLOCK: MediaClock = { time: 0, at: 0, isPlaying: false, rate: 1 }
+
+export const readMediaClock = (clock: MediaClock, now: number): number =>
+  clock.isPlaying ? clock.time + ((now - clock.at) / 1000) * clock.rate : clock.time
+
+export const EMBED_ASPECT_RATIO = 16 / 9
+
+export const createVideoElementPlayer = (element: HTMLVideoElement): MediaPlayer => ({
+  getCurrentTime: () => element.currentTime,
+  getDuration: () => getMediaDuration(element.duration, element.seekable),
+  isLive: () => element.duration === Number.POSITIVE_INFINITY,
+  isPaused: () => element.paused,
+  isSeeking: () => element.seeking,
+  play: () => element.play(),
+  pause: () => element.pause(),
+  seek: (time) => {
+    element.currentTime = time
+  },
+  setPlaybackRate: (rate) => {
+    element.playbackRate = rate
+  },
+  element,
+})
+
+/** The parts of the YouTube IFrame API player used here; calls may return values or promises. */
+export type YouTubeTarget = {
+  getCurrentTime: () => number | Promise<number>
+  getDuration: () => number | Promise<number>
+  getPlayerState: () => number | Promise<number>
+  playVideo: () => unknown
+  pauseVideo: () => unknown
+  seekTo: (seconds: number, allowSeekAhead: boolean) => unknown
+  setPlaybackRate: (rate: number) => unknown
+}
+
+/** `YT.PlayerState` values that mean the video is advancing or about to. */
+const YOUTUBE_PLAYING_STATES = new Set([1, 3])
+
+export const YOUTUBE_PLAYER_OPTIONS = {
+  width: '100%',
+  height: '100%',
+  playerVars: { mute: 1, playsinline: 1, rel: 0 },
+}
+
+export const createYouTubePlayer = (target: YouTubeTarget): MediaPlayer => {
+  let clock = INITIAL_MEDIA_CLOCK
+  let duration = 0
+  let isRefreshing = false
+
+  const refresh = () => {
+    if (isRefreshing) {
+      return
+    }
+
+    isRefreshing = true
+    Promise.all([target.getCurrentTime(), target.getDuration(), target.getPlayerState()])
+      .then(([time, nextDuration, state]) => {
+        clock = { ...clock, time, at: performance.now(), isPlaying: YOUTUBE_PLAYING_STATES.has(state) }
+        duration = Number.isFinite(nextDuration) ? nextDuration : 0
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        isRefreshing = false
+      })
+  }
+
+  return {
+    getCurrentTime: () => {
+      refresh()
+      return readMediaClock(clock, performance.now())
+    },
+    getDuration: () => duration,
+    isLive: () => false,
+    isPaused: () => !clock.isPlaying,
+    isSeeking: () => false,
+    play: async () => {
+      clock = { ...clock, at: performance.now(), isPlaying: true }
+      await target.playVideo()
+    },
+    pause: () => {
+      clock = { ...clock, time: readMediaClock(clock, performance.now()), isPlaying: false }
+      target.pauseVideo()
+    },
+    seek: (time) => {
+      clock = { ...clock, time, at: performance.now() }
+      target.seekTo(time, true)
+    },
+    setPlaybackRate: (rate) => {
+      clock = { ...clock, time: readMediaClock(clock, performance.now()), at: performance.now(), rate }
+      target.setPlaybackRate(rate)
+    },
+  }
+}
+
+export const VIMEO_ORIGIN = 'https://player.vimeo.com'
+
+const VIMEO_EVENTS = ['timeupdate', 'play', 'pause', 'seeked', 'ended', 'playbackratechange']
+
+export const getVimeoEmbedUrl = (id: string): string =>
+  `${VIMEO_ORIGIN}/video/${encodeURIComponent(id)}?muted=1&playsinline=1&autopause=0&dnt=1`
+
+export type VimeoState = MediaClock & {
+  duration: number
+  isReady: boolean
+}
+
+export const INITIAL_VIMEO_STATE: VimeoState = { ...INITIAL_MEDIA_CLOCK, duration: 0, isReady: false }
+
+const readNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+/**
+ * Applies a message from the Vimeo player (the postMessage API behind
+ * player.js). Messages arrive as objects or JSON strings; unknown ones leave
+ * the state unchanged.
+ */
+export const applyVimeoMessage = (state: VimeoState, data: unknown, now: number): VimeoState => {
+  let message: unknown = data
+  if (typeof data === 'string') {
+    try {
+      message = JSON.parse(data)
+    } catch {
+      return state
+    }
+  }
+
+  if (!message || typeof message !== 'object') {
+    return state
+  }
+
+  const { event, method, value } = message as { event?: unknown; method?: unknown; value?: unknown }
+  const payload = ((message as { data?: unknown }).data ?? {}) as Record<string, unknown>
+
+  if (method === 'getDuration') {
+    return { ...state, duration: readNumber(value) ?? state.duration }
+  }
+
+  switch (event) {
+    case 'ready':
+      return { ...state, isReady: true }
+    case 'timeupdate':
+    case 'seeked':
+      return {
+        ...state,
+        time: readNumber(payload.seconds) ?? state.time,
+        at: now,
+        duration: readNumber(payload.duration) ?? state.duration,
+      }
+    case 'play':
+      return { ...state, time: readNumber(payload.seconds) ?? state.time, at: now, isPlaying: true }
+    case 'pause':
+    case 'ended':
+      return { ...state, time: readNumber(payload.seconds) ?? state.time, at: now, isPlaying: false }
+    case 'playbackratechange':
+      return { ...state, rate: readNumber(payload.playbackRate) ?? state.rate }
+    default:
+      return state
+  }
+}
+
+export type EmbedCallbacks = {
+  onReady: () => void
+  onPlayingChange: (isPlaying: boolean) => void
+}
+
+export const createVimeoPlayer = (
+  frame: HTMLIFrameElement,
+  { onReady, onPlayingChange }: EmbedCallbacks,
+): MediaPlayer => {
+  let state = INITIAL_VIMEO_STATE
+
+  const post = (method: string, value?: unknown) => {
+    frame.contentWindow?.postMessage(value === undefined ? { method } : { method, value }, VIMEO_ORIGIN)
+  }
+
+  return {
+    getCurrentTime: () => readMediaClock(state, performance.now()),
+    getDuration: () => state.duration,
+    isLive: () => false,
+    isPaused: () => !state.isPlaying,
+    isSeeking: () => false,
+    play: async () => post('play'),
+    pause: () => post('pause'),
+    seek: (time) => {
+      state = { ...state, time, at: performance.now() }
+      post('setCurrentTime', time)
+    },
+    setPlaybackRate: (rate) => post('setPlaybackRate', rate),
+    element: frame,
+    handleMessage: (data) => {
+      const previous = state
+      state = applyVimeoMessage(state, data, performance.now())
+
+      if (state.isReady && !previous.isReady) {
+        VIMEO_EVENTS.forEach((event) => post('addEventListener', event))
+        post('getDuration')
+        onReady()
+      }
+      if (state.isPlaying !== previous.isPlaying) {
+        onPlayingChange(state.isPlaying)
+      }
+    },
+  }
+}
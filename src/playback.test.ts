@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getMediaDuration,
+  getQualityOptions,
+  isAtLiveEdge,
+  measureFrameDuration,
+  recordPresentedFrame,
+  stepFrame,
+} from './playback'
+
+describe('measureFrameDuration', () => {
+  it('divides elapsed media time by presented frames', () => {
+    const previous = { mediaTime: 1, presentedFrames: 30 }
+
+    expect(measureFrameDuration(previous, { mediaTime: 1.08, presentedFrames: 32 })).toBeCloseTo(0.04)
+  })
+
+  it('ignores seeks, loops and long gaps', () => {
+    const previous = { mediaTime: 1, presentedFrames: 30 }
+
+    expect(measureFrameDuration(previous, { mediaTime: 9, presentedFrames: 31 })).toBeUndefined()
+    expect(measureFrameDuration(previous, { mediaTime: 0, presentedFrames: 31 })).toBeUndefined()
+    expect(measureFrameDuration(previous, { mediaTime: 1, presentedFrames: 30 })).toBeUndefined()
+  })
+})
+
+describe('recordPresentedFrame', () => {
+  it('keeps the last measured frame duration across unmeasurable frames', () => {
+    const first = recordPresentedFrame(undefined, { mediaTime: 1, presentedFrames: 10 })
+    const second = recordPresentedFrame(first, { mediaTime: 1.04, presentedFrames: 11 })
+    const afterSeek = recordPresentedFrame(second, { mediaTime: 20, presentedFrames: 12 })
+
+    expect(first.frameDuration).toBeUndefined()
+    expect(second.frameDuration).toBeCloseTo(0.04)
+    expect(afterSeek).toEqual({ mediaTime: 20, presentedFrames: 12, frameDuration: second.frameDuration })
+  })
+})
+
+describe('stepFrame', () => {
+  it('moves to the start of the next or previous frame', () => {
+    expect(stepFrame(1.01, 0.04, 1, 10)).toBeCloseTo(1.04)
+    expect(stepFrame(1.01, 0.04, -1, 10)).toBeCloseTo(0.96)
+  })
+
+  it('does not stall on times just below a frame boundary', () => {
+    expect(stepFrame(1.0399999, 0.04, 1, 10)).toBeCloseTo(1.08)
+  })
+
+  it('stays inside the media', () => {
+    expect(stepFrame(0, 0.04, -1, 10)).toBe(0)
+    expect(stepFrame(10, 0.04, 1, 10)).toBe(10)
+  })
+})
+
+describe('getMediaDuration', () => {
+  const seekable = (...ends: number[]) => ({ length: ends.length, end: (index: number) => ends[index] })
+
+  it('uses finite durations as they are', () => {
+    expect(getMediaDuration(42, seekable(10))).toBe(42)
+    expect(getMediaDuration(Number.NaN, seekable(10))).toBe(0)
+  })
+
+  it('uses the live edge for live streams', () => {
+    expect(getMediaDuration(Number.POSITIVE_INFINITY, seekable(30, 95.5))).toBe(95.5)
+    expect(getMediaDuration(Number.POSITIVE_INFINITY, seekable())).toBe(0)
+  })
+
+  it('counts times close to the edge as live', () => {
+    expect(isAtLiveEdge(93, 95.5)).toBe(true)
+    expect(isAtLiveEdge(80, 95.5)).toBe(false)
+  })
+})
+
+describe('getQualityOptions', () => {
+  it('lists renditions from the highest, labelled by height', () => {
+    const levels = [
+      { index: 0, height: 360, bitrate: 800_000 },
+      { index: 1, height: 720, bitrate: 2_500_000 },
+      { index: 2, height: 720, bitrate: 4_000_000 },
+      { index: 3, bitrate: 64_000 },
+    ]
+
+    expect(getQualityOptions(levels)).toEqual([
+      { index: 2, label: '720p (4000 kbps)' },
+      { index: 1, label: '720p (2500 kbps)' },
+      { index: 0, label: '360p' },
+      { index: 3, label: '64 kbps' },
+    ])
+  })
+})
@@ -0,0 +1,102 @@
+export type FrameDirection = -1 | 1
+
+/** A frame presented by `requestVideoFrameCallback`. */
+export type PresentedFrame = {
+  mediaTime: number
+  presentedFrames: number
+  /** Seconds per frame measured so far, if any. */
+  frameDuration?: number
+}
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2] as const
+export const DEFAULT_PLAYBACK_RATE = 1
+/** Assumed until the browser reports presented frames. */
+export const DEFAULT_FRAME_DURATION = 1 / 30
+
+const MIN_FRAME_DURATION = 1 / 240
+const MAX_FRAME_DURATION = 1 / 5
+
+/**
+ * Seconds per frame between two presented frames, or undefined when they are
+ * not consecutive enough to tell (a seek, a loop or a dropped callback).
+ */
+export const measureFrameDuration = (previous: PresentedFrame, next: PresentedFrame): number | undefined => {
+  const frames = next.presentedFrames - previous.presentedFrames
+  const duration = (next.mediaTime - previous.mediaTime) / frames
+  return frames > 0 && frames <= 4 && duration >= MIN_FRAME_DURATION && duration <= MAX_FRAME_DURATION
+    ? duration
+    : undefined
+}
+
+/** Records a presented frame, keeping the last measured frame duration when this one cannot be measured. */
+export const recordPresentedFrame = (
+  previous: PresentedFrame | undefined,
+  frame: Omit<PresentedFrame, 'frameDuration'>,
+): PresentedFrame => {
+  const frameDuration = (previous && measureFrameDuration(previous, frame)) ?? previous?.frameDuration
+  return frameDuration === undefined ? frame : { ...frame, frameDuration }
+}
+
+/**
+ * The start of the frame `direction` frames away from the one showing at
+ * `time`, clamped to the media. Times within a hundredth of a frame of a
+ * boundary count as that boundary, so repeated steps do not stall on rounding.
+ */
+export const stepFrame = (
+  time: number,
+  frameDuration: number,
+  direction: FrameDirection,
+  duration: number,
+): number => {
+  const frame = Math.floor(time / frameDuration + 0.01)
+  const target = (frame + direction) * frameDuration
+  return Math.max(0, duration > 0 ? Math.min(duration, target) : target)
+}
+
+export const formatPlaybackRate = (rate: number): string => `${rate}×`
+
+/** Seconds behind the live edge that still count as watching live. */
+export const LIVE_EDGE_TOLERANCE = 3
+
+/**
+ * A usable duration: the media's own when finite, or for live streams (whose
+ * duration is infinite) the end of the seekable window, which is the live edge.
+ */
+export const getMediaDuration = (duration: number, seekable: Pick<TimeRanges, 'length' | 'end'>): number => {
+  if (Number.isFinite(duration)) {
+    return duration
+  }
+
+  return duration === Number.POSITIVE_INFINITY && seekable.length ? seekable.end(seekable.length - 1) : 0
+}
+
+export const isAtLiveEdge = (time: number, liveEdge: number): boolean => liveEdge - time <= LIVE_EDGE_TOLERANCE
+
+/** A rendition of an adaptive stream; `index` is its position in the player's level list. */
+export type QualityLevel = {
+  index: number
+  height?: number
+  bitrate: number
+}
+
+/** Lets the player pick renditions by bandwidth. */
+export const AUTO_QUALITY_LEVEL = -1
+
+const formatBitrate = (bitrate: number): string => `${Math.round(bitrate / 1000)} kbps`
+
+/**
+ * Renditions from the highest to the lowest, labelled by height and, where
+ * heights repeat or are unknown, by bitrate.
+ */
+export const getQualityOptions = (levels: QualityLevel[]): Array<{ index: number; label: string }> => {
+  const sorted = [...levels].sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || b.bitrate - a.bitrate)
+  return sorted.map(({ index, height, bitrate }) => {
+    const isHeightShared = sorted.filter((level) => level.height === height).length > 1
+    const label = !height
+      ? formatBitrate(bitrate)
+      : isHeightShared
+        ? `${height}p (${formatBitrate(bitrate)})`
+        : `${height}p`
+    return { index, label }
+  })
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createCellRectangle,
+  formatShapeSegment,
+  getShapeCenter,
+  moveShapeVertex,
+  parseShapeSegment,
+  parseShapeValue,
+  translateShape,
+} from './shapes'
+import type { AnnotationShape } from './types'
+
+const TRIANGLE: AnnotationShape = {
+  type: 'polygon',
+  vertices: [
+    { xPercent: 10, yPercent: 20 },
+    { xPercent: 50, yPercent: 20 },
+    { xPercent: 30, yPercent: 60 },
+  ],
+}
+
+describe('createCellRectangle', () => {
+  it('covers every cell between the two corners in either order', () => {
+    expect(createCellRectangle({ row: 4, column: 3 }, { row: 2, column: 1 }, { rows: 4, columns: 3 })).toEqual({
+      type: 'rectangle',
+      xPercent: 0,
+      yPercent: 25,
+      widthPercent: 100,
+      heightPercent: 75,
+    })
+  })
+
+  it('rounds edges that fall between hundredths', () => {
+    expect(createCellRectangle({ row: 1, column: 2 }, { row: 1, column: 2 }, { rows: 1, columns: 3 })).toEqual(
+      expect.objectContaining({ xPercent: 33.33, widthPercent: 33.34 }),
+    )
+  })
+})
+
+describe('moveShapeVertex', () => {
+  it('keeps the opposite rectangle corner in place', () => {
+    const rectangle: AnnotationShape = {
+      type: 'rectangle',
+      xPercent: 10,
+      yPercent: 10,
+      widthPercent: 20,
+      heightPercent: 20,
+    }
+
+    expect(moveShapeVertex(rectangle, 2, { xPercent: 50, yPercent: 40 })).toEqual({
+      type: 'rectangle',
+      xPercent: 10,
+      yPercent: 10,
+      widthPercent: 40,
+      heightPercent: 30,
+    })
+    expect(moveShapeVertex(rectangle, 0, { xPercent: 40, yPercent: -5 })).toEqual(
+      expect.objectContaining({ xPercent: 30, yPercent: 0, widthPercent: 10, heightPercent: 30 }),
+    )
+  })
+
+  it('replaces a polygon vertex', () => {
+    expect(moveShapeVertex(TRIANGLE, 2, { xPercent: 30, yPercent: 90 })).toEqual({
+      type: 'polygon',
+      vertices: [...TRIANGLE.vertices.slice(0, 2), { xPercent: 30, yPercent: 90 }],
+    })
+  })
+})
+
+describe('translateShape', () => {
+  it('moves every vertex and clamps to the frame', () => {
+    const rectangle = { type: 'rectangle' as const, xPercent: 10, yPercent: 10, widthPercent: 20, heightPercent: 20 }
+
+    expect(translateShape(rectangle, { xPercent: 5, yPercent: -5 })).toEqual({
+      ...rectangle,
+      xPercent: 15,
+      yPercent: 5,
+    })
+    expect(translateShape(TRIANGLE, { xPercent: 60, yPercent: 0 })).toEqual({
+      type: 'polygon',
+      vertices: [
+        { xPercent: 70, yPercent: 20 },
+        { xPercent: 100, yPercent: 20 },
+        { xPercent: 90, yPercent: 60 },
+      ],
+    })
+    expect(translateShape(rectangle, { xPercent: 95, yPercent: 0 })).toBe(rectangle)
+  })
+})
+
+describe('getShapeCenter', () => {
+  it('returns the middle of the bounding box', () => {
+    expect(getShapeCenter(TRIANGLE)).toEqual({ xPercent: 30, yPercent: 40 })
+  })
+})
+
+describe('shape segments', () => {
+  it('round-trips rectangles and polygons', () => {
+    const rectangle: AnnotationShape = {
+      type: 'rectangle',
+      xPercent: 12.5,
+      yPercent: 0,
+      widthPercent: 25,
+      heightPercent: 50,
+    }
+
+    expect(formatShapeSegment(rectangle)).toBe('rect/12.5,0,25,50')
+    expect(formatShapeSegment(TRIANGLE)).toBe('poly/10,20,50,20,30,60')
+    expect(parseShapeSegment(formatShapeSegment(rectangle))).toEqual(rectangle)
+    expect(parseShapeSegment(formatShapeSegment(TRIANGLE))).toEqual(TRIANGLE)
+  })
+
+  it.each([
+    ['rect/1,2,3', 'too few rectangle values'],
+    ['rect/1,2,0,4', 'rectangle without area'],
+    ['poly/1,2,3,4', 'two vertices'],
+    ['poly/1,2,3,4,5', 'odd number of values'],
+    ['poly/1,2,3,4,5,101', 'vertex outside the frame'],
+    ['circle/1,2,3', 'unknown shape'],
+  ])('rejects %s (%s)', (segment) => {
+    expect(parseShapeSegment(segment)).toBeUndefined()
+  })
+})
+
+describe('parseShapeValue', () => {
+  it('accepts JSON objects and segment text, and tells missing from invalid shapes', () => {
+    expect(parseShapeValue(TRIANGLE)).toEqual(TRIANGLE)
+    expect(parseShapeValue('poly/10,20,50,20,30,60')).toEqual(TRIANGLE)
+    expect(parseShapeValue('')).toBeUndefined()
+    expect(parseShapeValue({ type: 'rectangle', xPercent: '1' })).toBeNull()
+    expect(parseShapeValue({ type: 'polygon', vertices: [{ xPercent: 1 }] })).toBeNull()
+  })
+})
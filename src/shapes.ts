@@ -0,0 +1,202 @@
+import type { AnnotationShape, GridDimensions, RegionVertex } from './types'
+
+export const MIN_POLYGON_VERTICES = 3
+export const MAX_POLYGON_VERTICES = 32
+
+type RectangleShape = Extract<AnnotationShape, { type: 'rectangle' }>
+
+const SHAPE_SEGMENT_PATTERN = /^(rect|poly)\/([\d.]+(?:,[\d.]+)*)$/
+
+export const clampPercent = (value: number): number => Math.min(100, Math.max(0, value))
+
+const roundHundredths = (value: number): number => Math.round(value * 100) / 100
+
+const roundPercent = (value: number): number => roundHundredths(clampPercent(value))
+
+const isVertex = (value: unknown): value is RegionVertex => {
+  const candidate = value as Partial<RegionVertex> | null
+  return Number.isFinite(candidate?.xPercent) && Number.isFinite(candidate?.yPercent)
+}
+
+const createRectangle = (a: RegionVertex, b: RegionVertex): RectangleShape => {
+  const left = roundPercent(Math.min(a.xPercent, b.xPercent))
+  const top = roundPercent(Math.min(a.yPercent, b.yPercent))
+  return {
+    type: 'rectangle',
+    xPercent: left,
+    yPercent: top,
+    widthPercent: roundHundredths(roundPercent(Math.max(a.xPercent, b.xPercent)) - left),
+    heightPercent: roundHundredths(roundPercent(Math.max(a.yPercent, b.yPercent)) - top),
+  }
+}
+
+/**
+ * Rounds coordinates to hundredths of a percent inside the frame. Returns
+ * undefined for rectangles without area and polygons with too few or too
+ * many vertices.
+ */
+export const normalizeShape = (shape: AnnotationShape): AnnotationShape | undefined => {
+  if (shape.type === 'rectangle') {
+    const rectangle = createRectangle(
+      { xPercent: shape.xPercent, yPercent: shape.yPercent },
+      { xPercent: shape.xPercent + shape.widthPercent, yPercent: shape.yPercent + shape.heightPercent },
+    )
+    return rectangle.widthPercent > 0 && rectangle.heightPercent > 0 ? rectangle : undefined
+  }
+
+  if (shape.vertices.length < MIN_POLYGON_VERTICES || shape.vertices.length > MAX_POLYGON_VERTICES) {
+    return undefined
+  }
+
+  return {
+    type: 'polygon',
+    vertices: shape.vertices.map(({ xPercent, yPercent }) => ({
+      xPercent: roundPercent(xPercent),
+      yPercent: roundPercent(yPercent),
+    })),
+  }
+}
+
+/** Corners of a rectangle (clockwise from the top left) or a polygon's vertices. */
+export const getShapeVertices = (shape: AnnotationShape): RegionVertex[] => {
+  if (shape.type === 'polygon') {
+    return shape.vertices
+  }
+
+  const right = shape.xPercent + shape.widthPercent
+  const bottom = shape.yPercent + shape.heightPercent
+  return [
+    { xPercent: shape.xPercent, yPercent: shape.yPercent },
+    { xPercent: right, yPercent: shape.yPercent },
+    { xPercent: right, yPercent: bottom },
+    { xPercent: shape.xPercent, yPercent: bottom },
+  ]
+}
+
+/** The point a region is anchored at: the middle of its bounding box. */
+export const getShapeCenter = (shape: AnnotationShape): RegionVertex => {
+  const vertices = getShapeVertices(shape)
+  const xs = vertices.map((vertex) => vertex.xPercent)
+  const ys = vertices.map((vertex) => vertex.yPercent)
+  return {
+    xPercent: (Math.min(...xs) + Math.max(...xs)) / 2,
+    yPercent: (Math.min(...ys) + Math.max(...ys)) / 2,
+  }
+}
+
+/** A rectangle covering every cell between two cells, inclusive. */
+export const createCellRectangle = (
+  start: { row: number; column: number },
+  end: { row: number; column: number },
+  grid: GridDimensions,
+): AnnotationShape =>
+  createRectangle(
+    {
+      xPercent: ((Math.min(start.column, end.column) - 1) / grid.columns) * 100,
+      yPercent: ((Math.min(start.row, end.row) - 1) / grid.rows) * 100,
+    },
+    {
+      xPercent: (Math.max(start.column, end.column) / grid.columns) * 100,
+      yPercent: (Math.max(start.row, end.row) / grid.rows) * 100,
+    },
+  )
+
+/**
+ * Moves one vertex. For rectangles the index is a corner from
+ * `getShapeVertices` and the opposite corner stays in place.
+ */
+export const moveShapeVertex = (shape: AnnotationShape, index: number, vertex: RegionVertex): AnnotationShape => {
+  const target = { xPercent: roundPercent(vertex.xPercent), yPercent: roundPercent(vertex.yPercent) }
+
+  if (shape.type === 'polygon') {
+    return { ...shape, vertices: shape.vertices.map((current, position) => (position === index ? target : current)) }
+  }
+
+  const opposite = getShapeVertices(shape)[(index + 2) % 4]
+  return createRectangle(opposite, target)
+}
+
+/**
+ * Moves a shape by an offset in percent. Parts pushed past the frame edges are
+ * clamped; the shape is left unchanged when that would collapse it.
+ */
+export const translateShape = (shape: AnnotationShape, offset: RegionVertex): AnnotationShape => {
+  if (shape.type === 'rectangle') {
+    const moved = { ...shape, xPercent: shape.xPercent + offset.xPercent, yPercent: shape.yPercent + offset.yPercent }
+    return normalizeShape(moved) ?? shape
+  }
+
+  const vertices = shape.vertices.map(({ xPercent, yPercent }) => ({
+    xPercent: xPercent + offset.xPercent,
+    yPercent: yPercent + offset.yPercent,
+  }))
+  return normalizeShape({ type: 'polygon', vertices }) ?? shape
+}
+
+const formatNumber = (value: number): string => String(roundHundredths(value))
+
+/**
+ * Encodes a shape as the pubkey segment of a region tag: `rect/<x>,<y>,<w>,<h>`
+ * or `poly/<x1>,<y1>,<x2>,<y2>,…`.
+ */
+export const formatShapeSegment = (shape: AnnotationShape): string =>
+  shape.type === 'rectangle'
+    ? `rect/${[shape.xPercent, shape.yPercent, shape.widthPercent, shape.heightPercent].map(formatNumber).join(',')}`
+    : `poly/${shape.vertices.flatMap(({ xPercent, yPercent }) => [xPercent, yPercent]).map(formatNumber).join(',')}`
+
+export const parseShapeSegment = (segment: string): AnnotationShape | undefined => {
+  const match = segment.trim().match(SHAPE_SEGMENT_PATTERN)
+  const values = match?.[2].split(',').map(Number)
+  if (!match || !values || values.some((value) => !Number.isFinite(value) || value < 0 || value > 100)) {
+    return undefined
+  }
+
+  if (match[1] === 'rect') {
+    if (values.length !== 4) {
+      return undefined
+    }
+    const [xPercent, yPercent, widthPercent, heightPercent] = values
+    return normalizeShape({ type: 'rectangle', xPercent, yPercent, widthPercent, heightPercent })
+  }
+
+  if (values.length % 2) {
+    return undefined
+  }
+  const vertices = Array.from({ length: values.length / 2 }, (_, index) => ({
+    xPercent: values[index * 2],
+    yPercent: values[index * 2 + 1],
+  }))
+  return normalizeShape({ type: 'polygon', vertices })
+}
+
+/**
+ * Reads a shape from an import: an object as written to JSON exports, or the
+ * pubkey segment text used by CSV and WebVTT. Returns undefined when there is
+ * no shape and null when it is invalid.
+ */
+export const parseShapeValue = (value: unknown): AnnotationShape | undefined | null => {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  if (typeof value === 'string') {
+    return parseShapeSegment(value) ?? null
+  }
+
+  const candidate = value as Record<string, unknown>
+  if (candidate.type === 'rectangle') {
+    const [xPercent, yPercent, widthPercent, heightPercent] = [
+      candidate.xPercent,
+      candidate.yPercent,
+      candidate.widthPercent,
+      candidate.heightPercent,
+    ].map((entry) => (typeof entry === 'number' ? entry : NaN))
+    return [xPercent, yPercent, widthPercent, heightPercent].every(Number.isFinite)
+      ? (normalizeShape({ type: 'rectangle', xPercent, yPercent, widthPercent, heightPercent }) ?? null)
+      : null
+  }
+  if (candidate.type === 'polygon' && Array.isArray(candidate.vertices) && candidate.vertices.every(isVertex)) {
+    return normalizeShape({ type: 'polygon', vertices: candidate.vertices }) ?? null
+  }
+
+  return null
+}
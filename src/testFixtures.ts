@@ -0,0 +1,13 @@
+import type { PointOfInterest } from './types'
+
+/** A local point for tests; pass overrides for the fields a test depends on. */
+export const createPoint = (overrides: Partial<PointOfInterest> = {}): PointOfInterest => ({
+  id: 'point',
+  time: 1.5,
+  row: 3,
+  column: 2,
+  xPercent: 20,
+  yPercent: 15,
+  note: 'note',
+  ...overrides,
+})
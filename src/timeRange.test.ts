@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { createDefaultRange, dragRange, formatRangeLabel, isAnnotationVisibleAt } from './timeRange'
+
+describe('isAnnotationVisibleAt', () => {
+  it('shows points for a short window around their time', () => {
+    expect(isAnnotationVisibleAt({ time: 10 }, 10.75)).toBe(true)
+    expect(isAnnotationVisibleAt({ time: 10 }, 10.8)).toBe(false)
+  })
+
+  it('shows ranges for exactly their interval', () => {
+    expect(isAnnotationVisibleAt({ time: 10, endTime: 20 }, 10)).toBe(true)
+    expect(isAnnotationVisibleAt({ time: 10, endTime: 20 }, 20)).toBe(true)
+    expect(isAnnotationVisibleAt({ time: 10, endTime: 20 }, 9.9)).toBe(false)
+    expect(isAnnotationVisibleAt({ time: 10, endTime: 20 }, 20.1)).toBe(false)
+  })
+})
+
+describe('createDefaultRange', () => {
+  it('extends the moment by the default duration inside the media', () => {
+    expect(createDefaultRange(10, 60)).toEqual({ time: 10, endTime: 15 })
+    expect(createDefaultRange(58, 60)).toEqual({ time: 58, endTime: 60 })
+    expect(createDefaultRange(10, 0)).toEqual({ time: 10, endTime: 15 })
+  })
+
+  it('moves the start back when the moment is at the very end', () => {
+    expect(createDefaultRange(59.8, 60)).toEqual({ time: 55, endTime: 60 })
+  })
+})
+
+describe('dragRange', () => {
+  const range = { time: 10, endTime: 20 }
+
+  it('moves one edge and keeps the minimum length', () => {
+    expect(dragRange(range, 'start', 4, 60)).toEqual({ time: 14, endTime: 20 })
+    expect(dragRange(range, 'start', 15, 60)).toEqual({ time: 19.5, endTime: 20 })
+    expect(dragRange(range, 'end', -15, 60)).toEqual({ time: 10, endTime: 10.5 })
+  })
+
+  it('keeps edges inside the media', () => {
+    expect(dragRange(range, 'start', -20, 60)).toEqual({ time: 0, endTime: 20 })
+    expect(dragRange(range, 'end', 50, 60)).toEqual({ time: 10, endTime: 60 })
+  })
+
+  it('moves the whole range without changing its length', () => {
+    expect(dragRange(range, 'range', 5, 60)).toEqual({ time: 15, endTime: 25 })
+    expect(dragRange(range, 'range', 100, 60)).toEqual({ time: 50, endTime: 60 })
+    expect(dragRange(range, 'range', -100, 60)).toEqual({ time: 0, endTime: 10 })
+  })
+})
+
+describe('formatRangeLabel', () => {
+  it('formats points and ranges', () => {
+    expect(formatRangeLabel({ time: 65 })).toBe('1:05.000')
+    expect(formatRangeLabel({ time: 65, endTime: 70 })).toBe('1:05.000–1:10.000')
+  })
+})
@@ -0,0 +1,58 @@
+import { formatTimecode } from './format'
+import type { PointOfInterest } from './types'
+
+export type TimeRange = Pick<PointOfInterest, 'time' | 'endTime'>
+
+export type RangeDragPart = 'start' | 'end' | 'range'
+
+/** Seconds around its time that an annotation without an end stays visible. */
+export const VISIBLE_POINT_WINDOW = 1.5
+export const DEFAULT_RANGE_DURATION = 5
+export const MIN_RANGE_DURATION = 0.5
+
+export const isAnnotationVisibleAt = ({ time, endTime }: TimeRange, currentTime: number): boolean =>
+  endTime === undefined
+    ? Math.abs(time - currentTime) <= VISIBLE_POINT_WINDOW / 2
+    : currentTime >= time && currentTime <= endTime
+
+/**
+ * Turns a moment into a range of the default length, kept inside the media
+ * when its duration is known.
+ */
+export const createDefaultRange = (time: number, duration: number): Required<TimeRange> => {
+  if (duration <= 0) {
+    return { time, endTime: time + DEFAULT_RANGE_DURATION }
+  }
+
+  const endTime = Math.min(duration, time + DEFAULT_RANGE_DURATION)
+  return endTime - time >= MIN_RANGE_DURATION
+    ? { time, endTime }
+    : { time: Math.max(0, endTime - DEFAULT_RANGE_DURATION), endTime }
+}
+
+/**
+ * Moves one edge of a range, or the whole range, by `delta` seconds. Edges
+ * stay at least `MIN_RANGE_DURATION` apart and inside `[0, duration]`.
+ */
+export const dragRange = (
+  range: Required<TimeRange>,
+  part: RangeDragPart,
+  delta: number,
+  duration: number,
+): Required<TimeRange> => {
+  const limit = duration > 0 ? duration : Number.POSITIVE_INFINITY
+
+  switch (part) {
+    case 'start':
+      return { ...range, time: Math.min(range.endTime - MIN_RANGE_DURATION, Math.max(0, range.time + delta)) }
+    case 'end':
+      return { ...range, endTime: Math.max(range.time + MIN_RANGE_DURATION, Math.min(limit, range.endTime + delta)) }
+    case 'range': {
+      const shift = Math.min(limit - range.endTime, Math.max(-range.time, delta))
+      return { time: range.time + shift, endTime: range.endTime + shift }
+    }
+  }
+}
+
+export const formatRangeLabel = ({ time, endTime }: TimeRange): string =>
+  endTime === undefined ? formatTimecode(time) : `${formatTimecode(time)}–${formatTimecode(endTime)}`
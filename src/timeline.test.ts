@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { clampPlaybackTime, getAdjacentAnnotation, getTimelineTime } from './timeline'
+
+describe('getTimelineTime', () => {
+  it('maps the pointer position onto the duration', () => {
+    expect(getTimelineTime(150, 100, 200, 60)).toBe(15)
+    expect(getTimelineTime(50, 100, 200, 60)).toBe(0)
+    expect(getTimelineTime(400, 100, 200, 60)).toBe(60)
+  })
+
+  it('returns 0 while the size or duration is unknown', () => {
+    expect(getTimelineTime(150, 100, 0, 60)).toBe(0)
+    expect(getTimelineTime(150, 100, 200, 0)).toBe(0)
+  })
+})
+
+describe('clampPlaybackTime', () => {
+  it('keeps times inside the media', () => {
+    expect(clampPlaybackTime(-3, 60)).toBe(0)
+    expect(clampPlaybackTime(75, 60)).toBe(60)
+    expect(clampPlaybackTime(75, 0)).toBe(75)
+  })
+})
+
+describe('getAdjacentAnnotation', () => {
+  const points = [{ time: 30 }, { time: 10 }, { time: 20 }]
+
+  it('finds the next and previous annotations around the playhead', () => {
+    expect(getAdjacentAnnotation(points, 15, 'next')).toEqual({ time: 20 })
+    expect(getAdjacentAnnotation(points, 15, 'previous')).toEqual({ time: 10 })
+  })
+
+  it('moves past the annotation at the playhead', () => {
+    expect(getAdjacentAnnotation(points, 20.1, 'next')).toEqual({ time: 30 })
+    expect(getAdjacentAnnotation(points, 19.9, 'previous')).toEqual({ time: 10 })
+  })
+
+  it('returns undefined at either end', () => {
+    expect(getAdjacentAnnotation(points, 30, 'next')).toBeUndefined()
+    expect(getAdjacentAnnotation(points, 10, 'previous')).toBeUndefined()
+  })
+})
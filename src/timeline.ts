@@ -0,0 +1,30 @@
+import type { PointOfInterest } from './types'
+
+export type AnnotationDirection = 'previous' | 'next'
+
+/** Seconds skipped by the arrow-key shortcuts. */
+export const SEEK_STEP = 5
+/**
+ * Annotations closer than this to the playhead count as the current one, so
+ * jumping again moves on instead of landing on the same annotation.
+ */
+export const ANNOTATION_JUMP_TOLERANCE = 0.25
+
+/** The media time under a pointer on a timeline spanning `left` to `left + width` pixels. */
+export const getTimelineTime = (clientX: number, left: number, width: number, duration: number): number =>
+  width > 0 && duration > 0 ? Math.min(1, Math.max(0, (clientX - left) / width)) * duration : 0
+
+export const clampPlaybackTime = (time: number, duration: number): number =>
+  Math.max(0, duration > 0 ? Math.min(duration, time) : time)
+
+/** The first annotation after `time`, or the last one before it. */
+export const getAdjacentAnnotation = <T extends Pick<PointOfInterest, 'time'>>(
+  points: T[],
+  time: number,
+  direction: AnnotationDirection,
+): T | undefined => {
+  const sorted = [...points].sort((a, b) => a.time - b.time)
+  return direction === 'next'
+    ? sorted.find((point) => point.time > time + ANNOTATION_JUMP_TOLERANCE)
+    : sorted.reverse().find((point) => point.time < time - ANNOTATION_JUMP_TOLERANCE)
+}
@@ -0,0 +1,112 @@
+import type { DerivationPath, SignatureStatus } from './hdWallet'
+
+export type PublishStatus = 'pending' | 'published' | 'failed'
+
+export type AnnotationPublishState = {
+  isReadOnly?: boolean
+  publishStatus?: PublishStatus
+  publishError?: string
+  tagPubkey?: string
+  signatureStatus?: SignatureStatus
+  /** The public key that signed a graph tag. */
+  signer?: string
+}
+
+export type AnnotationReply = AnnotationPublishState & {
+  id: string
+  parentId: string
+  depth: number
+  note: string
+}
+
+export type RegionVertex = {
+  xPercent: number
+  yPercent: number
+}
+
+/** A region drawn over the frame, in percent of its width and height. */
+export type AnnotationShape =
+  | { type: 'rectangle'; xPercent: number; yPercent: number; widthPercent: number; heightPercent: number }
+  | { type: 'polygon'; vertices: RegionVertex[] }
+
+/** Where a tracked annotation is at `time`, in percent of the frame. */
+export type AnnotationKeyframe = RegionVertex & {
+  time: number
+}
+
+/** The element under a document annotation, for same-origin pages. */
+export type DocumentAnchor = {
+  selector: string
+  /** Where in the element the annotation sits, in percent of its height. */
+  offsetPercent: number
+}
+
+export type PointOfInterest = AnnotationPublishState & {
+  id: string
+  /** Seconds into a video; for documents, the position on the page in percent of its height. */
+  time: number
+  /** Present for time-ranged annotations, which are shown from `time` until this. */
+  endTime?: number
+  row: number
+  column: number
+  xPercent: number
+  yPercent: number
+  note: string
+  /** Present for region annotations; the point coordinates are its centre. */
+  shape?: AnnotationShape
+  /**
+   * Present for tracked annotations, sorted by time. The first keyframe is the
+   * anchor; the marker moves between keyframes during playback.
+   */
+  keyframes?: AnnotationKeyframe[]
+  /** Present for document annotations placed on same-origin pages. */
+  anchor?: DocumentAnchor
+  replies?: AnnotationReply[]
+}
+
+export type MediaKind = 'video' | 'document'
+
+/** What a server's content type, or failing that the extension, says a URL holds. */
+export type DetectedMedia = {
+  kind: MediaKind
+  isHls: boolean
+}
+
+/** Where a video plays: a `<video>` element for media files, or a provider's embedded player. */
+export type MediaProvider = 'file' | 'youtube' | 'vimeo'
+
+export type GridDimensions = {
+  rows: number
+  columns: number
+}
+
+/**
+ * A file added from the user's computer. It plays from an object URL, which
+ * lasts until the page closes, and is recognised by its content when loaded
+ * again.
+ */
+export type LocalFile = {
+  name: string
+  size: number
+  /** SHA-256 of the file, in hex. */
+  contentHash: string
+}
+
+export type MediaTrack = {
+  key: string
+  url: string
+  kind: MediaKind
+  /** Set when the user picked the kind, so detection leaves it alone. */
+  isKindOverridden?: boolean
+  /** Set when the server reports an HLS playlist for a URL without the `.m3u8` extension. */
+  isHls?: boolean
+  source: string
+  namespace?: string
+  derivationPath?: DerivationPath
+  isUserAdded?: boolean
+  grid?: GridDimensions
+  aspectRatio?: number
+  /** Present for local files; `url` is empty until the file is loaded again after a reload. */
+  localFile?: LocalFile
+  points: PointOfInterest[]
+}
@@ -0,0 +1,119 @@
+import nacl from 'tweetnacl'
+import { scryptAsync } from '@noble/hashes/scrypt.js'
+import { utf8ToBytes } from '@noble/hashes/utils.js'
+import { base64ToBytes, bytesToBase64, isValidMnemonic, normalizeMnemonic } from './hdWallet'
+import type { Wallet } from './hdWallet'
+
+const WALLET_STORAGE_KEY = 'video-grid:wallet'
+const WALLET_ENVELOPE_VERSION = 1
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+const SALT_LENGTH = 16
+
+type WalletEnvelope = {
+  version: typeof WALLET_ENVELOPE_VERSION
+  kdf: 'scrypt'
+  N: number
+  r: number
+  p: number
+  salt: string
+  nonce: string
+  ciphertext: string
+}
+
+const deriveStorageKey = (
+  password: string,
+  salt: Uint8Array,
+  params: { N: number; r: number; p: number },
+): Promise<Uint8Array> =>
+  scryptAsync(utf8ToBytes(password), salt, {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: nacl.secretbox.keyLength,
+  })
+
+const readEnvelope = (): WalletEnvelope | null => {
+  const raw = localStorage.getItem(WALLET_STORAGE_KEY)
+  if (!raw) {
+    return null
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<WalletEnvelope>
+    if (
+      parsed.version !== WALLET_ENVELOPE_VERSION ||
+      parsed.kdf !== 'scrypt' ||
+      typeof parsed.N !== 'number' ||
+      typeof parsed.r !== 'number' ||
+      typeof parsed.p !== 'number' ||
+      typeof parsed.salt !== 'string' ||
+      typeof parsed.nonce !== 'string' ||
+      typeof parsed.ciphertext !== 'string'
+    ) {
+      return null
+    }
+
+    return parsed as WalletEnvelope
+  } catch {
+    return null
+  }
+}
+
+export const hasStoredWallet = (): boolean => readEnvelope() !== null
+
+export const clearStoredWallet = () => {
+  localStorage.removeItem(WALLET_STORAGE_KEY)
+}
+
+/**
+ * Encrypts the recovery phrase with a password-derived key. The BIP39
+ * passphrase is never persisted; it has to be supplied again on unlock.
+ */
+export const saveWallet = async (wallet: Wallet, password: string): Promise<void> => {
+  if (!password) {
+    throw new Error('Choose a password to encrypt the wallet.')
+  }
+
+  const salt = nacl.randomBytes(SALT_LENGTH)
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  const key = await deriveStorageKey(password, salt, SCRYPT_PARAMS)
+  const ciphertext = nacl.secretbox(utf8ToBytes(wallet.mnemonic), nonce, key)
+
+  const envelope: WalletEnvelope = {
+    version: WALLET_ENVELOPE_VERSION,
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: bytesToBase64(salt),
+    nonce: bytesToBase64(nonce),
+    ciphertext: bytesToBase64(ciphertext),
+  }
+
+  localStorage.setItem(WALLET_STORAGE_KEY, JSON.stringify(envelope))
+}
+
+export const loadWallet = async (password: string, passphrase = ''): Promise<Wallet> => {
+  const envelope = readEnvelope()
+  if (!envelope) {
+    throw new Error('No saved wallet was found in this browser.')
+  }
+
+  const salt = base64ToBytes(envelope.salt)
+  const nonce = base64ToBytes(envelope.nonce)
+  const ciphertext = base64ToBytes(envelope.ciphertext)
+  if (!salt || !nonce || !ciphertext) {
+    throw new Error('The saved wallet is corrupted.')
+  }
+
+  const key = await deriveStorageKey(password, salt, envelope)
+  const plaintext = nacl.secretbox.open(ciphertext, nonce, key)
+  if (!plaintext) {
+    throw new Error('Incorrect password.')
+  }
+
+  const mnemonic = new TextDecoder().decode(plaintext)
+  if (!isValidMnemonic(mnemonic)) {
+    throw new Error('The saved wallet is corrupted.')
+  }
+
+  return { mnemonic: normalizeMnemonic(mnemonic), passphrase }
+}
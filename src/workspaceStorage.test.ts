@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { createMediaTrack } from './media'
+import { createPoint } from './testFixtures'
+import { createWorkspace, normalizeRestoredSettings, normalizeRestoredTracks } from './workspaceStorage'
+
+describe('normalizeRestoredTracks', () => {
+  it('turns publishes that were still pending into retryable failures', () => {
+    const track = {
+      ...createMediaTrack('https://example.com/a.mp4', 'a', 'video', 'feed'),
+      points: [
+        createPoint({
+          id: 'pending',
+          publishStatus: 'pending',
+          replies: [{ id: 'reply', parentId: 'pending', depth: 1, note: 'r', publishStatus: 'pending' }],
+        }),
+        createPoint({ id: 'published', publishStatus: 'published', isReadOnly: true }),
+      ],
+    }
+
+    const [restored] = normalizeRestoredTracks([track])
+
+    expect(restored.points[0]).toEqual(
+      expect.objectContaining({ publishStatus: 'failed', publishError: expect.stringContaining('reload') }),
+    )
+    expect(restored.points[0].replies?.[0].publishStatus).toBe('failed')
+    expect(restored.points[1]).toBe(track.points[1])
+  })
+
+  it('drops the object URLs of local files', () => {
+    const localFile = { name: 'clip.mp4', size: 3, contentHash: 'abc' }
+    const track = { ...createMediaTrack('blob:http://localhost/1', 'clip.mp4', 'video'), localFile }
+
+    const [restored] = normalizeRestoredTracks([track])
+
+    expect(restored).toEqual({ ...track, url: '' })
+  })
+})
+
+describe('normalizeRestoredSettings', () => {
+  it('turns the legacy grid scale into a default grid', () => {
+    expect(normalizeRestoredSettings({ gridScale: 2, socketUrl: 'wss://example.com/' })).toEqual({
+      grid: { rows: 32, columns: 18 },
+      socketUrl: 'wss://example.com/',
+    })
+  })
+})
+
+describe('createWorkspace', () => {
+  it('falls back to a default name', () => {
+    const workspace = createWorkspace('  ', [], { grid: { rows: 16, columns: 9 }, socketUrl: 'wss://example.com/' })
+
+    expect(workspace.name).toBe('Untitled workspace')
+    expect(workspace.id).toMatch(/^workspace-/)
+  })
+})
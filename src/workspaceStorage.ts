@@ -0,0 +1,160 @@
+import { DEFAULT_GRID, clampGridDimension } from './grid'
+import type { AnnotationPublishState, GridDimensions, MediaTrack } from './types'
+
+const DATABASE_NAME = 'video-grid'
+const DATABASE_VERSION = 1
+const WORKSPACE_STORE = 'workspaces'
+const ACTIVE_WORKSPACE_KEY = 'video-grid:active-workspace'
+const INTERRUPTED_PUBLISH_ERROR = 'Publishing was interrupted by a reload. Retry to publish again.'
+
+export type WorkspaceSettings = {
+  /** Grid given to tracks added to the feed. */
+  grid: GridDimensions
+  socketUrl: string
+}
+
+type LegacyWorkspaceSettings = Partial<WorkspaceSettings> & { gridScale?: number }
+
+export type Workspace = {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  tracks: MediaTrack[]
+  settings: WorkspaceSettings
+}
+
+export type WorkspaceSummary = Pick<Workspace, 'id' | 'name' | 'updatedAt'>
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB, so the feed cannot be saved.'))
+        return
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Unable to open the workspace database.'))
+    }).catch((error) => {
+      databasePromise = null
+      throw error
+    })
+  }
+
+  return databasePromise
+}
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(WORKSPACE_STORE, mode)
+    const request = createRequest(transaction.objectStore(WORKSPACE_STORE))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? new Error('The workspace database request failed.'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('The workspace database request was aborted.'))
+  })
+}
+
+const isWorkspace = (value: unknown): value is Workspace => {
+  const candidate = value as Partial<Workspace> | null
+  return (
+    typeof candidate?.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    Array.isArray(candidate.tracks) &&
+    typeof candidate.settings?.socketUrl === 'string'
+  )
+}
+
+/**
+ * Workspaces saved before grids were set per track stored a scale of the
+ * 9×16 base grid instead.
+ */
+export const normalizeRestoredSettings = (settings: LegacyWorkspaceSettings): WorkspaceSettings => {
+  const grid = settings.grid ?? {
+    rows: DEFAULT_GRID.rows * (settings.gridScale ?? 1),
+    columns: DEFAULT_GRID.columns * (settings.gridScale ?? 1),
+  }
+
+  return {
+    grid: { rows: clampGridDimension(grid.rows), columns: clampGridDimension(grid.columns) },
+    socketUrl: settings.socketUrl ?? '',
+  }
+}
+
+const settleInterruptedPublish = <T extends AnnotationPublishState>(annotation: T): T =>
+  annotation.publishStatus === 'pending'
+    ? { ...annotation, publishStatus: 'failed', publishError: INTERRUPTED_PUBLISH_ERROR }
+    : annotation
+
+/**
+ * Publishes that were still waiting for an ack when the page closed can no
+ * longer be settled, so they come back as failed and retryable. Object URLs
+ * of local files do not outlive the page either, so those tracks wait for
+ * their file to be loaded again.
+ */
+export const normalizeRestoredTracks = (tracks: MediaTrack[]): MediaTrack[] =>
+  tracks.map((track) => ({
+    ...track,
+    url: track.localFile ? '' : track.url,
+    points: track.points.map((point) =>
+      settleInterruptedPublish(
+        point.replies ? { ...point, replies: point.replies.map(settleInterruptedPublish) } : point,
+      ),
+    ),
+  }))
+
+export const createWorkspace = (name: string, tracks: MediaTrack[], settings: WorkspaceSettings): Workspace => {
+  const now = Date.now()
+  return {
+    id: `workspace-${crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)}`,
+    name: name.trim() || 'Untitled workspace',
+    createdAt: now,
+    updatedAt: now,
+    tracks,
+    settings,
+  }
+}
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const records = await runRequest('readonly', (store) => store.getAll())
+  return records
+    .filter(isWorkspace)
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export const loadWorkspace = async (id: string): Promise<Workspace | null> => {
+  const record: unknown = await runRequest('readonly', (store) => store.get(id))
+  return isWorkspace(record)
+    ? {
+        ...record,
+        tracks: normalizeRestoredTracks(record.tracks),
+        settings: normalizeRestoredSettings(record.settings),
+      }
+    : null
+}
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put({ ...workspace, updatedAt: Date.now() }))
+}
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id))
+}
+
+export const getActiveWorkspaceId = (): string | null => localStorage.getItem(ACTIVE_WORKSPACE_KEY)
+
+export const setActiveWorkspaceId = (id: string) => {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id)
+}